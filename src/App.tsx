@@ -1,26 +1,49 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
 import { PdfUpload } from './components/PdfUpload.tsx';
 import { Workspace } from './components/Workspace.tsx';
 import { Header } from './components/Header.tsx';
 import { SettingsModal } from './components/SettingsModal.tsx';
+import { InstrumentIndexModal } from './components/InstrumentIndexModal.tsx';
+import { RevisionCompareModal } from './components/RevisionCompareModal.tsx';
+import { AnnotatedExportModal } from './components/AnnotatedExportModal.tsx';
+import { RescanPreviewModal } from './components/RescanPreviewModal.tsx';
 import ErrorBoundary from './components/ErrorBoundary.tsx';
-import { extractTags, extractNoteDescriptions } from './services/taggingService.ts';
+import { extractNoteDescriptions } from './services/taggingService.ts';
+import { extractDocument, isAbortError } from './services/tagExtractionPool.ts';
 import { quickOptimizeNoteConnections, createOptimizedNoteConnections } from './services/noteConnectionOptimizer.ts';
 import { quickOptimizeNoteDescriptions, linkNoteDescriptions } from './services/noteDescriptionOptimizer.ts';
 import { quickOptimizeTolerances } from './services/toleranceOptimizer.ts';
-// Line association imports are loaded dynamically
-import { DEFAULT_PATTERNS, DEFAULT_TOLERANCES, DEFAULT_SETTINGS, DEFAULT_COLORS } from './constants.ts';
+import { associateInstrumentsWithLines } from './services/lineAssociationService.ts';
+import { pairOffPageConnectors } from './services/opcService.ts';
+import { migrateProjectData, CURRENT_PROJECT_SCHEMA_VERSION } from './services/projectMigration.ts';
+import { createHistory, isSameSnapshot, pushHistory, undoHistory, redoHistory, HistorySnapshot } from './services/historyService.ts';
+import { computeAutosaveKey, loadAutosave, saveAutosave, AutosaveSession, AUTOSAVE_INTERVAL_MS } from './services/autosaveService.ts';
+import { compareRevisions } from './services/revisionCompareService.ts';
+import { createDocumentEntry, createEmptyDocumentData, assignDocumentId, stampDocumentData, collectWorkspaceData, partitionProjectData } from './services/documentWorkspace.ts';
+import { createDrawingComment } from './services/commentService.ts';
+import { exportAnnotatedDrawings } from './services/annotatedExport.ts';
+import { getStoredReviewerName } from './services/reviewService.ts';
+import { reconcileRescan, mergeAutoRelationships, isPreservedTag, RescanResult } from './services/rescanService.ts';
+import { getActiveProfileName, saveActiveProfileName } from './services/settingsProfileService.ts';
+import { createStableIdAllocator, getDocumentKey } from './services/tagIdentity.ts';
+import { DEFAULT_PATTERNS, DEFAULT_TOLERANCES, DEFAULT_SETTINGS, DEFAULT_COLORS, REVIEW_STATUS_LABELS } from './constants.ts';
 import {
   Category,
   RelationshipType,
   CategoryType,
   Tag,
+  TagReview,
+  BoundingBox,
   RawTextItem,
   Relationship,
   Description,
   Loop,
+  DrawingComment,
+  CommentAnchor,
+  AnnotatedExportOptions,
   ConfirmModalProps,
   ProcessingProgress,
   ProjectData,
@@ -30,12 +53,27 @@ import {
   ViewMode,
   ManualTagData,
   VisibilitySettings,
-  ColorSettings
+  ColorSettings,
+  DetectedLine,
+  PdfDocumentEntry,
+  DocumentData,
+  InstrumentIndex,
+  RevisionChange,
+  RevisionComparison
 } from './types.ts';
 
 // Set PDF.js worker source - use local worker to avoid CORS issues
 pdfjsLib.GlobalWorkerOptions.workerSrc = new URL('/pdf.worker.min.mjs', import.meta.url).href;
 
+// An incremental rescan waiting for the user to apply it, with the settings it ran with
+interface PendingRescan {
+  result: RescanResult;
+  detectedLines: DetectedLine[];
+  patterns: PatternConfig;
+  tolerances: ToleranceConfig;
+  appSettings: AppSettings;
+}
+
 const ConfirmModal: React.FC<ConfirmModalProps> = ({ isOpen, message, onConfirm, onCancel }) => {
   if (!isOpen) return null;
 
@@ -76,15 +114,32 @@ const ConfirmModal: React.FC<ConfirmModalProps> = ({ isOpen, message, onConfirm,
 const App: React.FC = () => {
   const [pdfFile, setPdfFile] = useState<File | null>(null);
   const [pdfDoc, setPdfDoc] = useState<any>(null); // TODO: Add proper PDF.js type
+  const [documentKey, setDocumentKey] = useState<string>(''); // Stable-id key of pdfDoc, see getDocumentKey
   const [tags, setTags] = useState<Tag[]>([]);
   const [rawTextItems, setRawTextItems] = useState<RawTextItem[]>([]);
   const [relationships, setRelationships] = useState<Relationship[]>([]);
   const [descriptions, setDescriptions] = useState<Description[]>([]);
   const [loops, setLoops] = useState<Loop[]>([]);
-  const [detectedLines] = useState<any[]>([]); // Store detected line segments
+  const [comments, setComments] = useState<DrawingComment[]>([]); // All documents' comments, each carries its documentId
+  const [detectedLines, setDetectedLines] = useState<DetectedLine[]>([]); // Store detected line segments
+  // Multi-PDF project: the active document's data lives in the states above, the others in storedDocuments
+  const [documents, setDocuments] = useState<PdfDocumentEntry[]>([]);
+  const [activeDocumentId, setActiveDocumentId] = useState<string | null>(null);
+  const [storedDocuments, setStoredDocuments] = useState<Record<string, DocumentData>>({});
+  const [focusTagId, setFocusTagId] = useState<string | null>(null); // Tag to select once its document is shown
+  const pdfDocCacheRef = useRef(new Map<string, any>()); // documentId -> loaded PDF.js document
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [autosaveKey, setAutosaveKey] = useState<string | null>(null); // PDF name + content hash
+  const [pendingRestore, setPendingRestore] = useState<AutosaveSession | null>(null);
   const [progress, setProgress] = useState<ProcessingProgress>({ current: 0, total: 0 });
+  const processingAbortRef = useRef<AbortController | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [isInstrumentIndexOpen, setIsInstrumentIndexOpen] = useState<boolean>(false);
+  const [instrumentIndex, setInstrumentIndex] = useState<InstrumentIndex | null>(null); // Client index to reconcile against
+  const [isRevisionCompareOpen, setIsRevisionCompareOpen] = useState<boolean>(false);
+  const [revisionComparison, setRevisionComparison] = useState<RevisionComparison | null>(null);
+  const [isAnnotatedExportOpen, setIsAnnotatedExportOpen] = useState<boolean>(false);
+  const [pendingRescan, setPendingRescan] = useState<PendingRescan | null>(null);
   const [isOptimizing, setIsOptimizing] = useState<boolean>(false);
   const [optimizationProgress, setOptimizationProgress] = useState<{ percent: number; message: string }>({ percent: 0, message: '' });
   const [autoOptimizeEnabled] = useState<boolean>(() => {
@@ -101,6 +156,7 @@ const App: React.FC = () => {
     isOpen: boolean;
     message: string;
     onConfirm: () => void;
+    onCancel?: () => void;
   }>({ isOpen: false, message: '', onConfirm: () => {} });
 
   // State lifted from viewer/workspace for toolbar
@@ -113,15 +169,19 @@ const App: React.FC = () => {
     tags: {
       line: true,
       instrument: true,
+      equipment: true,
       drawingNumber: true,
       notesAndHolds: true,
+      offPageConnector: true,
     },
     descriptions: true,
+    detectedLines: false,
     relationships: {
       connection: true,
       installation: true,
       annotation: false,
       note: false,
+      offPageConnection: true,
     },
   });
   
@@ -137,6 +197,7 @@ const App: React.FC = () => {
         installation: show,
         annotation: show,
         note: show,
+        offPageConnection: show,
       }
     }));
   }, []);
@@ -282,6 +343,7 @@ const App: React.FC = () => {
         if (parsed.tags && !parsed.entities) {
           return {
             entities: {
+              ...DEFAULT_COLORS.entities,
               ...parsed.tags,
               description: parsed.relationships?.description || DEFAULT_COLORS.entities.description,
             },
@@ -298,9 +360,13 @@ const App: React.FC = () => {
           };
         }
         
-        // If it has the new structure, return it
+        // If it has the new structure, return it (filling in entity colors added later, e.g. equipment)
         if (parsed.entities) {
-          return parsed;
+          return {
+            ...parsed,
+            entities: { ...DEFAULT_COLORS.entities, ...parsed.entities },
+            relationships: { ...DEFAULT_COLORS.relationships, ...(parsed.relationships || {}) },
+          };
         }
       }
       return DEFAULT_COLORS;
@@ -309,6 +375,110 @@ const App: React.FC = () => {
     }
   });
 
+  // Name of the settings profile the current settings came from; recorded in the project file
+  const [activeProfileName, setActiveProfileName] = useState<string | null>(getActiveProfileName);
+
+  // === Undo/redo history ===
+  // Every committed change to the document data is recorded by observing state, so direct
+  // setter calls from child components are covered too. Updates committed in one render
+  // form one step; async bulk operations wrap themselves in begin/endHistoryGroup.
+  const historyRef = useRef(createHistory());
+  const lastSnapshotRef = useRef<HistorySnapshot>({ tags, rawTextItems, relationships, descriptions, loops, comments });
+  const restoreTargetRef = useRef<HistorySnapshot | null>(null);
+  const historyGroupRef = useRef<{ depth: number; base: HistorySnapshot | null; mode: 'record' | 'reset' }>({ depth: 0, base: null, mode: 'record' });
+  const pendingGroupCloseRef = useRef<{ base: HistorySnapshot; mode: 'record' | 'reset' } | null>(null);
+  const [historyGroupCloseTick, setHistoryGroupCloseTick] = useState(0);
+
+  const beginHistoryGroup = useCallback(() => {
+    const group = historyGroupRef.current;
+    if (group.depth === 0) {
+      // A group whose close hasn't committed yet merges into this one
+      const pendingClose = pendingGroupCloseRef.current;
+      pendingGroupCloseRef.current = null;
+      group.base = pendingClose ? pendingClose.base : lastSnapshotRef.current;
+      group.mode = pendingClose ? pendingClose.mode : 'record';
+    }
+    group.depth++;
+  }, []);
+
+  // 'reset' discards the whole history instead of recording a step (new PDF, rescan)
+  const endHistoryGroup = useCallback((mode: 'record' | 'reset' = 'record') => {
+    const group = historyGroupRef.current;
+    if (group.depth === 0) return;
+    if (mode === 'reset') group.mode = 'reset';
+    group.depth--;
+    if (group.depth === 0) {
+      // Close after the group's pending updates commit: this state update lands in the same or a later render
+      pendingGroupCloseRef.current = { base: group.base || lastSnapshotRef.current, mode: group.mode };
+      group.base = null;
+      setHistoryGroupCloseTick(t => t + 1);
+    }
+  }, []);
+
+  useEffect(() => {
+    const current: HistorySnapshot = { tags, rawTextItems, relationships, descriptions, loops, comments };
+    const previous = lastSnapshotRef.current;
+    lastSnapshotRef.current = current;
+
+    if (restoreTargetRef.current && isSameSnapshot(current, restoreTargetRef.current)) {
+      restoreTargetRef.current = null;
+      return;
+    }
+
+    const isGrouping = historyGroupRef.current.depth > 0 || pendingGroupCloseRef.current !== null;
+    if (!isGrouping && !isSameSnapshot(current, previous)) {
+      historyRef.current = pushHistory(historyRef.current, previous);
+    }
+
+    const pendingClose = pendingGroupCloseRef.current;
+    if (pendingClose && historyGroupRef.current.depth === 0) {
+      pendingGroupCloseRef.current = null;
+      if (pendingClose.mode === 'reset') {
+        historyRef.current = createHistory();
+      } else if (!isSameSnapshot(current, pendingClose.base)) {
+        historyRef.current = pushHistory(historyRef.current, pendingClose.base);
+      }
+    }
+  }, [tags, rawTextItems, relationships, descriptions, loops, comments, historyGroupCloseTick]);
+
+  const restoreSnapshot = useCallback((snapshot: HistorySnapshot) => {
+    restoreTargetRef.current = snapshot;
+    setTags(snapshot.tags);
+    setRawTextItems(snapshot.rawTextItems);
+    setRelationships(snapshot.relationships);
+    setDescriptions(snapshot.descriptions);
+    setLoops(snapshot.loops);
+    setComments(snapshot.comments);
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    // Don't step through history while a bulk operation or scan is still writing state
+    if (historyGroupRef.current.depth > 0 || pendingGroupCloseRef.current) return;
+    const result = undoHistory(historyRef.current, lastSnapshotRef.current);
+    if (!result) return;
+    historyRef.current = result.history;
+    restoreSnapshot(result.snapshot);
+  }, [restoreSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    if (historyGroupRef.current.depth > 0 || pendingGroupCloseRef.current) return;
+    const result = redoHistory(historyRef.current, lastSnapshotRef.current);
+    if (!result) return;
+    historyRef.current = result.history;
+    restoreSnapshot(result.snapshot);
+  }, [restoreSnapshot]);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setDocumentKey('');
+    getDocumentKey(pdfDoc).then(key => {
+      if (isCurrent) setDocumentKey(key);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [pdfDoc]);
+
   useEffect(() => {
     try {
       localStorage.setItem('pid-tagger-patterns', JSON.stringify(patterns));
@@ -368,10 +538,34 @@ const App: React.FC = () => {
     return () => window.removeEventListener('keydown', handleGlobalKeyDown);
   }, []); // Run only once
 
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); Ctrl+Y also redoes
+  useEffect(() => {
+    const handleHistoryKeyDown = (e: KeyboardEvent) => {
+        const target = e.target as HTMLElement;
+        // Leave text fields their native undo
+        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') {
+            return;
+        }
+        if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            handleUndo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+            e.preventDefault();
+            handleRedo();
+        }
+    };
 
+    window.addEventListener('keydown', handleHistoryKeyDown);
+    return () => window.removeEventListener('keydown', handleHistoryKeyDown);
+  }, [handleUndo, handleRedo]);
 
-  const showConfirmation = (message: string, onConfirm: () => void): void => {
-    setConfirmation({ isOpen: true, message, onConfirm });
+
+
+  const showConfirmation = (message: string, onConfirm: () => void, onCancel?: () => void): void => {
+    setConfirmation({ isOpen: true, message, onConfirm, onCancel });
   };
   const handleCloseConfirmation = () => {
     setConfirmation({ isOpen: false, message: '', onConfirm: () => {} });
@@ -381,32 +575,53 @@ const App: React.FC = () => {
     confirmation.onConfirm();
     handleCloseConfirmation();
   };
+  const handleCancelConfirmation = () => {
+    confirmation.onCancel?.();
+    handleCloseConfirmation();
+  };
 
-  const processPdf = useCallback(async (doc: any, patternsToUse: PatternConfig, tolerancesToUse: ToleranceConfig, appSettingsToUse?: AppSettings): Promise<void> => {
+  // `documentId` is the workspace document being scanned; its items are stamped with it as they are created
+  const processPdf = useCallback(async (doc: any, documentId: string | null, patternsToUse: PatternConfig, tolerancesToUse: ToleranceConfig, appSettingsToUse?: AppSettings): Promise<void> => {
+    // A (re)scan replaces the document data wholesale; it starts a fresh history
+    beginHistoryGroup();
+    let isHistoryGroupHandedOff = false;
     setIsLoading(true);
     setTags([]);
     setRawTextItems([]);
     setRelationships([]);
     setLoops([]);
+    setDetectedLines([]);
     // Note: Keep descriptions as they are user-created content that persists
     setProgress({ current: 0, total: doc.numPages });
     setCurrentPage(1); // Reset to first page on new process
 
+    processingAbortRef.current?.abort();
+    const abortController = new AbortController();
+    processingAbortRef.current = abortController;
+
     try {
-      let allTags = [];
-      let allRawTextItems = [];
-      for (let i = 1; i <= doc.numPages; i++) {
-        const { tags: pageTags, rawTextItems: pageRawTextItems } = await extractTags(doc, i, patternsToUse, tolerancesToUse, appSettings);
-        allTags = [...allTags, ...pageTags];
-        allRawTextItems = [...allRawTextItems, ...pageRawTextItems];
-        setProgress(p => ({ ...p, current: i }));
-      }
+      const extraction = await extractDocument(doc, {
+        patterns: patternsToUse,
+        tolerances: tolerancesToUse,
+        appSettings,
+        signal: abortController.signal,
+        onPageComplete: (completedPages, totalPages) => setProgress({ current: completedPages, total: totalPages }),
+      });
+      const allTags = documentId ? assignDocumentId(extraction.tags, documentId) : extraction.tags;
+      const allRawTextItems = documentId ? assignDocumentId(extraction.rawTextItems, documentId) : extraction.rawTextItems;
+      const allDetectedLines = documentId ? assignDocumentId(extraction.detectedLines, documentId) : extraction.detectedLines;
       setTags(allTags);
       setRawTextItems(allRawTextItems);
-      setRelationships([]);
+      setDetectedLines(allDetectedLines);
+
+      // Associate instruments with line numbers by tracing pipe geometry
+      const lineRelationships = associateInstrumentsWithLines(allTags, allDetectedLines);
+      // Pair off-page connectors across sheets
+      const opcRelationships = pairOffPageConnectors(allTags);
+      setRelationships([...lineRelationships, ...opcRelationships]);
 
       // Auto-optimize note connections if enabled
-      let currentRelationships = [];
+      let currentRelationships = [...lineRelationships, ...opcRelationships];
       if (autoOptimizeNoteConnectionsEnabled) {
         const instrumentTags = allTags.filter(t => t.category === Category.Instrument);
         const noteTags = allTags.filter(t => t.category === Category.NotesAndHolds);
@@ -488,15 +703,112 @@ const App: React.FC = () => {
 
       // Auto-generate loops if enabled
       if (appSettingsToUse?.autoGenerateLoops || appSettings.autoGenerateLoops) {
+        isHistoryGroupHandedOff = true;
         setTimeout(() => {
           autoGenerateLoops(allTags);
+          endHistoryGroup('reset');
         }, 100); // Small delay to ensure tags are set
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        alert('PDF 처리가 취소되었습니다.');
+      }
     } finally {
+      if (processingAbortRef.current === abortController) {
+        processingAbortRef.current = null;
+      }
       setIsLoading(false);
+      if (!isHistoryGroupHandedOff) endHistoryGroup('reset');
     }
-  }, [appSettings, autoOptimizeNoteConnectionsEnabled]);
+  }, [appSettings, autoOptimizeNoteConnectionsEnabled, beginHistoryGroup, endHistoryGroup]);
+
+  // Re-run extraction without clearing the document; the result waits in pendingRescan for review
+  const incrementalRescan = useCallback(async (doc: PDFDocumentProxy, patternsToUse: PatternConfig, tolerancesToUse: ToleranceConfig, appSettingsToUse: AppSettings): Promise<void> => {
+    setIsLoading(true);
+    setProgress({ current: 0, total: doc.numPages });
+
+    processingAbortRef.current?.abort();
+    const abortController = new AbortController();
+    processingAbortRef.current = abortController;
+
+    try {
+      const extraction = await extractDocument(doc, {
+        patterns: patternsToUse,
+        tolerances: tolerancesToUse,
+        appSettings: appSettingsToUse,
+        signal: abortController.signal,
+        onPageComplete: (completedPages, totalPages) => setProgress({ current: completedPages, total: totalPages }),
+      });
+      const reconciled = reconcileRescan({ tags, rawTextItems, relationships, loops, descriptions }, extraction);
+      // Fresh items must share the page keys of the kept ones
+      const result = activeDocumentId
+        ? { ...reconciled, tags: assignDocumentId(reconciled.tags, activeDocumentId), rawTextItems: assignDocumentId(reconciled.rawTextItems, activeDocumentId) }
+        : reconciled;
+      // Line association and off-page pairs for the tags the rescan brought in
+      const autoRelationships = [
+        ...associateInstrumentsWithLines(result.tags, extraction.detectedLines),
+        ...pairOffPageConnectors(result.tags),
+      ];
+      setPendingRescan({
+        result: { ...result, relationships: mergeAutoRelationships(result.relationships, autoRelationships) },
+        detectedLines: activeDocumentId ? assignDocumentId(extraction.detectedLines, activeDocumentId) : extraction.detectedLines,
+        patterns: patternsToUse,
+        tolerances: tolerancesToUse,
+        appSettings: appSettingsToUse,
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        alert('PDF 처리가 취소되었습니다.');
+      }
+    } finally {
+      if (processingAbortRef.current === abortController) {
+        processingAbortRef.current = null;
+      }
+      setIsLoading(false);
+    }
+  }, [tags, rawTextItems, relationships, loops, descriptions, activeDocumentId]);
+
+  const handleApplyRescan = () => {
+    if (!pendingRescan) return;
+    const { result, detectedLines: rescannedLines } = pendingRescan;
+    // Unlike a full rescan this keeps the undo history; the whole merge is one step
+    beginHistoryGroup();
+    setTags(result.tags);
+    setRawTextItems(result.rawTextItems);
+    setRelationships(result.relationships);
+    setLoops(result.loops);
+    // Instruments the rescan brought in get loops like after a full scan
+    const loopedTagIds = new Set(result.loops.flatMap(loop => loop.tagIds));
+    autoGenerateLoops(result.tags.filter(tag => !loopedTagIds.has(tag.id)));
+    setDetectedLines(rescannedLines);
+    endHistoryGroup();
+    setPendingRescan(null);
+  };
+
+  const handleFullRescanInstead = () => {
+    if (!pendingRescan || !pdfDoc) return;
+    const { patterns: rescanPatterns, tolerances: rescanTolerances, appSettings: rescanAppSettings } = pendingRescan;
+    setPendingRescan(null);
+    showConfirmation(
+      `⚠️ A full rescan will delete all manually created content:
+
+• Manually created tags
+• Tag relationships (Connection, Installation, Note, etc.)
+• Manually created loops
+• Tag review status (✓ checkmarks)
+
+✅ Note & Hold descriptions will be preserved.
+
+💡 If you have important work, please Export your project as backup first.
+
+Do you want to continue?`,
+      () => processPdf(pdfDoc, activeDocumentId, rescanPatterns, rescanTolerances, rescanAppSettings)
+    );
+  };
+
+  const handleCancelProcessing = useCallback(() => {
+    processingAbortRef.current?.abort();
+  }, []);
 
   const handleOptimizeTolerances = useCallback(async (doc: any): Promise<ToleranceConfig> => {
     setIsOptimizing(true);
@@ -538,9 +850,13 @@ const App: React.FC = () => {
     }
   }, [patterns, tolerances, appSettings, setTolerances]);
 
-  const handleFileSelect = useCallback(async (file: File): Promise<void> => {
+  // Open a PDF as the active document and scan it
+  const openPdfFile = useCallback(async (file: File, documentId: string): Promise<void> => {
+    beginHistoryGroup();
     setPdfFile(file);
     setIsLoading(true);
+    setAutosaveKey(null);
+    setPendingRestore(null);
     setTags([]);
     setRawTextItems([]);
     setRelationships([]);
@@ -549,8 +865,20 @@ const App: React.FC = () => {
 
     try {
       const arrayBuffer = await file.arrayBuffer();
+
+      // Look up the last autosaved session before pdf.js takes ownership of the buffer
+      let sessionKey: string | null = null;
+      let savedSession: AutosaveSession | null = null;
+      try {
+        sessionKey = await computeAutosaveKey(file.name, arrayBuffer);
+        savedSession = await loadAutosave(sessionKey);
+      } catch {
+        // 자동 저장을 사용할 수 없는 환경 - PDF 처리는 계속 진행
+      }
+
       const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
       const doc = await loadingTask.promise;
+      pdfDocCacheRef.current.set(documentId, doc);
       setPdfDoc(doc);
 
       // Auto-optimize if enabled
@@ -559,13 +887,146 @@ const App: React.FC = () => {
         tolerancesToUse = await handleOptimizeTolerances(doc);
       }
 
-      await processPdf(doc, patterns, tolerancesToUse, appSettings);
+      await processPdf(doc, documentId, patterns, tolerancesToUse, appSettings);
+
+      // Autosave starts only now, so the fresh scan never overwrites the session offered for restore
+      setPendingRestore(savedSession);
+      setAutosaveKey(sessionKey);
+      setDocuments(prev => prev.map(d => (d.id === documentId ? { ...d, autosaveKey: sessionKey } : d)));
     } catch (error) {
       setIsLoading(false);
+    } finally {
+      endHistoryGroup('reset');
+    }
+  }, [patterns, tolerances, appSettings, processPdf, autoOptimizeEnabled, handleOptimizeTolerances, beginHistoryGroup, endHistoryGroup]);
+
+  const clearPdfDocCache = useCallback(() => {
+    pdfDocCacheRef.current.forEach(doc => doc.destroy?.());
+    pdfDocCacheRef.current.clear();
+  }, []);
+
+  // Start a new workspace with a single PDF
+  const handleFileSelect = useCallback(async (file: File): Promise<void> => {
+    const entry = createDocumentEntry(file.name, file);
+    clearPdfDocCache();
+    setDocuments([entry]);
+    setActiveDocumentId(entry.id);
+    setStoredDocuments({});
+    setDescriptions([]);
+    setLoops([]);
+    setComments([]);
+    setRevisionComparison(null);
+    await openPdfFile(file, entry.id);
+  }, [openPdfFile, clearPdfDocCache]);
+
+  const getActiveDocumentData = useCallback((): DocumentData => ({
+    tags, rawTextItems, relationships, descriptions, loops, detectedLines, currentPage,
+  }), [tags, rawTextItems, relationships, descriptions, loops, detectedLines, currentPage]);
+
+  // Show another document of the workspace. `file` attaches the PDF to a document restored from a project file.
+  const handleSwitchDocument = useCallback(async (documentId: string, file?: File): Promise<void> => {
+    if (documentId === activeDocumentId || isLoading) return;
+    const target = documents.find(d => d.id === documentId);
+    if (!target) return;
+    const targetFile = file || target.file;
+    if (!targetFile) {
+      alert(`"${target.fileName}" PDF 파일을 먼저 선택해주세요.`);
+      return;
+    }
+
+    beginHistoryGroup();
+    try {
+      let doc = pdfDocCacheRef.current.get(documentId);
+      let sessionKey = target.autosaveKey || null;
+      if (!doc) {
+        setIsLoading(true);
+        const arrayBuffer = await targetFile.arrayBuffer();
+        try {
+          sessionKey = await computeAutosaveKey(targetFile.name, arrayBuffer);
+        } catch {
+          // 자동 저장을 사용할 수 없는 환경
+        }
+        doc = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+        pdfDocCacheRef.current.set(documentId, doc);
+      }
+
+      const targetData = storedDocuments[documentId] || createEmptyDocumentData();
+      const outgoingData = activeDocumentId ? stampDocumentData(getActiveDocumentData(), activeDocumentId) : null;
+      setStoredDocuments(prev => {
+        const next = { ...prev };
+        delete next[documentId];
+        if (outgoingData) next[activeDocumentId] = outgoingData;
+        return next;
+      });
+      setDocuments(prev => prev.map(d => (d.id === documentId ? { ...d, file: targetFile, autosaveKey: sessionKey } : d)));
+      setActiveDocumentId(documentId);
+      setPdfFile(targetFile);
+      setPdfDoc(doc);
+      setTags(targetData.tags);
+      setRawTextItems(targetData.rawTextItems);
+      setRelationships(targetData.relationships);
+      setDescriptions(targetData.descriptions);
+      setLoops(targetData.loops);
+      setDetectedLines(targetData.detectedLines);
+      setCurrentPage(targetData.currentPage);
+      setAutosaveKey(sessionKey);
+    } catch {
+      alert(`"${target.fileName}" PDF 파일을 열 수 없습니다.`);
+    } finally {
+      setIsLoading(false);
+      // Undo history is per document
+      endHistoryGroup('reset');
+    }
+  }, [activeDocumentId, isLoading, documents, storedDocuments, getActiveDocumentData, beginHistoryGroup, endHistoryGroup]);
+
+  // Add a PDF to the workspace; a PDF that is already part of it is switched to instead
+  const handleAddDocument = useCallback(async (file: File): Promise<void> => {
+    if (isLoading) return;
+    const existing = documents.find(d => d.fileName === file.name);
+    if (existing) {
+      await handleSwitchDocument(existing.id, existing.file ? undefined : file);
+      return;
     }
-  }, [patterns, tolerances, appSettings, processPdf, autoOptimizeEnabled, handleOptimizeTolerances]);
 
-  const handleSaveSettingsOnly = (newPatterns: PatternConfig, newTolerances: ToleranceConfig, newAppSettings: AppSettings, newColorSettings: ColorSettings): void => {
+    const entry = createDocumentEntry(file.name, file);
+    if (activeDocumentId) {
+      const outgoingData = stampDocumentData(getActiveDocumentData(), activeDocumentId);
+      setStoredDocuments(prev => ({ ...prev, [activeDocumentId]: outgoingData }));
+    }
+    setDocuments(prev => [...prev, entry]);
+    setActiveDocumentId(entry.id);
+    setDescriptions([]);
+    setLoops([]);
+    await openPdfFile(file, entry.id);
+  }, [isLoading, documents, activeDocumentId, getActiveDocumentData, handleSwitchDocument, openPdfFile]);
+
+  const handleGoToDocumentTag = useCallback(async (documentId: string, tagId: string): Promise<void> => {
+    if (documentId !== activeDocumentId) {
+      await handleSwitchDocument(documentId);
+    }
+    setFocusTagId(tagId);
+  }, [activeDocumentId, handleSwitchDocument]);
+
+  // Tags of the documents not currently shown, for cross-document search
+  const otherDocumentTags = useMemo(
+    () => documents
+      .filter(d => d.id !== activeDocumentId)
+      .flatMap(d => storedDocuments[d.id]?.tags || []),
+    [documents, activeDocumentId, storedDocuments]
+  );
+
+  const getWorkspaceData = useCallback(
+    () => collectWorkspaceData(documents, activeDocumentId, getActiveDocumentData(), storedDocuments),
+    [documents, activeDocumentId, getActiveDocumentData, storedDocuments]
+  );
+
+  // Collected once per data change rather than on every render, while the index modal is open
+  const instrumentIndexWorkspaceData = useMemo(
+    () => (isInstrumentIndexOpen ? getWorkspaceData() : createEmptyDocumentData()),
+    [isInstrumentIndexOpen, getWorkspaceData]
+  );
+
+  const handleSaveSettingsOnly = (newPatterns: PatternConfig, newTolerances: ToleranceConfig, newAppSettings: AppSettings, newColorSettings: ColorSettings, profileName: string | null): void => {
     // Ensure patterns have the correct keys
     const validPatterns = {
       ...newPatterns,
@@ -583,6 +1044,7 @@ const App: React.FC = () => {
     };
     setAppSettings(forcedSettings);
     setColorSettings(newColorSettings);
+    setActiveProfileName(profileName);
     setIsSettingsOpen(false);
 
     // Store to localStorage
@@ -590,9 +1052,10 @@ const App: React.FC = () => {
     localStorage.setItem('pid-tagger-tolerances', JSON.stringify(newTolerances));
     localStorage.setItem('pid-tagger-app-settings', JSON.stringify(forcedSettings));
     localStorage.setItem('pid-tagger-color-settings', JSON.stringify(newColorSettings));
+    saveActiveProfileName(profileName);
   };
 
-  const handleSaveSettingsAndRescan = async (newPatterns: PatternConfig, newTolerances: ToleranceConfig, newAppSettings: AppSettings, newColorSettings: ColorSettings, activeTab: string): Promise<void> => {
+  const handleSaveSettingsAndRescan = async (newPatterns: PatternConfig, newTolerances: ToleranceConfig, newAppSettings: AppSettings, newColorSettings: ColorSettings, activeTab: string, profileName: string | null): Promise<void> => {
     // Ensure patterns have the correct keys
     const validPatterns = {
       ...newPatterns,
@@ -610,6 +1073,7 @@ const App: React.FC = () => {
     };
     setAppSettings(forcedSettings);
     setColorSettings(newColorSettings);
+    setActiveProfileName(profileName);
     setIsSettingsOpen(false);
 
     // Store to localStorage
@@ -617,50 +1081,48 @@ const App: React.FC = () => {
     localStorage.setItem('pid-tagger-tolerances', JSON.stringify(newTolerances));
     localStorage.setItem('pid-tagger-app-settings', JSON.stringify(forcedSettings));
     localStorage.setItem('pid-tagger-color-settings', JSON.stringify(newColorSettings));
+    saveActiveProfileName(profileName);
     
     // Only rescan if patterns/tolerances/settings changed (not for color changes)
     if (activeTab === 'patterns' && pdfDoc) {
-      // Check if user has manual data that will be lost
-      const hasManualData = relationships.length > 0 || 
+      // Manual work would be lost by a full rescan; reconcile with it and preview the changes instead
+      const hasManualData = relationships.length > 0 ||
                            loops.length > 0 ||
-                           tags.some(tag => tag.isReviewed) ||
-                           loops.length > 0;
+                           tags.some(isPreservedTag);
 
       if (hasManualData) {
-        showConfirmation(
-          `패턴 설정이 변경되어 PDF를 다시 스캔해야 합니다.
-
-⚠️ Rescanning will delete all manually created content:
-
-• Tag relationships (Connection, Installation, Note, etc.)
-• Manually created loops
-• Tag review status (✓ checkmarks)
-
-✅ Note & Hold descriptions will be preserved.
-
-💡 If you have important work, please Export your project as backup first.
-
-Do you want to continue?`,
-          () => processPdf(pdfDoc, validPatterns, newTolerances, newAppSettings)
-        );
+        await incrementalRescan(pdfDoc, validPatterns, newTolerances, forcedSettings);
       } else {
-        await processPdf(pdfDoc, validPatterns, newTolerances, newAppSettings);
+        await processPdf(pdfDoc, activeDocumentId, validPatterns, newTolerances, newAppSettings);
       }
     }
   };
 
   const handleReset = () => {
+    beginHistoryGroup();
     setPdfFile(null);
     setPdfDoc(null);
     setTags([]);
     setRawTextItems([]);
     setRelationships([]);
     setDescriptions([]);
+    setDetectedLines([]);
+    setLoops([]);
+    setComments([]);
+    setDocuments([]);
+    setActiveDocumentId(null);
+    setStoredDocuments({});
+    clearPdfDocCache();
+    setRevisionComparison(null);
+    setPendingRescan(null);
     setIsLoading(false);
+    setAutosaveKey(null);
+    setPendingRestore(null);
     setProgress({ current: 0, total: 0 });
     setCurrentPage(1);
     setScale(1.5);
     setMode('select');
+    endHistoryGroup('reset');
   };
 
   // Helper functions for visibility settings
@@ -701,8 +1163,10 @@ Do you want to continue?`,
       tags: {
         line: newState,
         instrument: newState,
+        equipment: newState,
         drawingNumber: newState,
         notesAndHolds: newState,
+        offPageConnector: newState,
       },
       descriptions: newState
     }));
@@ -718,11 +1182,13 @@ Do you want to continue?`,
         installation: newState,
         annotation: newState,
         note: newState,
+        offPageConnection: newState,
       },
     }));
   }, [visibilitySettings.relationships]);
   
-  const handleCreateTag = useCallback((itemsToConvert: RawTextItem[], category: CategoryType): void => {
+  // `text` overrides the text combined from the items (a corrected reading); the items keep theirs
+  const handleCreateTag = useCallback((itemsToConvert: RawTextItem[], category: CategoryType, text?: string): void => {
     if (!itemsToConvert || itemsToConvert.length === 0) return;
 
     // All items must be on the same page
@@ -747,15 +1213,16 @@ Do you want to continue?`,
       switch (category) {
         case Category.Line: return appSettings.hyphenSettings.line;
         case Category.Instrument: return appSettings.hyphenSettings.instrument;
+        case Category.Equipment: return appSettings.hyphenSettings.equipment;
         case Category.DrawingNumber: return appSettings.hyphenSettings.drawingNumber;
         case Category.NotesAndHolds: return appSettings.hyphenSettings.notesAndHolds;
         default: return false;
       }
     })();
     
-    const rawCombinedText = shouldUseHyphen
+    const rawCombinedText = text ?? (shouldUseHyphen
       ? sortedItems.map(item => item.text).join('-')
-      : sortedItems.map(item => item.text).join('');
+      : sortedItems.map(item => item.text).join(''));
     
     // Apply whitespace removal based on settings (except for NotesAndHolds)
     const combinedText = (appSettings.autoRemoveWhitespace && category !== Category.NotesAndHolds) 
@@ -771,13 +1238,15 @@ Do you want to continue?`,
       };
     }, { x1: Infinity, y1: Infinity, x2: -Infinity, y2: -Infinity });
 
-    const newTag = {
+    const newTag: Tag = {
       id: uuidv4(),
       text: combinedText,
       page,
       bbox: combinedBbox,
       category,
       sourceItems: itemsToConvert, // Store original items
+      source: 'manual',
+      ...(activeDocumentId ? { documentId: activeDocumentId } : {}),
     };
 
     setTags(prev => [...prev, newTag]);
@@ -785,7 +1254,7 @@ Do you want to continue?`,
     setRawTextItems(prev => prev.filter(item => !idsToConvert.has(item.id)));
     // Clean up any annotation relationships involving the now-converted raw items
     setRelationships(prev => prev.filter(rel => !(rel.type === RelationshipType.Annotation && idsToConvert.has(rel.to))));
-  }, [appSettings.autoRemoveWhitespace, appSettings.hyphenSettings]);
+  }, [appSettings.autoRemoveWhitespace, appSettings.hyphenSettings, activeDocumentId]);
 
   const handleCreateManualTag = useCallback((tagData: ManualTagData): void => {
     const { text, bbox, page, category } = tagData;
@@ -798,17 +1267,19 @@ Do you want to continue?`,
       ? text.replace(/\s+/g, '') 
       : text;
 
-    const newTag = {
+    const newTag: Tag = {
       id: uuidv4(),
       text: cleanedText,
       page,
       bbox,
       category,
       sourceItems: [], // No source items for manually drawn tags
+      source: 'manual',
+      ...(activeDocumentId ? { documentId: activeDocumentId } : {}),
     };
 
     setTags(prev => [...prev, newTag]);
-  }, [appSettings.autoRemoveWhitespace]);
+  }, [appSettings.autoRemoveWhitespace, activeDocumentId]);
 
   const handleDeleteTags = useCallback((tagIdsToDelete: string[]): void => {
     const idsToDelete = new Set(tagIdsToDelete);
@@ -817,25 +1288,37 @@ Do you want to continue?`,
     const tagsToRevert = tags.filter(tag => idsToDelete.has(tag.id));
     
     const itemsToRestore = [];
+    // Restored items get the ids extraction gives them, so a later rescan keeps them
+    const allocators = new Map<number, ReturnType<typeof createStableIdAllocator>>();
+    const takenIds = new Set(rawTextItems.map(item => item.id));
+    const nextRawId = (page: number, text: string, bbox: BoundingBox) => {
+      if (!allocators.has(page)) allocators.set(page, createStableIdAllocator(documentKey, page));
+      let id = allocators.get(page)('raw', text, bbox);
+      // Same text at the same spot is already loose: take the next repeat number, as extraction would
+      while (takenIds.has(id)) id = allocators.get(page)('raw', text, bbox);
+      return id;
+    };
     
     for (const tag of tagsToRevert) {
       if (tag.sourceItems && tag.sourceItems.length > 0) {
         // It was a manually created tag, restore the original source items
         // Convert source items to proper RawTextItem format
         const convertedItems = tag.sourceItems.map(item => ({
-          id: uuidv4(),
+          id: nextRawId(tag.page, item.text, item.bbox),
           text: item.text,
           page: tag.page,
           bbox: item.bbox,
+          ...(tag.documentId ? { documentId: tag.documentId } : {}),
         }));
         itemsToRestore.push(...convertedItems);
       } else {
         // It was an originally detected tag. Revert to a single raw item.
         const restoredItem = {
-          id: uuidv4(), // Generate new unique ID for the raw item
+          id: nextRawId(tag.page, tag.text, tag.bbox),
           text: tag.text,
           page: tag.page,
           bbox: tag.bbox,
+          ...(tag.documentId ? { documentId: tag.documentId } : {}),
         };
         itemsToRestore.push(restoredItem);
       }
@@ -847,7 +1330,7 @@ Do you want to continue?`,
     setRawTextItems(prev => [...prev, ...itemsToRestore]);
     // Clean up any relationships involving the deleted tags
     setRelationships(prev => prev.filter(rel => !idsToDelete.has(rel.from) && !idsToDelete.has(rel.to)));
-  }, [tags]);
+  }, [tags, rawTextItems, documentKey]);
   
   const handleMergeRawTextItems = useCallback((itemIdsToMerge: string[]): void => {
     if (!itemIdsToMerge || itemIdsToMerge.length < 2) return;
@@ -892,6 +1375,7 @@ Do you want to continue?`,
       text: combinedText,
       page,
       bbox: combinedBbox,
+      ...(activeDocumentId ? { documentId: activeDocumentId } : {}),
     };
 
     // Remove original items and add merged item
@@ -903,7 +1387,7 @@ Do you want to continue?`,
 
     // Clean up any relationships pointing to the removed items
     setRelationships(prev => prev.filter(rel => !idsToRemove.has(rel.to)));
-  }, [rawTextItems]);
+  }, [rawTextItems, activeDocumentId]);
 
   const handleDeleteRawTextItems = useCallback((itemIdsToDelete: string[]): void => {
     const idsToDelete = new Set(itemIdsToDelete);
@@ -960,6 +1444,7 @@ Do you want to continue?`,
         scope: 'Specific',
         number: nextNumber,
       },
+      ...(activeDocumentId ? { documentId: activeDocumentId } : {}),
     };
 
     setDescriptions(prev => [...prev, newDescription]);
@@ -1028,7 +1513,7 @@ Do you want to continue?`,
     if (rawItemIdsToRemove.length > 0) {
       setRawTextItems(prev => prev.filter(item => !rawItemIdsToRemove.includes(item.id)));
     }
-  }, [descriptions, tags, relationships]);
+  }, [descriptions, tags, relationships, activeDocumentId]);
 
   const handleCreateHoldDescription = useCallback((selectedItems: (Tag | RawTextItem)[]): void => {
     handleCreateDescription(selectedItems, 'Hold');
@@ -1124,6 +1609,21 @@ Do you want to continue?`,
     if (data.descriptions && !Array.isArray(data.descriptions)) {
       return false;
     }
+
+    // Optional loops field validation
+    if (data.loops && !Array.isArray(data.loops)) {
+      return false;
+    }
+
+    // Optional documents (multi-PDF project) validation
+    if (data.documents) {
+      if (!Array.isArray(data.documents) || data.documents.length === 0) return false;
+      for (const document of data.documents) {
+        if (!document || typeof document.id !== 'string' || typeof document.pdfFileName !== 'string') {
+          return false;
+        }
+      }
+    }
     
     // Validate tag structure
     for (const tag of data.tags) {
@@ -1152,6 +1652,24 @@ Do you want to continue?`,
         return false;
       }
     }
+
+    // Validate loop structure
+    for (const loop of data.loops || []) {
+      if (!loop || typeof loop.id !== 'string' || !loop.id || !Array.isArray(loop.tagIds)) {
+        return false;
+      }
+    }
+
+    // Optional comments field validation
+    if (data.comments && !Array.isArray(data.comments)) {
+      return false;
+    }
+    for (const comment of data.comments || []) {
+      if (!comment || typeof comment.id !== 'string' || typeof comment.text !== 'string' || !comment.page ||
+          typeof comment.x !== 'number' || typeof comment.y !== 'number') {
+        return false;
+      }
+    }
     
     return true;
   };
@@ -1163,13 +1681,24 @@ Do you want to continue?`,
                 .replace(/javascript:/gi, '')
                 .replace(/on\w+="[^"]*"/gi, '');
     };
+    const tagIds = new Set(data.tags.map(tag => tag.id));
+    const sanitizeReview = (review: TagReview | undefined): TagReview | undefined => {
+      if (!review || !(review.status in REVIEW_STATUS_LABELS)) return undefined;
+      return {
+        status: review.status,
+        ...(typeof review.reviewer === 'string' ? { reviewer: sanitizeString(review.reviewer) } : {}),
+        ...(typeof review.reviewedAt === 'string' ? { reviewedAt: review.reviewedAt } : {}),
+        ...(typeof review.comment === 'string' ? { comment: sanitizeString(review.comment) } : {}),
+      };
+    };
     
     return {
       ...data,
       pdfFileName: sanitizeString(data.pdfFileName),
       tags: data.tags.map(tag => ({
         ...tag,
-        text: sanitizeString(tag.text)
+        text: sanitizeString(tag.text),
+        review: sanitizeReview(tag.review),
       })),
       rawTextItems: data.rawTextItems.map(item => ({
         ...item,
@@ -1178,23 +1707,101 @@ Do you want to continue?`,
       descriptions: (data.descriptions || []).map(desc => ({
         ...desc,
         text: sanitizeString(desc.text)
-      }))
+      })),
+      loops: (data.loops || [])
+        .map(loop => ({
+          id: sanitizeString(loop.id),
+          ...(typeof loop.name === 'string' ? { name: sanitizeString(loop.name) } : {}),
+          // Drop references to tags that are not part of this project
+          tagIds: loop.tagIds.filter(id => typeof id === 'string' && tagIds.has(id)),
+          createdAt: typeof loop.createdAt === 'string' ? loop.createdAt : new Date().toISOString(),
+          isAutoGenerated: loop.isAutoGenerated === true,
+          ...(typeof loop.notes === 'string' ? { notes: sanitizeString(loop.notes) } : {}),
+        }))
+        .filter(loop => loop.tagIds.length > 0),
+      comments: (data.comments || []).map(comment => ({
+        id: sanitizeString(comment.id),
+        page: comment.page,
+        x: comment.x,
+        y: comment.y,
+        // A comment on a tag that is not part of this project stays at its own position
+        ...(typeof comment.tagId === 'string' && tagIds.has(comment.tagId) ? { tagId: comment.tagId } : {}),
+        text: sanitizeString(comment.text),
+        ...(typeof comment.author === 'string' ? { author: sanitizeString(comment.author) } : {}),
+        createdAt: typeof comment.createdAt === 'string' ? comment.createdAt : new Date().toISOString(),
+        resolved: comment.resolved === true,
+        ...(comment.resolved === true && typeof comment.resolvedBy === 'string' ? { resolvedBy: sanitizeString(comment.resolvedBy) } : {}),
+        ...(comment.resolved === true && typeof comment.resolvedAt === 'string' ? { resolvedAt: comment.resolvedAt } : {}),
+        ...(typeof comment.documentId === 'string' ? { documentId: comment.documentId } : {}),
+      })),
+      documents: data.documents?.map(document => ({
+        id: sanitizeString(document.id),
+        pdfFileName: sanitizeString(document.pdfFileName),
+      })),
+      settings: data.settings && {
+        ...data.settings,
+        profileName: typeof data.settings.profileName === 'string' ? sanitizeString(data.settings.profileName) : undefined,
+      },
     };
   };
 
-  const loadProjectData = useCallback((projectData: any): void => {
+  const loadProjectData = useCallback((rawProjectData: any): void => {
+    const migration = migrateProjectData(rawProjectData);
+    const projectData = migration.data;
+
     if (!validateProjectData(projectData)) {
       alert("프로젝트 파일 구조가 잘못되었거나 손상된 데이터입니다. 불러올 수 없습니다.");
       return;
     }
     
     const sanitizedData = sanitizeProjectData(projectData);
-    
-    setTags(sanitizedData.tags);
-    setRelationships(sanitizedData.relationships);
-    setRawTextItems(sanitizedData.rawTextItems);
-    setDescriptions(sanitizedData.descriptions || []);
-    setLoops([]);
+
+    // The open PDF becomes the project document with the same file name (else the project's active one)
+    const projectDocuments = sanitizedData.documents;
+    const matchedDocument = projectDocuments.find(d => d.pdfFileName === pdfFile?.name)
+      || projectDocuments.find(d => d.id === sanitizedData.activeDocumentId)
+      || projectDocuments[0];
+    const partitions = partitionProjectData(sanitizedData, projectDocuments.map(d => d.id), matchedDocument.id);
+
+    // Keep PDFs that are already open in this session attached to their project documents
+    const previousCache = new Map(pdfDocCacheRef.current);
+    pdfDocCacheRef.current.clear();
+    const nextDocuments = projectDocuments.map(info => {
+      const openEntry = info.id === matchedDocument.id
+        ? documents.find(d => d.id === activeDocumentId)
+        : documents.find(d => d.file && d.fileName === info.pdfFileName);
+      if (openEntry && previousCache.has(openEntry.id)) {
+        pdfDocCacheRef.current.set(info.id, previousCache.get(openEntry.id));
+        previousCache.delete(openEntry.id);
+      }
+      if (info.id === matchedDocument.id) {
+        return { ...createDocumentEntry(pdfFile?.name || info.pdfFileName, pdfFile, info.id), autosaveKey };
+      }
+      return openEntry
+        ? { ...createDocumentEntry(info.pdfFileName, openEntry.file, info.id), autosaveKey: openEntry.autosaveKey }
+        : createDocumentEntry(info.pdfFileName, null, info.id);
+    });
+    previousCache.forEach(doc => doc.destroy?.());
+
+    const activeData = partitions[matchedDocument.id];
+    const otherDocuments = { ...partitions };
+    delete otherDocuments[matchedDocument.id];
+
+    // Document ids change with the project, so earlier undo steps no longer apply
+    beginHistoryGroup();
+    setDocuments(nextDocuments);
+    setActiveDocumentId(matchedDocument.id);
+    setStoredDocuments(otherDocuments);
+    setTags(activeData.tags);
+    setRelationships(activeData.relationships);
+    setRawTextItems(activeData.rawTextItems);
+    setDescriptions(activeData.descriptions);
+    setLoops(activeData.loops);
+    // Like the other items, comments without a known document belong to the matched one
+    const documentIds = new Set(projectDocuments.map(d => d.id));
+    setComments(sanitizedData.comments.map(comment => (
+      documentIds.has(comment.documentId) ? comment : { ...comment, documentId: matchedDocument.id }
+    )));
     
     if (sanitizedData.settings?.patterns) {
         setPatterns(sanitizedData.settings.patterns);
@@ -1205,8 +1812,23 @@ Do you want to continue?`,
     if (sanitizedData.settings?.appSettings) {
         setAppSettings(sanitizedData.settings.appSettings);
     }
+    // The project's settings replace the profile's, so the project's profile becomes the active one
+    if (sanitizedData.settings) {
+        setActiveProfileName(sanitizedData.settings.profileName || null);
+        saveActiveProfileName(sanitizedData.settings.profileName || null);
+    }
+    endHistoryGroup('reset');
+
+    if (migration.isNewerVersion) {
+        alert(`이 프로젝트 파일은 더 최신 버전(v${migration.fromVersion})의 형식으로 저장되었습니다. 현재 버전(v${CURRENT_PROJECT_SCHEMA_VERSION})에서 지원하지 않는 데이터는 무시될 수 있습니다.`);
+    } else if (migration.fromVersion < migration.toVersion) {
+        const details = migration.changes.length > 0
+            ? migration.changes.map(change => `- ${change}`).join('\n')
+            : '- 변경된 데이터 없음';
+        alert(`이전 형식(v${migration.fromVersion})의 프로젝트 파일을 v${migration.toVersion} 형식으로 변환했습니다.\n\n${details}\n\n다시 내보내면 새 형식으로 저장됩니다.`);
+    }
     
-  }, []);
+  }, [pdfFile, documents, activeDocumentId, autosaveKey, beginHistoryGroup, endHistoryGroup]);
 
   const handleImportProject = useCallback(async (file: File): Promise<void> => {
     if (!file || !pdfFile) {
@@ -1241,8 +1863,11 @@ Do you want to continue?`,
             }
             
             const projectData = JSON.parse(content);
+            const projectFileNames: string[] = Array.isArray(projectData.documents)
+                ? projectData.documents.map(d => d?.pdfFileName)
+                : [projectData.pdfFileName];
             
-            if (projectData.pdfFileName !== pdfFile.name) {
+            if (!projectFileNames.includes(pdfFile.name)) {
                 const sanitizedOldName = projectData.pdfFileName?.replace(/[<>]/g, '') || 'Unknown';
                 showConfirmation(
                     `이 프로젝트 파일은 다른 PDF("${sanitizedOldName}")용인 것 같습니다. 현재 "${pdfFile.name}"이(가) 열려 있습니다. 그래도 프로젝트 데이터를 불러오시겠습니까?`,
@@ -1273,36 +1898,161 @@ Do you want to continue?`,
     reader.readAsText(file);
   }, [pdfFile, loadProjectData, showConfirmation]);
 
-  const handleExportProject = useCallback(() => {
+  // Diff the open PDF against a project file exported from the previous revision
+  const handleCompareRevision = useCallback(async (file: File): Promise<void> => {
     if (!pdfFile) return;
+    if (!file.name.toLowerCase().endsWith('.json')) {
+        alert("유효한 JSON 프로젝트 파일을 선택해주세요.");
+        return;
+    }
 
-    const projectData = {
+    let previousData: ProjectData;
+    try {
+        const migration = migrateProjectData(JSON.parse(await file.text()));
+        if (migration.isNewerVersion || !validateProjectData(migration.data)) {
+            alert("이전 리비전 프로젝트 파일 구조가 잘못되었거나 지원하지 않는 버전입니다.");
+            return;
+        }
+        previousData = sanitizeProjectData(migration.data);
+    } catch {
+        alert("이전 리비전 프로젝트 파일을 읽을 수 없습니다. JSON 형식을 확인해주세요.");
+        return;
+    }
+
+    const result = compareRevisions(previousData, { tags, relationships, rawTextItems, descriptions }, file.name, activeDocumentId);
+    beginHistoryGroup();
+    setTags(result.tags);
+    setRelationships(result.relationships);
+    setDescriptions(result.descriptions);
+    endHistoryGroup();
+    setRevisionComparison(result.comparison);
+  }, [pdfFile, tags, relationships, rawTextItems, descriptions, activeDocumentId, beginHistoryGroup, endHistoryGroup]);
+
+  const handleGoToRevisionChange = useCallback((change: RevisionChange) => {
+    setIsRevisionCompareOpen(false);
+    if (revisionComparison?.documentId && revisionComparison.documentId !== activeDocumentId) {
+        alert('이 비교 결과는 다른 문서에 대한 것입니다. 해당 문서로 전환한 뒤 다시 시도해주세요.');
+        return;
+    }
+    if (change.tagId) {
+        handleGoToDocumentTag(activeDocumentId, change.tagId);
+    } else {
+        setCurrentPage(change.page);
+    }
+  }, [revisionComparison, activeDocumentId, handleGoToDocumentTag]);
+
+  const buildProjectData = useCallback((): ProjectData | null => {
+    if (!pdfFile || !activeDocumentId) return null;
+    const workspace = getWorkspaceData();
+
+    return {
+        schemaVersion: CURRENT_PROJECT_SCHEMA_VERSION,
         pdfFileName: pdfFile.name,
         exportDate: new Date().toISOString(),
-        tags,
-        relationships,
-        rawTextItems,
-        descriptions,
-        loops,
+        tags: workspace.tags,
+        relationships: workspace.relationships,
+        rawTextItems: workspace.rawTextItems,
+        descriptions: workspace.descriptions,
+        loops: workspace.loops,
+        comments,
+        documents: documents.map(d => ({ id: d.id, pdfFileName: d.fileName })),
+        activeDocumentId,
         settings: {
             patterns,
             tolerances,
             appSettings,
+            ...(activeProfileName ? { profileName: activeProfileName } : {}),
         },
     };
+  }, [pdfFile, activeDocumentId, documents, getWorkspaceData, comments, patterns, tolerances, appSettings, activeProfileName]);
+
+  // Drawings of the open PDF with the tagging drawn on top, for reviewers without this tool
+  const handleExportAnnotated = useCallback(async (options: AnnotatedExportOptions, onProgress: (done: number, total: number) => void) => {
+    if (!pdfDoc || !pdfFile) return;
+    const documentComments = comments.filter(comment => !comment.documentId || comment.documentId === activeDocumentId);
+    await exportAnnotatedDrawings(
+      pdfDoc,
+      pdfFile.name,
+      { tags, relationships, rawTextItems, descriptions, loops, comments: documentComments },
+      colorSettings,
+      visibilitySettings,
+      options,
+      onProgress
+    );
+  }, [pdfDoc, pdfFile, comments, activeDocumentId, tags, relationships, rawTextItems, descriptions, loops, colorSettings, visibilitySettings]);
+
+  const handleExportProject = useCallback(() => {
+    const projectData = buildProjectData();
+    if (!projectData) return;
 
     const jsonString = JSON.stringify(projectData, null, 2);
     const blob = new Blob([jsonString], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    const fileName = pdfFile.name.replace(/\.pdf$/i, '') + '-project.json';
+    const fileName = projectData.pdfFileName.replace(/\.pdf$/i, '') + '-project.json';
     a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-  }, [pdfFile, tags, relationships, rawTextItems, patterns, tolerances]);
+  }, [buildProjectData]);
+
+  // === Autosave to IndexedDB ===
+  const autosaveDirtyRef = useRef(false);
+
+  useEffect(() => {
+    autosaveDirtyRef.current = true;
+  }, [tags, relationships, rawTextItems, descriptions, loops, comments, storedDocuments, documents, patterns, tolerances, appSettings, autosaveKey]);
+
+  const flushAutosave = useCallback(async () => {
+    // Hold off while scanning or while the user hasn't answered the restore offer
+    if (!autosaveKey || !autosaveDirtyRef.current || isLoading || pendingRestore) return;
+    const projectData = buildProjectData();
+    if (!projectData) return;
+
+    autosaveDirtyRef.current = false;
+    try {
+      await saveAutosave(autosaveKey, projectData);
+    } catch {
+      // 자동 저장 실패 - 다음 주기에 다시 시도
+      autosaveDirtyRef.current = true;
+    }
+  }, [autosaveKey, isLoading, pendingRestore, buildProjectData]);
+
+  const flushAutosaveRef = useRef(flushAutosave);
+  useEffect(() => {
+    flushAutosaveRef.current = flushAutosave;
+  }, [flushAutosave]);
+
+  useEffect(() => {
+    const intervalId = window.setInterval(() => flushAutosaveRef.current(), AUTOSAVE_INTERVAL_MS);
+    // Also save when the tab is hidden or about to close
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushAutosaveRef.current();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  // Offer the last autosaved session once the freshly opened PDF has been scanned. The session stays
+  // pending until the user answers, which keeps autosave from overwriting it while the prompt is open.
+  useEffect(() => {
+    if (!pendingRestore || isLoading) return;
+    const session = pendingRestore;
+    const savedAt = new Date(session.savedAt).toLocaleString();
+    showConfirmation(
+      `이 PDF("${session.pdfFileName}")에 대해 ${savedAt}에 자동 저장된 작업 세션이 있습니다.\n\n마지막 세션을 복원하시겠습니까? 취소하면 새로 스캔한 결과로 작업하며, 이후 자동 저장이 이전 세션을 덮어씁니다.`,
+      () => {
+        setPendingRestore(null);
+        loadProjectData(session.data);
+      },
+      () => setPendingRestore(null)
+    );
+  }, [pendingRestore, isLoading, loadProjectData]);
   
   // Helper function to calculate minimum distance from point to bbox corners and center
   const calculateMinDistanceToCorners = (centerX: number, centerY: number, bbox: { x1: number; y1: number; x2: number; y2: number }) => {
@@ -1518,7 +2268,8 @@ Do you want to continue?`,
                     type: 'Note',
                     scope: 'Specific',
                     number: noteDesc.number
-                  }
+                  },
+                  ...(activeDocumentId ? { documentId: activeDocumentId } : {}),
                 };
                 newDescriptions.push(newDesc);
 
@@ -1672,9 +2423,17 @@ Do you want to continue?`,
 
     showConfirmation(
       '유형과 번호 매칭을 기반으로 노트 & 홀드 태그와 해당 설명 간의 연결을 자동으로 생성합니다. 계속하시겠습니까?',
-      performLinking
+      async () => {
+        // Relationships and descriptions are added across awaits; undo them as one step
+        beginHistoryGroup();
+        try {
+          await performLinking();
+        } finally {
+          endHistoryGroup();
+        }
+      }
     );
-  }, [tags, descriptions, relationships, showConfirmation, pdfDoc, rawTextItems]);
+  }, [tags, descriptions, relationships, showConfirmation, pdfDoc, rawTextItems, activeDocumentId, beginHistoryGroup, endHistoryGroup]);
 
 
 
@@ -1685,6 +2444,8 @@ Do you want to continue?`,
     showConfirmation(
       '모든 자동 연결 기능을 순차적으로 실행합니다: 설명 및 노트 & 홀드. 계속하시겠습니까?',
       async () => {
+        // All auto-link passes undo as a single step
+        beginHistoryGroup();
         try {
           // Run all auto-link functions sequentially
           await new Promise<void>((resolve) => {
@@ -1803,10 +2564,12 @@ Do you want to continue?`,
           alert('모든 자동 연결이 성공적으로 완료되었습니다!');
         } catch (error) {
           alert('자동 연결 중 오류: ' + error.message);
+        } finally {
+          endHistoryGroup();
         }
       }
     );
-  }, [tags, rawTextItems, descriptions, relationships, tolerances, showConfirmation]);
+  }, [tags, rawTextItems, descriptions, relationships, tolerances, showConfirmation, beginHistoryGroup, endHistoryGroup]);
 
   const handleAutoLinkEquipmentShortSpecs = useCallback(() => {
     // Placeholder for equipment short specs auto-linking
@@ -1816,12 +2579,12 @@ Do you want to continue?`,
     if (!pdfDoc) return;
     const optimizedTolerances = await handleOptimizeTolerances(pdfDoc);
     // Re-process with optimized tolerances
-    await processPdf(pdfDoc, patterns, optimizedTolerances, appSettings);
-  }, [pdfDoc, handleOptimizeTolerances, processPdf, patterns, appSettings]);
+    await processPdf(pdfDoc, activeDocumentId, patterns, optimizedTolerances, appSettings);
+  }, [pdfDoc, activeDocumentId, handleOptimizeTolerances, processPdf, patterns, appSettings]);
 
   const handleRemoveWhitespace = useCallback(() => {
     showConfirmation(
-      '라인 및 계기 태그에서 모든 공백을 제거하시겠습니까? 이 작업은 되돌릴 수 없습니다.',
+      '라인 및 계기 태그에서 모든 공백을 제거하시겠습니까? Ctrl+Z로 되돌릴 수 있습니다.',
       () => {
         const updatedTags = tags.map(tag => {
           // Only apply to Line and Instrument categories
@@ -1944,7 +2707,12 @@ Do you want to continue?`,
     });
     
     if (newLoops.length > 0) {
-      setLoops(prev => [...prev, ...newLoops]);
+      // A loop that already exists under the same id is left as it is
+      setLoops(prev => {
+        const existingLoopIds = new Set(prev.map(loop => loop.id));
+        const freshLoops = newLoops.filter(loop => !existingLoopIds.has(loop.id));
+        return freshLoops.length > 0 ? [...prev, ...freshLoops] : prev;
+      });
     }
   }, [parseInstrumentTag, generateLoopId]);
 
@@ -2047,11 +2815,11 @@ Do you want to continue?`,
     setLoops(prev => prev.filter(l => !loopIds.includes(l.id)));
   }, []);
 
-  const handleUpdateLoop = useCallback((loopId: string, name: string, tagIds: string[], notes?: string) => {
+  const handleUpdateLoop = useCallback((loopId: string, updates: Partial<Loop>) => {
     setLoops(prev => {
       const updatedLoops = prev.map(loop =>
         loop.id === loopId
-          ? { ...loop, name, tagIds }
+          ? { ...loop, ...updates }
           : loop
       );
 
@@ -2060,6 +2828,19 @@ Do you want to continue?`,
     });
   }, []);
 
+  const handleCreateComment = useCallback((anchor: CommentAnchor, text: string) => {
+    const comment = createDrawingComment(anchor, text, getStoredReviewerName(), activeDocumentId || undefined);
+    setComments(prev => [...prev, comment]);
+  }, [activeDocumentId]);
+
+  const handleUpdateComment = useCallback((commentId: string, updates: Partial<DrawingComment>) => {
+    setComments(prev => prev.map(comment => (comment.id === commentId ? { ...comment, ...updates } : comment)));
+  }, []);
+
+  const handleDeleteComment = useCallback((commentId: string) => {
+    setComments(prev => prev.filter(comment => comment.id !== commentId));
+  }, []);
+
   const mainContent = () => {
     if (isLoading) {
       return (
@@ -2070,6 +2851,14 @@ Do you want to continue?`,
           </svg>
           <p className="mt-4 text-lg">Processing PDF...</p>
           <p className="text-gray-600">Page {progress.current} of {progress.total}</p>
+          {processingAbortRef.current && (
+            <button
+              onClick={handleCancelProcessing}
+              className="mt-4 px-4 py-2 text-sm font-semibold text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-100 transition-colors"
+            >
+              취소
+            </button>
+          )}
         </div>
       );
     }
@@ -2080,7 +2869,8 @@ Do you want to continue?`,
           fallback={
             <div className="flex items-center justify-center h-full">
               <div className="text-center text-red-600">
-                <p className="mb-4">Error loading workspace. Please try refreshing the page.</p>
+                <p className="mb-2">Error loading workspace. Please try refreshing the page.</p>
+                <p className="mb-4 text-sm text-gray-600">작업 내용은 자동 저장됩니다. 같은 PDF를 다시 열면 마지막 세션을 복원할 수 있습니다.</p>
                 <button
                   onClick={() => window.location.reload()}
                   className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
@@ -2092,6 +2882,7 @@ Do you want to continue?`,
           }
         >
           <Workspace
+            key={activeDocumentId || undefined}
             pdfDoc={pdfDoc}
             tags={tags}
             setTags={setTags}
@@ -2104,6 +2895,7 @@ Do you want to continue?`,
             setLoops={setLoops}
             detectedLines={detectedLines}
             appSettings={appSettings}
+            patterns={patterns}
             onCreateTag={handleCreateTag}
             onCreateManualTag={handleCreateManualTag}
             onCreateDescription={handleCreateDescription}
@@ -2147,6 +2939,21 @@ Do you want to continue?`,
             setShowOnlySelectedRelationships={setShowOnlySelectedRelationships}
             isSidePanelVisible={isSidePanelVisible}
             colorSettings={colorSettings}
+            // Multi-PDF project
+            documents={documents}
+            activeDocumentId={activeDocumentId}
+            otherDocumentTags={otherDocumentTags}
+            getWorkspaceData={getWorkspaceData}
+            onGoToDocumentTag={handleGoToDocumentTag}
+            focusTagId={focusTagId}
+            onFocusTagHandled={() => setFocusTagId(null)}
+            // Revision comparison clouds belong to the document they were computed for
+            revisionChanges={revisionComparison && (!revisionComparison.documentId || revisionComparison.documentId === activeDocumentId) ? revisionComparison.changes : undefined}
+            // Comment pins; Workspace shows the active document's
+            comments={comments}
+            onCreateComment={handleCreateComment}
+            onUpdateComment={handleUpdateComment}
+            onDeleteComment={handleDeleteComment}
           />
         </ErrorBoundary>
       );
@@ -2207,10 +3014,17 @@ Do you want to continue?`,
         <Header
           hasData={!!pdfFile}
           onOpenSettings={() => setIsSettingsOpen(true)}
+          onOpenInstrumentIndex={() => setIsInstrumentIndexOpen(true)}
+          onOpenRevisionCompare={() => setIsRevisionCompareOpen(true)}
+          onOpenAnnotatedExport={() => setIsAnnotatedExportOpen(true)}
           pdfDoc={pdfDoc}
           currentPage={currentPage}
           setCurrentPage={setCurrentPage}
           onToggleSidePanel={() => setIsSidePanelVisible(p => !p)}
+          documents={documents}
+          activeDocumentId={activeDocumentId}
+          onSwitchDocument={handleSwitchDocument}
+          onAddDocument={handleAddDocument}
         />
       </ErrorBoundary>
       <main className="flex-grow overflow-hidden">
@@ -2237,17 +3051,124 @@ Do you want to continue?`,
             tolerances={tolerances}
             appSettings={appSettings}
             colorSettings={colorSettings}
+            activeProfileName={activeProfileName}
+            tags={tags}
+            rawTextItems={rawTextItems}
             onSaveOnly={handleSaveSettingsOnly}
             onSaveAndRescan={handleSaveSettingsAndRescan}
             onClose={() => setIsSettingsOpen(false)}
           />
         </ErrorBoundary>
       )}
+      {isInstrumentIndexOpen && (
+        <ErrorBoundary
+          fallback={
+            <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center">
+              <div className="bg-white rounded-lg p-6 shadow-lg">
+                <p className="text-red-300 mb-4">Error loading instrument index</p>
+                <button
+                  onClick={() => setIsInstrumentIndexOpen(false)}
+                  className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          }
+        >
+          <InstrumentIndexModal
+            instrumentIndex={instrumentIndex}
+            onInstrumentIndexChange={setInstrumentIndex}
+            tags={instrumentIndexWorkspaceData.tags}
+            loops={instrumentIndexWorkspaceData.loops}
+            documents={documents}
+            onGoToTag={(tag) => {
+              setIsInstrumentIndexOpen(false);
+              handleGoToDocumentTag(tag.documentId || activeDocumentId, tag.id);
+            }}
+            onClose={() => setIsInstrumentIndexOpen(false)}
+          />
+        </ErrorBoundary>
+      )}
+      {isRevisionCompareOpen && (
+        <ErrorBoundary
+          fallback={
+            <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center">
+              <div className="bg-white rounded-lg p-6 shadow-lg">
+                <p className="text-red-300 mb-4">Error loading revision comparison</p>
+                <button
+                  onClick={() => setIsRevisionCompareOpen(false)}
+                  className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          }
+        >
+          <RevisionCompareModal
+            comparison={revisionComparison}
+            onCompare={handleCompareRevision}
+            onGoToChange={handleGoToRevisionChange}
+            onClear={() => setRevisionComparison(null)}
+            onClose={() => setIsRevisionCompareOpen(false)}
+          />
+        </ErrorBoundary>
+      )}
+      {isAnnotatedExportOpen && pdfDoc && (
+        <ErrorBoundary
+          fallback={
+            <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center">
+              <div className="bg-white rounded-lg p-6 shadow-lg">
+                <p className="text-red-300 mb-4">Error loading annotated export</p>
+                <button
+                  onClick={() => setIsAnnotatedExportOpen(false)}
+                  className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          }
+        >
+          <AnnotatedExportModal
+            pageCount={pdfDoc.numPages}
+            currentPage={currentPage}
+            pdfFileName={pdfFile?.name || ''}
+            onExport={handleExportAnnotated}
+            onClose={() => setIsAnnotatedExportOpen(false)}
+          />
+        </ErrorBoundary>
+      )}
+      {pendingRescan && (
+        <ErrorBoundary
+          fallback={
+            <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center">
+              <div className="bg-white rounded-lg p-6 shadow-lg">
+                <p className="text-red-300 mb-4">Error loading rescan preview</p>
+                <button
+                  onClick={() => setPendingRescan(null)}
+                  className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          }
+        >
+          <RescanPreviewModal
+            summary={pendingRescan.result.summary}
+            onApply={handleApplyRescan}
+            onFullRescan={handleFullRescanInstead}
+            onClose={() => setPendingRescan(null)}
+          />
+        </ErrorBoundary>
+      )}
       <ConfirmModal 
         isOpen={confirmation.isOpen}
         message={confirmation.message}
         onConfirm={handleConfirm}
-        onCancel={handleCloseConfirmation}
+        onCancel={handleCancelConfirmation}
       />
     </div>
   );
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { AnnotatedExportFormat, AnnotatedExportOptions } from '../types.ts';
+import { parsePageRange } from '../services/annotatedExport.ts';
+
+interface AnnotatedExportModalProps {
+  pageCount: number;
+  currentPage: number;
+  pdfFileName: string;
+  onExport: (options: AnnotatedExportOptions, onProgress: (done: number, total: number) => void) => Promise<void>;
+  onClose: () => void;
+}
+
+type PageSelection = 'all' | 'current' | 'range';
+
+const RESOLUTIONS = [
+  { value: 1, label: '72 dpi (빠름)' },
+  { value: 2, label: '144 dpi' },
+  { value: 3, label: '216 dpi (선명)' },
+];
+
+export const AnnotatedExportModal: React.FC<AnnotatedExportModalProps> = ({ pageCount, currentPage, pdfFileName, onExport, onClose }) => {
+  const [format, setFormat] = useState<AnnotatedExportFormat>('pdf');
+  const [pageSelection, setPageSelection] = useState<PageSelection>('all');
+  const [pageRange, setPageRange] = useState('');
+  const [resolution, setResolution] = useState(2);
+  const [includeLoops, setIncludeLoops] = useState(true);
+  const [includeComments, setIncludeComments] = useState(true);
+  const [includeResolvedComments, setIncludeResolvedComments] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !progress) onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, progress]);
+
+  const pages = pageSelection === 'all'
+    ? parsePageRange('', pageCount)
+    : pageSelection === 'current'
+      ? [currentPage]
+      : parsePageRange(pageRange, pageCount);
+
+  const handleExport = async () => {
+    setProgress({ done: 0, total: pages.length });
+    try {
+      await onExport(
+        { format, pages, resolution, includeLoops, includeComments, includeResolvedComments },
+        (done, total) => setProgress({ done, total })
+      );
+      onClose();
+    } catch {
+      // 렌더링 또는 파일 생성 실패
+      alert('주석 도면을 내보내지 못했습니다. 해상도를 낮추거나 페이지 수를 줄여 다시 시도해주세요.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={progress ? undefined : onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">주석 도면 내보내기</h2>
+          <button onClick={onClose} disabled={!!progress} className="p-1 rounded-full text-gray-600 hover:bg-gray-100 disabled:opacity-50">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto text-sm text-gray-700">
+          <p className="text-xs text-gray-600">
+            {pdfFileName}의 페이지에 태그 영역, 관계선, 루프, 코멘트를 그려 넣어 저장합니다.
+            태그와 관계의 표시 여부와 색상은 현재 보기 설정을 따릅니다.
+          </p>
+
+          <div>
+            <div className="font-semibold text-gray-900 mb-1">형식</div>
+            <div className="flex gap-4">
+              <label className="flex items-center gap-1.5">
+                <input type="radio" checked={format === 'pdf'} onChange={() => setFormat('pdf')} />
+                PDF (한 파일)
+              </label>
+              <label className="flex items-center gap-1.5">
+                <input type="radio" checked={format === 'png'} onChange={() => setFormat('png')} />
+                PNG (페이지별 파일)
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <div className="font-semibold text-gray-900 mb-1">페이지</div>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-1.5">
+                <input type="radio" checked={pageSelection === 'all'} onChange={() => setPageSelection('all')} />
+                전체 ({pageCount})
+              </label>
+              <label className="flex items-center gap-1.5">
+                <input type="radio" checked={pageSelection === 'current'} onChange={() => setPageSelection('current')} />
+                현재 페이지 ({currentPage})
+              </label>
+              <label className="flex items-center gap-1.5">
+                <input type="radio" checked={pageSelection === 'range'} onChange={() => setPageSelection('range')} />
+                범위
+              </label>
+              <input
+                type="text"
+                value={pageRange}
+                onChange={(e) => { setPageRange(e.target.value); setPageSelection('range'); }}
+                placeholder="예: 1-3, 5"
+                className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="font-semibold text-gray-900 mb-1">해상도</div>
+            <select
+              value={resolution}
+              onChange={(e) => setResolution(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              {RESOLUTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+          </div>
+
+          <div className="space-y-1">
+            <div className="font-semibold text-gray-900 mb-1">포함 항목</div>
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={includeLoops} onChange={(e) => setIncludeLoops(e.target.checked)} />
+              루프 범위와 이름
+            </label>
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={includeComments} onChange={(e) => setIncludeComments(e.target.checked)} />
+              코멘트
+            </label>
+            <label className={`flex items-center gap-1.5 ml-5 ${includeComments ? '' : 'opacity-50'}`}>
+              <input
+                type="checkbox"
+                checked={includeResolvedComments}
+                disabled={!includeComments}
+                onChange={(e) => setIncludeResolvedComments(e.target.checked)}
+              />
+              해결된 코멘트도 포함
+            </label>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex items-center justify-end gap-2">
+          {progress && (
+            <span className="mr-auto text-xs text-gray-600">렌더링 중... {progress.done}/{progress.total} 페이지</span>
+          )}
+          <button onClick={onClose} disabled={!!progress} className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50">
+            취소
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!!progress || pages.length === 0}
+            className="px-3 py-1.5 text-sm font-semibold text-white bg-sky-600 rounded-md hover:bg-sky-700 disabled:opacity-50 transition-colors"
+          >
+            내보내기 ({pages.length}페이지)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
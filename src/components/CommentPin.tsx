@@ -0,0 +1,56 @@
+import React from 'react';
+
+interface CommentPinProps {
+  id: string;
+  x: number;
+  y: number;
+  label: number;
+  text: string;
+  resolved: boolean;
+  isSelected: boolean;
+  onSelect: (id: string) => void;
+}
+
+// Map-pin marker whose tip sits on (x, y); open comments are amber, resolved ones grey
+export const CommentPin: React.FC<CommentPinProps> = ({ id, x, y, label, text, resolved, isSelected, onSelect }) => {
+  const color = resolved ? '#9ca3af' : '#f59e0b'; // Gray-400 / Amber-500
+  const radius = 9;
+  const headY = y - radius * 2;
+  return (
+    <g
+      data-comment-id={id}
+      className="cursor-pointer"
+      opacity={resolved && !isSelected ? 0.6 : 1}
+      onMouseDown={(e) => {
+        e.stopPropagation();
+        onSelect(id);
+      }}
+    >
+      <title>{text}</title>
+      <path
+        d={`M ${x} ${y} L ${x - radius * 0.6} ${headY + radius * 0.5} L ${x + radius * 0.6} ${headY + radius * 0.5} Z`}
+        fill={color}
+      />
+      <circle
+        cx={x}
+        cy={headY}
+        r={radius}
+        fill={color}
+        stroke={isSelected ? '#1d4ed8' : '#ffffff'}
+        strokeWidth={isSelected ? 3 : 1.5}
+      />
+      <text
+        x={x}
+        y={headY}
+        textAnchor="middle"
+        dominantBaseline="central"
+        fontSize="10"
+        fontWeight="bold"
+        fill="#ffffff"
+        pointerEvents="none"
+      >
+        {label}
+      </text>
+    </g>
+  );
+};
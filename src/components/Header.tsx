@@ -1,13 +1,55 @@
-import React from 'react';
+import React, { useRef } from 'react';
 
 export const Header = ({
   hasData,
   onOpenSettings,
+  onOpenInstrumentIndex,
+  onOpenRevisionCompare,
+  onOpenAnnotatedExport,
   pdfDoc,
   currentPage,
   setCurrentPage,
   onToggleSidePanel,
+  documents = [],
+  activeDocumentId = null,
+  onSwitchDocument,
+  onAddDocument,
 }) => {
+  const addFileInputRef = useRef<HTMLInputElement>(null);
+  const attachFileInputRef = useRef<HTMLInputElement>(null);
+  // Document waiting for its PDF to be picked (restored from a project file without the PDF)
+  const pendingAttachIdRef = useRef<string | null>(null);
+
+  const handleDocumentChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const target = documents.find(d => d.id === e.target.value);
+    if (!target) return;
+    if (target.file) {
+      onSwitchDocument(target.id);
+    } else {
+      pendingAttachIdRef.current = target.id;
+      attachFileInputRef.current?.click();
+    }
+  };
+
+  const handleAttachFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const documentId = pendingAttachIdRef.current;
+    e.target.value = '';
+    pendingAttachIdRef.current = null;
+    if (!file || !documentId) return;
+    const target = documents.find(d => d.id === documentId);
+    if (target && target.fileName !== file.name &&
+        !window.confirm(`선택한 파일("${file.name}")이 문서 이름("${target.fileName}")과 다릅니다. 이 파일을 연결하시겠습니까?`)) {
+      return;
+    }
+    onSwitchDocument(documentId, file);
+  };
+
+  const handleAddFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onAddDocument(file);
+  };
 
   return (
     <header className="relative flex-shrink-0 bg-white border-b border-gray-200 p-2 z-50">
@@ -34,6 +76,33 @@ export const Header = ({
           )}
         </div>
 
+        {/* Document switcher - multi-PDF project */}
+        {hasData && (
+          <div className="flex items-center gap-1">
+            <select
+              value={activeDocumentId || ''}
+              onChange={handleDocumentChange}
+              className="max-w-[14rem] bg-white border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-900 focus:ring-sky-500 focus:border-sky-500"
+              title="문서 전환"
+            >
+              {documents.map((doc, index) => (
+                <option key={doc.id} value={doc.id}>
+                  {index + 1}. {doc.fileName}{doc.file ? '' : ' (PDF 열기 필요)'}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => addFileInputRef.current?.click()}
+              className="px-2 py-1 text-sm font-semibold text-sky-700 bg-sky-50 border border-sky-200 rounded-md hover:bg-sky-100 transition-colors whitespace-nowrap"
+              title="프로젝트에 PDF 추가"
+            >
+              + PDF
+            </button>
+            <input ref={addFileInputRef} type="file" accept=".pdf,application/pdf" className="hidden" onChange={handleAddFile} />
+            <input ref={attachFileInputRef} type="file" accept=".pdf,application/pdf" className="hidden" onChange={handleAttachFile} />
+          </div>
+        )}
+
         {/* PDF Navigation - when data is loaded */}
         {hasData && pdfDoc && (
           <div className="bg-white p-1 rounded-xl shadow-lg flex items-center gap-2 border border-gray-200">
@@ -46,6 +115,33 @@ export const Header = ({
 
         {/* Tools & Essential buttons */}
         <div className="flex items-center gap-1">
+          {hasData && (
+            <button
+              onClick={onOpenInstrumentIndex}
+              className="px-2 py-1.5 text-sm font-semibold text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-100 transition-colors whitespace-nowrap"
+              title="고객 계기 인덱스(XLSX/CSV)와 비교"
+            >
+              인덱스 비교
+            </button>
+          )}
+          {hasData && (
+            <button
+              onClick={onOpenRevisionCompare}
+              className="px-2 py-1.5 text-sm font-semibold text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-100 transition-colors whitespace-nowrap"
+              title="이전 리비전 프로젝트(JSON)와 비교"
+            >
+              리비전 비교
+            </button>
+          )}
+          {hasData && pdfDoc && (
+            <button
+              onClick={onOpenAnnotatedExport}
+              className="px-2 py-1.5 text-sm font-semibold text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-100 transition-colors whitespace-nowrap"
+              title="태그와 관계를 그려 넣은 도면을 PDF/PNG로 저장"
+            >
+              주석 도면
+            </button>
+          )}
           {/* Always visible essential buttons */}
           <button
             onClick={onOpenSettings}
@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { InstrumentIndex, InstrumentIndexColumnMapping, Loop, PdfDocumentEntry, Tag } from '../types.ts';
+import { guessColumnMapping, readInstrumentIndexFile, reconcileInstrumentIndex } from '../services/instrumentIndexService.ts';
+
+interface InstrumentIndexModalProps {
+  instrumentIndex: InstrumentIndex | null;
+  onInstrumentIndexChange: (index: InstrumentIndex | null) => void;
+  tags: Tag[];                       // Tags of every document in the project
+  loops: Loop[];                     // Loops of every document in the project
+  documents: PdfDocumentEntry[];
+  onGoToTag: (tag: Tag) => void;
+  onClose: () => void;
+}
+
+const MAPPING_FIELDS: { field: keyof InstrumentIndexColumnMapping; label: string; required: boolean }[] = [
+  { field: 'tagNumber', label: 'Tag Number', required: true },
+  { field: 'loopNumber', label: 'Loop', required: false },
+  { field: 'drawingNumber', label: 'P&ID Number', required: false },
+];
+
+export const InstrumentIndexModal: React.FC<InstrumentIndexModalProps> = ({
+  instrumentIndex,
+  onInstrumentIndexChange,
+  tags,
+  loops,
+  documents,
+  onGoToTag,
+  onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const reconciliation = useMemo(
+    () => (instrumentIndex?.mapping.tagNumber ? reconcileInstrumentIndex(instrumentIndex, tags, loops) : null),
+    [instrumentIndex, tags, loops]
+  );
+
+  const documentNames = useMemo(() => new Map(documents.map(doc => [doc.id, doc.fileName])), [documents]);
+  const describeLocation = (tag: Tag) => {
+    const documentName = documents.length > 1 ? documentNames.get(tag.documentId) : null;
+    return documentName ? `${documentName} · 페이지 ${tag.page}` : `페이지 ${tag.page}`;
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const sheet = await readInstrumentIndexFile(file);
+      onInstrumentIndexChange({ ...sheet, mapping: guessColumnMapping(sheet.headers) });
+    } catch (error) {
+      alert(`인덱스 파일을 읽을 수 없습니다: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: keyof InstrumentIndexColumnMapping, header: string) => {
+    if (!instrumentIndex) return;
+    onInstrumentIndexChange({ ...instrumentIndex, mapping: { ...instrumentIndex.mapping, [field]: header } });
+  };
+
+  const renderTagButton = (tag: Tag, detail?: string) => (
+    <button
+      onClick={() => onGoToTag(tag)}
+      className="w-full text-left px-2 py-1 rounded hover:bg-gray-100 text-sm"
+      title="도면에서 보기"
+    >
+      <span className="font-mono text-gray-900">{tag.text}</span>
+      <span className="ml-2 text-xs text-gray-500">{describeLocation(tag)}</span>
+      {detail && <div className="text-xs text-amber-700">{detail}</div>}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">계기 인덱스 비교</h2>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-600 hover:bg-gray-100">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isReading}
+              className="px-3 py-1.5 text-sm font-semibold text-white bg-sky-600 rounded-md hover:bg-sky-700 disabled:opacity-50 transition-colors"
+            >
+              {isReading ? '읽는 중...' : '인덱스 파일 선택 (XLSX/CSV)'}
+            </button>
+            <input ref={fileInputRef} type="file" accept=".xlsx,.xls,.csv" className="hidden" onChange={handleFileChange} />
+            {instrumentIndex && (
+              <>
+                <span className="text-sm text-gray-700 truncate">{instrumentIndex.fileName} ({instrumentIndex.records.length}행)</span>
+                <button onClick={() => onInstrumentIndexChange(null)} className="text-xs text-red-600 hover:text-red-700">지우기</button>
+              </>
+            )}
+          </div>
+
+          {instrumentIndex && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 p-3 bg-gray-100 rounded-lg">
+              {MAPPING_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">{label}{required ? ' *' : ''}</label>
+                  <select
+                    value={instrumentIndex.mapping[field]}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    className="w-full bg-white border border-gray-300 rounded-md p-1.5 text-sm text-gray-900"
+                  >
+                    {!required && <option value="">(없음)</option>}
+                    {instrumentIndex.headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {reconciliation && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-center text-sm">
+                <div className="p-2 rounded bg-emerald-50 text-emerald-700">일치 <b>{reconciliation.matchedCount}</b></div>
+                <div className="p-2 rounded bg-red-50 text-red-700">인덱스에 없음 <b>{reconciliation.missingInIndex.length}</b></div>
+                <div className="p-2 rounded bg-orange-50 text-orange-700">도면에 없음 <b>{reconciliation.notOnDrawings.length}</b></div>
+                <div className="p-2 rounded bg-amber-50 text-amber-700">도면번호 불일치 <b>{reconciliation.drawingMismatches.length}</b></div>
+                <div className="p-2 rounded bg-violet-50 text-violet-700">루프 불일치 <b>{reconciliation.loopMismatches.length}</b></div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3">
+                <section>
+                  <h3 className="text-sm font-semibold text-gray-800 mb-1">도면에만 있는 태그</h3>
+                  <ul className="max-h-80 overflow-y-auto border border-gray-200 rounded divide-y divide-gray-100">
+                    {reconciliation.missingInIndex.map(tag => <li key={tag.id}>{renderTagButton(tag)}</li>)}
+                  </ul>
+                </section>
+                <section>
+                  <h3 className="text-sm font-semibold text-gray-800 mb-1">인덱스에만 있는 행</h3>
+                  <ul className="max-h-80 overflow-y-auto border border-gray-200 rounded divide-y divide-gray-100">
+                    {reconciliation.notOnDrawings.map(row => (
+                      <li key={row.rowNumber} className="px-2 py-1 text-sm">
+                        <span className="font-mono text-gray-900">{row.tagNumber}</span>
+                        <span className="ml-2 text-xs text-gray-500">행 {row.rowNumber}</span>
+                        {(row.loopNumber || row.drawingNumber) && (
+                          <div className="text-xs text-gray-500">{[row.loopNumber, row.drawingNumber].filter(Boolean).join(' · ')}</div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+                <section>
+                  <h3 className="text-sm font-semibold text-gray-800 mb-1">도면번호 불일치</h3>
+                  <ul className="max-h-80 overflow-y-auto border border-gray-200 rounded divide-y divide-gray-100">
+                    {reconciliation.drawingMismatches.map(mismatch => (
+                      <li key={`${mismatch.row.rowNumber}-${mismatch.tag.id}`}>
+                        {renderTagButton(mismatch.tag, `도면: ${mismatch.drawingNumber} / 인덱스: ${mismatch.row.drawingNumber}`)}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+                <section>
+                  <h3 className="text-sm font-semibold text-gray-800 mb-1">루프 불일치</h3>
+                  <ul className="max-h-80 overflow-y-auto border border-gray-200 rounded divide-y divide-gray-100">
+                    {reconciliation.loopMismatches.map(mismatch => (
+                      <li key={`${mismatch.row.rowNumber}-${mismatch.tag.id}`}>
+                        {renderTagButton(mismatch.tag, `루프: ${mismatch.loopNumber} / 인덱스: ${mismatch.row.loopNumber}`)}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
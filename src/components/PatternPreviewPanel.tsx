@@ -0,0 +1,185 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AppSettings, PatternConfig, PatternPreviewMatch, PatternPreviewResult, RawTextItem, Tag, ToleranceConfig } from '../types.ts';
+import { buildPreviewCorpus, PREVIEW_CATEGORIES } from '../services/patternPreviewService.ts';
+import { runPatternPreview } from '../services/patternPreviewRunner.ts';
+import { isAbortError } from '../services/tagExtractionPool.ts';
+
+interface PatternPreviewPanelProps {
+  tags: Tag[];
+  rawTextItems: RawTextItem[];
+  currentPatterns: PatternConfig;
+  currentTolerances: ToleranceConfig;
+  candidatePatterns: PatternConfig;
+  candidateTolerances: ToleranceConfig;
+  appSettings: AppSettings;
+  onResult: (result: PatternPreviewResult | null) => void;
+}
+
+// Wait for typing to pause before re-running the preview
+const PREVIEW_DEBOUNCE_MS = 400;
+// Gained/lost matches listed before the rest is summarized as a count
+const MAX_LISTED_MATCHES = 50;
+
+const MatchList: React.FC<{ title: string; matches: PatternPreviewMatch[]; className: string }> = ({ title, matches, className }) => (
+  <div className="min-w-0">
+    <div className={`text-xs font-semibold mb-1 ${className}`}>{title} ({matches.length})</div>
+    {matches.length === 0 ? (
+      <div className="text-xs text-gray-400">없음</div>
+    ) : (
+      <ul className="border border-gray-200 rounded divide-y divide-gray-100 max-h-48 overflow-y-auto">
+        {matches.slice(0, MAX_LISTED_MATCHES).map((match, index) => (
+          <li key={`${match.category}-${match.page}-${index}`} className="px-2 py-0.5 text-xs flex items-center gap-2">
+            <span className="font-mono text-gray-900 truncate">{match.text}</span>
+            <span className="text-gray-500">{match.category}</span>
+            <span className="ml-auto text-gray-500 whitespace-nowrap">p.{match.page}</span>
+          </li>
+        ))}
+        {matches.length > MAX_LISTED_MATCHES && (
+          <li className="px-2 py-0.5 text-xs text-gray-500">외 {matches.length - MAX_LISTED_MATCHES}개</li>
+        )}
+      </ul>
+    )}
+  </div>
+);
+
+export const PatternPreviewPanel: React.FC<PatternPreviewPanelProps> = ({
+  tags,
+  rawTextItems,
+  currentPatterns,
+  currentTolerances,
+  candidatePatterns,
+  candidateTolerances,
+  appSettings,
+  onResult,
+}) => {
+  const [result, setResult] = useState<PatternPreviewResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const corpus = useMemo(() => buildPreviewCorpus(tags, rawTextItems), [tags, rawTextItems]);
+  const autoRemoveWhitespace = appSettings.autoRemoveWhitespace;
+
+  useEffect(() => {
+    if (corpus.length === 0) return;
+    const abortController = new AbortController();
+    setIsRunning(true);
+    const timer = setTimeout(() => {
+      runPatternPreview({
+        corpus,
+        currentPatterns,
+        currentTolerances,
+        candidatePatterns,
+        candidateTolerances,
+        appSettings: { autoRemoveWhitespace },
+      }, abortController.signal)
+        .then(previewResult => {
+          setResult(previewResult);
+          onResult(previewResult);
+        })
+        .catch(error => {
+          if (isAbortError(error)) return;
+          setResult(null);
+          onResult(null);
+        })
+        .finally(() => {
+          if (!abortController.signal.aborted) setIsRunning(false);
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      abortController.abort();
+    };
+  }, [corpus, currentPatterns, currentTolerances, candidatePatterns, candidateTolerances, autoRemoveWhitespace, onResult]);
+
+  if (corpus.length === 0) {
+    return (
+      <p className="text-xs text-gray-500">PDF를 스캔하면 추출된 텍스트로 패턴 변경 결과를 미리 볼 수 있습니다.</p>
+    );
+  }
+
+  const pageCategories = PREVIEW_CATEGORIES.filter(category => result?.pages.some(page => page.counts[category]));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-xs text-gray-600">
+        <span>현재 문서에서 추출된 텍스트 {corpus.length}개에 편집 중인 패턴을 적용한 결과입니다. 도면 번호는 검색 영역을 무시한 근사치입니다.</span>
+        {isRunning && <span className="ml-auto text-sky-600 whitespace-nowrap">계산 중...</span>}
+      </div>
+
+      {result && result.issues.length > 0 && (
+        <ul className="space-y-1">
+          {result.issues.map((issue, index) => (
+            <li
+              key={`${issue.category}-${issue.kind}-${index}`}
+              className={`text-xs px-2 py-1 rounded ${issue.kind === 'slow' ? 'bg-amber-50 text-amber-800' : 'bg-red-50 text-red-700'}`}
+            >
+              <b>{issue.category}</b>{' '}
+              {issue.kind === 'invalid' ? '잘못된 정규식' : issue.kind === 'timeout' ? '실행 중단' : '느린 정규식'}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {result && result.counts.length > 0 && (
+        <>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-1 pr-2">카테고리</th>
+                <th className="py-1 px-2 text-right">현재</th>
+                <th className="py-1 px-2 text-right">변경 후</th>
+                <th className="py-1 pl-2 text-right">차이</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.counts.map(({ category, current, candidate }) => {
+                const delta = candidate - current;
+                return (
+                  <tr key={category} className="border-b border-gray-100">
+                    <td className="py-1 pr-2 text-gray-800">{category}</td>
+                    <td className="py-1 px-2 text-right text-gray-600">{current}</td>
+                    <td className="py-1 px-2 text-right font-semibold text-gray-900">{candidate}</td>
+                    <td className={`py-1 pl-2 text-right ${delta > 0 ? 'text-green-700' : delta < 0 ? 'text-red-700' : 'text-gray-400'}`}>
+                      {delta > 0 ? `+${delta}` : delta}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <MatchList title="새로 매칭" matches={result.gained} className="text-green-700" />
+            <MatchList title="더 이상 매칭되지 않음" matches={result.lost} className="text-red-700" />
+          </div>
+
+          {result.pages.length > 0 && (
+            <details>
+              <summary className="text-xs font-semibold text-gray-700 cursor-pointer">페이지별 매칭 수 ({result.pages.length}페이지)</summary>
+              <div className="mt-1 max-h-48 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b border-gray-200">
+                      <th className="py-1 pr-2">페이지</th>
+                      {pageCategories.map(category => (
+                        <th key={category} className="py-1 px-2 text-right">{category}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.pages.map(({ page, counts }) => (
+                      <tr key={page} className="border-b border-gray-100">
+                        <td className="py-0.5 pr-2 text-gray-800">{page}</td>
+                        {pageCategories.map(category => (
+                          <td key={category} className="py-0.5 px-2 text-right text-gray-700">{counts[category] || 0}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </details>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
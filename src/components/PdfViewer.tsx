@@ -1,7 +1,11 @@
 import React, { useState, useEffect, useRef, useCallback, useLayoutEffect, useMemo } from 'react';
-import { RelationshipType, Category, type AppSettings } from '../types.ts';
+import { RelationshipType, Category, type AppSettings, type Tag } from '../types.ts';
 import { CATEGORY_COLORS, DEFAULT_COLORS } from '../constants.ts';
 import { TagHighlight, getHighlightTypeFromEntity, getHighlightEffect } from './TagHighlight.tsx';
+import { RevisionCloud } from './RevisionCloud.tsx';
+import { CommentPin } from './CommentPin.tsx';
+import { findPairedConnector } from '../services/opcService.ts';
+import { getCommentPosition } from '../services/commentService.ts';
 import { v4 as uuidv4 } from 'uuid';
 
 // Throttle function for performance
@@ -125,9 +129,13 @@ const PdfViewerComponent = ({
   setShowAllRelationships,
   showOnlySelectedRelationships,
   setShowOnlySelectedRelationships,
-  onOPCTagClick,
   detectedLines = [],
   appSettings,                 // <<< keep (already in your code)
+  revisionChanges = [],        // Changes against a previous revision, drawn as clouds
+  comments = [],               // Comments of this document, drawn as numbered pins
+  selectedCommentId = null,
+  onSelectComment,
+  onPlaceComment,              // Comment mode: a spot or tag was picked for a new comment
 }) => {
   const canvasRef = useRef(null);
   const viewerRef = useRef(null);
@@ -432,10 +440,14 @@ const PdfViewerComponent = ({
         return colors.entities.line;
       case Category.Instrument:
         return colors.entities.instrument;
+      case Category.Equipment:
+        return colors.entities.equipment;
       case Category.DrawingNumber:
         return colors.entities.drawingNumber;
       case Category.NotesAndHolds:
         return colors.entities.notesAndHolds;
+      case Category.OffPageConnector:
+        return colors.entities.offPageConnector;
       default:
         return colors.entities.uncategorized;
     }
@@ -452,6 +464,8 @@ const PdfViewerComponent = ({
         return colors.relationships.annotation;
       case RelationshipType.Note:
         return colors.relationships.note;
+      case RelationshipType.OffPageConnection:
+        return colors.relationships.offPageConnection;
       default:
         return '#94a3b8'; // Default slate color
     }
@@ -464,10 +478,14 @@ const PdfViewerComponent = ({
         return visibilitySettings.tags.line;
       case Category.Instrument:
         return visibilitySettings.tags.instrument;
+      case Category.Equipment:
+        return visibilitySettings.tags.equipment;
       case Category.DrawingNumber:
         return visibilitySettings.tags.drawingNumber;
       case Category.NotesAndHolds:
         return visibilitySettings.tags.notesAndHolds;
+      case Category.OffPageConnector:
+        return visibilitySettings.tags.offPageConnector;
       default:
         return true;
     }
@@ -484,6 +502,8 @@ const PdfViewerComponent = ({
         return visibilitySettings.relationships.annotation;
       case RelationshipType.Note:
         return visibilitySettings.relationships.note;
+      case RelationshipType.OffPageConnection:
+        return visibilitySettings.relationships.offPageConnection;
       case RelationshipType.Description:
         return false; // Always hide Description relationship lines
       default:
@@ -660,6 +680,22 @@ const PdfViewerComponent = ({
           centerX = screenCenter.x;
           centerY = screenCenter.y;
         }
+      } else if (scrollToCenter.rawTextItemId) {
+        const item = rawTextItems.find(i => i.id === scrollToCenter.rawTextItemId);
+        if (item) {
+          const { x1, y1, x2, y2 } = item.bbox;
+          const screenCenter = transformPdfCoordinates((x1 + x2) / 2, (y1 + y2) / 2);
+          centerX = screenCenter.x;
+          centerY = screenCenter.y;
+        }
+      } else if (scrollToCenter.commentId) {
+        const comment = comments.find(c => c.id === scrollToCenter.commentId);
+        if (comment) {
+          const position = getCommentPosition(comment, new Map<string, Tag>(tags.map(t => [t.id, t])));
+          const screenCenter = transformPdfCoordinates(position.x, position.y);
+          centerX = screenCenter.x;
+          centerY = screenCenter.y;
+        }
       }
 
       if (centerX !== undefined && centerY !== undefined) {
@@ -677,7 +713,7 @@ const PdfViewerComponent = ({
         });
       }
     }
-  }, [scrollToCenter, viewport, tags, rawTextItems]);
+  }, [scrollToCenter, viewport, tags, rawTextItems, comments]);
 
   useEffect(() => {
     const handleKeyDown = (e) => {
@@ -687,14 +723,14 @@ const PdfViewerComponent = ({
       }
       
       if (e.key === '1') {
-        // Line hotkey
+        // Equipment hotkey
         if (selectedRawTextItemIds.length > 0) {
-          onCreateTag(rawTextItems.filter(item => selectedRawTextItemIds.includes(item.id)), Category.Line);
+          onCreateTag(rawTextItems.filter(item => selectedRawTextItemIds.includes(item.id)), Category.Equipment);
           setSelectedRawTextItemIds([]);
         } else {
           onManualAreaSelect();
           setTimeout(() => {
-            const event = new CustomEvent('manualTagCreate', { detail: { category: Category.Line } });
+            const event = new CustomEvent('manualTagCreate', { detail: { category: Category.Equipment } });
             window.dispatchEvent(event);
           }, 100);
         }
@@ -754,14 +790,12 @@ const PdfViewerComponent = ({
       } else if (e.key === '6') {
         // OPC hotkey
         if (selectedRawTextItemIds.length > 0) {
-          // OPC functionality removed
-          // onCreateTag(rawTextItems.filter(item => selectedRawTextItemIds.includes(item.id)), Category.OffPageConnector);
+          onCreateTag(rawTextItems.filter(item => selectedRawTextItemIds.includes(item.id)), Category.OffPageConnector);
           setSelectedRawTextItemIds([]);
         } else {
           onManualAreaSelect();
           setTimeout(() => {
-            // OPC functionality removed
-            // const event = new CustomEvent('manualTagCreate', { detail: { category: Category.OffPageConnector } });
+            const event = new CustomEvent('manualTagCreate', { detail: { category: Category.OffPageConnector } });
             window.dispatchEvent(event);
           }, 100);
         }
@@ -846,6 +880,10 @@ const PdfViewerComponent = ({
           setSelectedTagIds([]);
           setSelectedRawTextItemIds([]);
         }
+      } else if (e.key.toLowerCase() === 'p') {
+        // Comment mode: the next click on the drawing or on a tag places a comment pin
+        setMode(mode === 'comment' ? 'select' : 'comment');
+        setRelationshipStartTag(null);
       } else if (e.key === 'Escape') {
         setMode('select');
         setRelationshipStartTag(null);
@@ -987,8 +1025,12 @@ const PdfViewerComponent = ({
             installation: newState,
             annotation: newState,
             note: newState,
+            offPageConnection: newState,
           },
         });
+      } else if (e.key.toLowerCase() === 'g') {
+        // Toggle detected line geometry overlay
+        updateVisibilitySettings({ detectedLines: !visibilitySettings.detectedLines });
       } else if (e.key.toLowerCase() === 'q' && pdfDoc) {
         setCurrentPage(prev => Math.max(1, prev - 1));
       } else if (e.key.toLowerCase() === 'w' && pdfDoc) {
@@ -1095,11 +1137,13 @@ const PdfViewerComponent = ({
     descriptions.filter(desc => desc.page === currentPage),
     [descriptions, currentPage]
   );
+  const tagById = useMemo(() => new Map<string, Tag>(tags.map(t => [t.id, t])), [tags]);
 
   const handleViewerMouseDown = (e) => {
     if (
       (e.target as Element).closest('[data-tag-id]') ||
-      (e.target as Element).closest('[data-raw-text-id]')
+      (e.target as Element).closest('[data-raw-text-id]') ||
+      (e.target as Element).closest('[data-comment-id]')
     ) {
       return;
     }
@@ -1107,6 +1151,13 @@ const PdfViewerComponent = ({
     isClickOnItem.current = false; // A true background click
     isMoved.current = false;
     setOpcNavigationButton(null);
+
+    if (mode === 'comment' && viewerRef.current) {
+        const rect = viewerRef.current.getBoundingClientRect();
+        onPlaceComment({ page: currentPage, x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale });
+        setMode('select');
+        return;
+    }
   
     if (mode === 'manualCreate' && viewerRef.current) {
         const rect = viewerRef.current.getBoundingClientRect();
@@ -1422,6 +1473,7 @@ const PdfViewerComponent = ({
     switch(mode){
       case 'connect': return 'cursor-crosshair ring-2 ring-blue-500';
       case 'manualCreate': return 'cursor-crosshair ring-2 ring-green-500';
+      case 'comment': return 'cursor-crosshair ring-2 ring-amber-500';
       default: return '';
     }
   };
@@ -1449,21 +1501,23 @@ const PdfViewerComponent = ({
                     <marker id="arrowhead-install" markerWidth="10" markerHeight="7" refX="0" refY="3.5" orient="auto"><polygon points="0 0, 10 3.5, 0 7" fill={colors.relationships.installation} /></marker>
                     </defs>
 
-                    {/* Render detected CV lines (piping) - shown as debug visualization */}
-                    {detectedLines
+                    {/* Render detected vector lines (piping) - shown as debug visualization */}
+                    {visibilitySettings.detectedLines && detectedLines
                         .filter(line => line.page === currentPage)
                         .map((line, index) => {
                             const opacity = 0.3;
                             const strokeWidth = line.confidence ? Math.max(1, line.confidence * 3) : 2;
                             const strokeColor = line.type === 'horizontal' ? '#00ff00' : '#0088ff';
+                            const start = transformPdfCoordinates(line.start.x, line.start.y);
+                            const end = transformPdfCoordinates(line.end.x, line.end.y);
 
                             return (
                                 <line
-                                    key={`detected-line-${index}`}
-                                    x1={line.start.x}
-                                    y1={line.start.y}
-                                    x2={line.end.x}
-                                    y2={line.end.y}
+                                    key={line.id || `detected-line-${index}`}
+                                    x1={start.x}
+                                    y1={start.y}
+                                    x2={end.x}
+                                    y2={end.y}
                                     stroke={strokeColor}
                                     strokeWidth={strokeWidth}
                                     strokeOpacity={opacity}
@@ -1625,6 +1679,11 @@ const PdfViewerComponent = ({
                         <g key={tag.id} data-tag-id={tag.id} onMouseDown={(e) => {
                           e.stopPropagation();
                           isClickOnItem.current = true;
+                          if (mode === 'comment') {
+                            onPlaceComment({ page: currentPage, x: tag.bbox.x2, y: tag.bbox.y1, tagId: tag.id });
+                            setMode('select');
+                            return;
+                          }
                           const isMultiSelect = e.ctrlKey || e.metaKey;
 
                           if (isMultiSelect) {
@@ -1638,6 +1697,21 @@ const PdfViewerComponent = ({
                             setSelectedRawTextItemIds([]);
                             setSelectedDescriptionIds([]);
                           }
+
+                          // Offer a jump to the paired connector on the other sheet
+                          if (tag.category === Category.OffPageConnector && !isMultiSelect) {
+                            const pairedTag = findPairedConnector(tag.id, tags, relationships);
+                            setOpcNavigationButton(pairedTag ? {
+                              tagId: tag.id,
+                              x: e.clientX,
+                              y: e.clientY,
+                              targetTagId: pairedTag.id,
+                              targetPage: pairedTag.page,
+                              referenceText: pairedTag.text,
+                            } : null);
+                          } else {
+                            setOpcNavigationButton(null);
+                          }
                         }} className="cursor-pointer">
                           {isConnectedToNote && isVisible && !isNoteTag && (
                             <>
@@ -1748,6 +1822,42 @@ const PdfViewerComponent = ({
                       );
                     })}
 
+                    {/* Revision clouds */}
+                    {revisionChanges.filter(change => change.page === currentPage).map(change => {
+                      const { x1, y1, x2, y2 } = change.bbox;
+                      const { rectX, rectY, rectWidth, rectHeight } = transformCoordinates(x1, y1, x2, y2);
+                      return (
+                        <RevisionCloud
+                          key={change.id}
+                          x={rectX}
+                          y={rectY}
+                          width={rectWidth}
+                          height={rectHeight}
+                          type={change.type}
+                        />
+                      );
+                    })}
+
+                    {/* Comment pins */}
+                    {comments.map((comment, index) => {
+                      if (comment.page !== currentPage) return null;
+                      const position = getCommentPosition(comment, tagById);
+                      const screen = transformPdfCoordinates(position.x, position.y);
+                      return (
+                        <CommentPin
+                          key={comment.id}
+                          id={comment.id}
+                          x={screen.x}
+                          y={screen.y}
+                          label={index + 1}
+                          text={comment.text}
+                          resolved={comment.resolved}
+                          isSelected={comment.id === selectedCommentId}
+                          onSelect={onSelectComment}
+                        />
+                      );
+                    })}
+
                     {pingedTagId && (() => {
                       const tagToPing = currentTags.find(t => t.id === pingedTagId);
                       if (!tagToPing) return null;
@@ -1863,7 +1973,10 @@ export const PdfViewer = React.memo(PdfViewerComponent, (prevProps, nextProps) =
     prevProps.selectedRawTextItemIds === nextProps.selectedRawTextItemIds &&
     prevProps.selectedDescriptionIds === nextProps.selectedDescriptionIds &&
     prevProps.visibilitySettings === nextProps.visibilitySettings &&
-    prevProps.showAutoLinkRanges === nextProps.showAutoLinkRanges
+    prevProps.showAutoLinkRanges === nextProps.showAutoLinkRanges &&
+    prevProps.revisionChanges === nextProps.revisionChanges &&
+    prevProps.comments === nextProps.comments &&
+    prevProps.selectedCommentId === nextProps.selectedCommentId
   );
 });
 export default PdfViewer;
\ No newline at end of file
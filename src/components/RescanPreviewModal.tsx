@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { RescanChangeType, RescanSummary } from '../types.ts';
+import { RESCAN_CHANGE_LABELS } from '../constants.ts';
+
+interface RescanPreviewModalProps {
+  summary: RescanSummary;
+  onApply: () => void;
+  onFullRescan: () => void;
+  onClose: () => void;
+}
+
+const TYPE_STYLES: Record<RescanChangeType, string> = {
+  added: 'bg-green-50 text-green-700',
+  removed: 'bg-red-50 text-red-700',
+  changed: 'bg-orange-50 text-orange-700',
+};
+
+const CHANGE_TYPES: RescanChangeType[] = ['added', 'removed', 'changed'];
+
+export const RescanPreviewModal: React.FC<RescanPreviewModalProps> = ({ summary, onApply, onFullRescan, onClose }) => {
+  const [typeFilter, setTypeFilter] = useState<RescanChangeType | 'All'>('All');
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const visibleChanges = useMemo(() => summary.changes
+    .filter(change => typeFilter === 'All' || change.type === typeFilter)
+    .sort((a, b) => a.page - b.page || a.text.localeCompare(b.text)),
+  [summary, typeFilter]);
+
+  const countByType = (type: RescanChangeType) => summary.changes.filter(change => change.type === type).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">다시 스캔 결과 미리보기</h2>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-600 hover:bg-gray-100">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <p className="text-xs text-gray-600">
+            새 패턴으로 추출한 태그를 기존 작업과 합쳤습니다. 수동 태그와 검토된 태그는 그대로 두고,
+            나머지 태그는 위치가 겹치는 새 태그로 교체되며 관계와 루프가 유지됩니다. 루프가 없는 계기 태그에는 적용할 때 루프가 자동으로 생성됩니다. 적용하기 전에는 아무것도 바뀌지 않습니다.
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-center text-sm">
+            <button
+              onClick={() => setTypeFilter('All')}
+              className={`p-2 rounded bg-gray-100 text-gray-700 ${typeFilter === 'All' ? 'ring-2 ring-sky-500' : ''}`}
+            >
+              변경 없음 <b>{summary.unchangedCount}</b>
+            </button>
+            {CHANGE_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => setTypeFilter(prev => (prev === type ? 'All' : type))}
+                className={`p-2 rounded ${TYPE_STYLES[type]} ${typeFilter === type ? 'ring-2 ring-sky-500' : ''}`}
+              >
+                {RESCAN_CHANGE_LABELS[type]} <b>{countByType(type)}</b>
+              </button>
+            ))}
+          </div>
+
+          <div className="text-xs text-gray-600 space-y-0.5">
+            <div>유지되는 태그: 수동 {summary.kept.manual}개, 검토됨 {summary.kept.reviewed}개</div>
+            <div>
+              관계 {summary.relationships.kept}개 유지
+              {summary.relationships.dropped > 0 && <span className="text-amber-700">, {summary.relationships.dropped}개 삭제 (연결된 태그가 사라짐)</span>}
+            </div>
+            <div>
+              루프 {summary.loops.kept}개 유지
+              {summary.loops.dropped > 0 && <span className="text-amber-700">, {summary.loops.dropped}개 삭제 (모든 태그가 사라짐)</span>}
+            </div>
+          </div>
+
+          {visibleChanges.length === 0 ? (
+            <div className="text-center text-sm text-gray-500 py-6">표시할 변경 사항이 없습니다</div>
+          ) : (
+            <ul className="border border-gray-200 rounded divide-y divide-gray-100">
+              {visibleChanges.map(change => (
+                <li key={`${change.type}-${change.tagId}`} className="px-2 py-1 text-sm flex items-center gap-2">
+                  <span className={`text-xs px-1.5 py-0.5 rounded ${TYPE_STYLES[change.type]}`}>{RESCAN_CHANGE_LABELS[change.type]}</span>
+                  <span className="font-mono text-gray-900">
+                    {change.type === 'changed' && change.previousText !== change.text ? `${change.previousText} → ${change.text}` : change.text}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {change.type === 'changed' && change.previousCategory !== change.category
+                      ? `${change.previousCategory} → ${change.category}`
+                      : change.category}
+                  </span>
+                  <span className="ml-auto text-xs text-gray-500">페이지 {change.page}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex items-center justify-end gap-2">
+          <button
+            onClick={onFullRescan}
+            className="mr-auto px-3 py-1.5 text-sm text-red-600 bg-red-50 rounded-md hover:bg-red-100"
+            title="기존 작업을 모두 지우고 처음부터 추출합니다"
+          >
+            전체 다시 스캔...
+          </button>
+          <button onClick={onClose} className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200">
+            취소
+          </button>
+          <button
+            onClick={onApply}
+            className="px-3 py-1.5 text-sm font-semibold text-white bg-sky-600 rounded-md hover:bg-sky-700 transition-colors"
+          >
+            적용
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
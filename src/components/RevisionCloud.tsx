@@ -0,0 +1,54 @@
+import React from 'react';
+import { RevisionChangeType } from '../types.ts';
+
+const CLOUD_COLORS: Record<RevisionChangeType, string> = {
+  added: '#16a34a',     // Green-600
+  removed: '#dc2626',   // Red-600
+  moved: '#2563eb',     // Blue-600
+  retexted: '#ea580c',  // Orange-600
+};
+
+interface RevisionCloudProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  type: RevisionChangeType;
+}
+
+// Scalloped outline around a rectangle, like the revision clouds drawn on P&IDs
+const buildCloudPath = (x: number, y: number, width: number, height: number) => {
+  const arc = Math.max(6, Math.min(width, height) / 2);
+  const countX = Math.max(1, Math.round(width / arc));
+  const countY = Math.max(1, Math.round(height / arc));
+  const stepX = width / countX;
+  const stepY = height / countY;
+  const radiusX = stepX / 2;
+  const radiusY = stepY / 2;
+
+  let path = `M ${x} ${y}`;
+  for (let i = 1; i <= countX; i++) path += ` A ${radiusX} ${radiusX} 0 0 1 ${x + stepX * i} ${y}`;
+  for (let i = 1; i <= countY; i++) path += ` A ${radiusY} ${radiusY} 0 0 1 ${x + width} ${y + stepY * i}`;
+  for (let i = 1; i <= countX; i++) path += ` A ${radiusX} ${radiusX} 0 0 1 ${x + width - stepX * i} ${y + height}`;
+  for (let i = 1; i <= countY; i++) path += ` A ${radiusY} ${radiusY} 0 0 1 ${x} ${y + height - stepY * i}`;
+  return `${path} Z`;
+};
+
+export const RevisionCloud: React.FC<RevisionCloudProps> = ({ x, y, width, height, type }) => {
+  const padding = 6;
+  const color = CLOUD_COLORS[type];
+  return (
+    <g pointerEvents="none">
+      <path
+        d={buildCloudPath(x - padding, y - padding, width + padding * 2, height + padding * 2)}
+        fill={type === 'removed' ? `${color}1A` : 'none'}
+        stroke={color}
+        strokeWidth="2"
+        strokeDasharray={type === 'removed' ? '4 3' : undefined}
+      />
+      {type === 'removed' && (
+        <line x1={x} y1={y + height} x2={x + width} y2={y} stroke={color} strokeWidth="1.5" />
+      )}
+    </g>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { RevisionChange, RevisionChangeType, RevisionComparison } from '../types.ts';
+import { REVISION_CHANGE_LABELS } from '../constants.ts';
+
+interface RevisionCompareModalProps {
+  comparison: RevisionComparison | null;
+  onCompare: (file: File) => Promise<void>;
+  onGoToChange: (change: RevisionChange) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const TYPE_STYLES: Record<RevisionChangeType, string> = {
+  added: 'bg-green-50 text-green-700',
+  removed: 'bg-red-50 text-red-700',
+  moved: 'bg-blue-50 text-blue-700',
+  retexted: 'bg-orange-50 text-orange-700',
+};
+
+const CHANGE_TYPES: RevisionChangeType[] = ['added', 'removed', 'moved', 'retexted'];
+
+export const RevisionCompareModal: React.FC<RevisionCompareModalProps> = ({ comparison, onCompare, onGoToChange, onClear, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<RevisionChangeType | 'All'>('All');
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Changes grouped by drawing number, in page order
+  const changesByDrawing = useMemo(() => {
+    const groups = new Map<string, RevisionChange[]>();
+    (comparison?.changes || [])
+      .filter(change => typeFilter === 'All' || change.type === typeFilter)
+      .sort((a, b) => a.page - b.page || a.text.localeCompare(b.text))
+      .forEach(change => groups.set(change.drawingNumber, [...(groups.get(change.drawingNumber) || []), change]));
+    return [...groups.entries()];
+  }, [comparison, typeFilter]);
+
+  const countByType = (type: RevisionChangeType) => comparison?.changes.filter(change => change.type === type).length || 0;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsComparing(true);
+    try {
+      await onCompare(file);
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900">리비전 비교</h2>
+          <button onClick={onClose} className="p-1 rounded-full text-gray-600 hover:bg-gray-100">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isComparing}
+              className="px-3 py-1.5 text-sm font-semibold text-white bg-sky-600 rounded-md hover:bg-sky-700 disabled:opacity-50 transition-colors"
+            >
+              {isComparing ? '비교 중...' : '이전 리비전 프로젝트 선택 (JSON)'}
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json" className="hidden" onChange={handleFileChange} />
+            {comparison && (
+              <>
+                <span className="text-sm text-gray-700 truncate">{comparison.previousFileName}</span>
+                <button onClick={onClear} className="text-xs text-red-600 hover:text-red-700">마커 지우기</button>
+              </>
+            )}
+          </div>
+          {!comparison && (
+            <p className="text-xs text-gray-600">
+              이전 리비전에서 내보낸 프로젝트 파일을 선택하면 현재 PDF와 도면번호별로 비교합니다.
+              변경되지 않은 태그의 검토 상태, 관계, 설명은 현재 PDF로 옮겨집니다.
+            </p>
+          )}
+
+          {comparison && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-center text-sm">
+                <button
+                  onClick={() => setTypeFilter('All')}
+                  className={`p-2 rounded bg-gray-100 text-gray-700 ${typeFilter === 'All' ? 'ring-2 ring-sky-500' : ''}`}
+                >
+                  변경 없음 <b>{comparison.unchangedCount}</b>
+                </button>
+                {CHANGE_TYPES.map(type => (
+                  <button
+                    key={type}
+                    onClick={() => setTypeFilter(prev => (prev === type ? 'All' : type))}
+                    className={`p-2 rounded ${TYPE_STYLES[type]} ${typeFilter === type ? 'ring-2 ring-sky-500' : ''}`}
+                  >
+                    {REVISION_CHANGE_LABELS[type]} <b>{countByType(type)}</b>
+                  </button>
+                ))}
+              </div>
+
+              <div className="text-xs text-gray-600">
+                옮겨진 항목: 검토 기록 {comparison.carriedOver.reviewed}개, 관계 {comparison.carriedOver.relationships}개, 설명 {comparison.carriedOver.descriptions}개
+              </div>
+              {comparison.newDrawings.length > 0 && (
+                <div className="text-xs text-gray-600">이전 리비전에 없는 도면 (비교 제외): {comparison.newDrawings.join(', ')}</div>
+              )}
+              {comparison.missingDrawings.length > 0 && (
+                <div className="text-xs text-amber-700">현재 PDF에 없는 도면: {comparison.missingDrawings.join(', ')}</div>
+              )}
+
+              {changesByDrawing.length === 0 ? (
+                <div className="text-center text-sm text-gray-500 py-6">표시할 변경 사항이 없습니다</div>
+              ) : (
+                changesByDrawing.map(([drawingNumber, changes]) => (
+                  <section key={drawingNumber}>
+                    <h3 className="text-sm font-semibold text-gray-800 mb-1 font-mono">{drawingNumber} ({changes.length})</h3>
+                    <ul className="border border-gray-200 rounded divide-y divide-gray-100">
+                      {changes.map(change => (
+                        <li key={change.id}>
+                          <button
+                            onClick={() => onGoToChange(change)}
+                            className="w-full text-left px-2 py-1 hover:bg-gray-100 text-sm flex items-center gap-2"
+                            title="도면에서 보기"
+                          >
+                            <span className={`text-xs px-1.5 py-0.5 rounded ${TYPE_STYLES[change.type]}`}>{REVISION_CHANGE_LABELS[change.type]}</span>
+                            <span className="font-mono text-gray-900">
+                              {change.type === 'retexted' ? `${change.previousText} → ${change.text}` : change.text}
+                            </span>
+                            <span className="text-xs text-gray-500">{change.category}</span>
+                            {change.type === 'moved' && <span className="text-xs text-gray-500">{change.distance}px</span>}
+                            <span className="ml-auto text-xs text-gray-500">페이지 {change.page}</span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                ))
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
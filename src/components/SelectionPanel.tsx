@@ -15,8 +15,13 @@ export const SelectionPanel = ({
   manualCreationData,
   onManualTagCreate,
   onClearManualCreation,
+  commentDraft,
+  commentDraftTag,
+  onCommentCreate,
+  onClearCommentDraft,
 }) => {
   const [manualTagText, setManualTagText] = useState('');
+  const [commentText, setCommentText] = useState('');
   const [isAlphabeticalSort, setIsAlphabeticalSort] = useState(false);
 
   useEffect(() => {
@@ -25,9 +30,62 @@ export const SelectionPanel = ({
     }
   }, [manualCreationData]);
 
+  useEffect(() => {
+    if (commentDraft) {
+      setCommentText('');
+    }
+  }, [commentDraft]);
+
   const hasSelectedTags = selectedTagIds.length > 0;
   const hasSelectedRawItems = selectedRawTextItemIds.length > 0;
 
+  if (commentDraft) {
+    const handleCreateComment = () => {
+      if (commentText.trim()) {
+        onCommentCreate(commentText.trim());
+      } else {
+        alert("코멘트 내용을 입력해주세요.");
+      }
+    };
+
+    return (
+      <div className="absolute bottom-5 left-1/2 -translate-x-1/2 w-full max-w-3xl z-20 px-4 animate-fade-in-up">
+        <div className="bg-white/95 backdrop-blur-lg border border-gray-200 rounded-xl shadow-2xl p-3">
+          <div className="flex justify-between items-center mb-2 px-1">
+            <h3 className="font-bold text-md text-gray-900">
+              코멘트 추가 <span className="text-sm font-normal text-gray-500">
+                ({commentDraftTag ? `태그 ${commentDraftTag.text}` : `페이지 ${commentDraft.page}`})
+              </span>
+            </h3>
+            <button
+              onClick={onClearCommentDraft}
+              className="text-sm font-semibold text-sky-400 hover:text-sky-300 transition-colors"
+            >
+              취소
+            </button>
+          </div>
+          <textarea
+            placeholder="코멘트 입력... (Ctrl+Enter로 추가)"
+            value={commentText}
+            onChange={(e) => setCommentText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleCreateComment();
+              if (e.key === 'Escape') onClearCommentDraft();
+            }}
+            rows={3}
+            className="w-full bg-white border border-gray-300 rounded-md px-3 py-2 text-sm focus:ring-sky-500 focus:border-sky-500"
+            autoFocus
+          />
+          <div className="flex justify-end pt-2">
+            <button onClick={handleCreateComment} className="px-3 py-1.5 text-sm font-semibold text-white bg-amber-500 rounded-md hover:bg-amber-600 transition-colors">
+              추가
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (manualCreationData) {
     const handleCreate = (category) => {
       if (manualTagText.trim()) {
@@ -62,7 +120,7 @@ export const SelectionPanel = ({
           <div className="flex items-center justify-between border-t border-slate-700 pt-2">
             <span className="text-sm font-semibold text-gray-700">카테고리 선택:</span>
             <div className="flex items-center space-x-2">
-              <button onClick={() => handleCreate(Category.Uncategorized)} className="px-3 py-1.5 text-sm font-semibold text-gray-900 bg-orange-600 rounded-md hover:bg-orange-700 transition-colors flex items-center space-x-1">
+              <button onClick={() => handleCreate(Category.Equipment)} className="px-3 py-1.5 text-sm font-semibold text-gray-900 bg-orange-600 rounded-md hover:bg-orange-700 transition-colors flex items-center space-x-1">
                 <span className="bg-white/20 px-1.5 py-0.5 rounded text-xs font-mono">1</span>
                 <span>장비</span>
               </button>
@@ -82,6 +140,10 @@ export const SelectionPanel = ({
                 <span className="bg-white/20 px-1.5 py-0.5 rounded text-xs font-mono">5</span>
                 <span>노트/홀드</span>
               </button>
+              <button onClick={() => handleCreate(Category.OffPageConnector)} className="px-3 py-1.5 text-sm font-semibold text-gray-900 bg-violet-500 rounded-md hover:bg-violet-600 transition-colors flex items-center space-x-1">
+                <span className="bg-white/20 px-1.5 py-0.5 rounded text-xs font-mono">6</span>
+                <span>OPC</span>
+              </button>
               <button onClick={() => handleCreate(Category.DrawingNumber)} className="px-3 py-1.5 text-sm font-semibold text-gray-900 bg-indigo-600 rounded-md hover:bg-indigo-700 transition-colors">도면 번호</button>
             </div>
           </div>
@@ -193,9 +255,11 @@ export const SelectionPanel = ({
               const categorySortOrder = {
                 [Category.Line]: 0,
                 [Category.Instrument]: 1,
-                [Category.DrawingNumber]: 2,
-                [Category.NotesAndHolds]: 3,
-                [Category.Uncategorized]: 4,
+                [Category.Equipment]: 2,
+                [Category.DrawingNumber]: 3,
+                [Category.NotesAndHolds]: 4,
+                [Category.OffPageConnector]: 5,
+                [Category.Uncategorized]: 6,
               };
 
               selectedTags = [...selectedTags].sort((a, b) => {
@@ -1,8 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import { Category, AppSettings, ColorSettings } from '../types.ts';
+import React, { useState, useEffect, useRef } from 'react';
+import { Category, AppSettings, ColorSettings, LineNumberField, LineNumberGrammar, PatternPreviewResult, SettingsProfile, ValidationRuleConfig, ValidationRuleId, ValidationSeverity } from '../types.ts';
 import { DEFAULT_PATTERNS, DEFAULT_TOLERANCES, DEFAULT_SETTINGS, DEFAULT_COLORS, EXTERNAL_LINKS } from '../constants.ts';
 import { generateRegexFromSamples } from '../services/regexGenerator.ts';
+import { buildLineNumberRegex, parseLineNumber, LINE_NUMBER_FIELD_LABELS } from '../services/lineNumberParser.ts';
+import { VALIDATION_RULES, getValidationRuleConfig } from '../services/validationService.ts';
+import { decodeFunctionCode, resolveInstrumentType } from '../services/isaDecoder.ts';
 import { generateRegexWithOpenAI, getStoredAPIKey, saveAPIKey, testOpenAIAPIKey } from '../services/openaiApi.ts';
+import { findInvalidPatterns } from '../services/patternPreviewService.ts';
+import {
+  createSettingsProfile,
+  exportSettingsProfile,
+  loadSettingsProfiles,
+  parseSettingsProfileFile,
+  saveSettingsProfiles,
+  upsertSettingsProfile,
+} from '../services/settingsProfileService.ts';
+import { PatternPreviewPanel } from './PatternPreviewPanel.tsx';
 
 const RegexHelp = () => {
   const cheatSheet = [
@@ -39,7 +52,114 @@ const RegexHelp = () => {
   );
 };
 
-export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings, onSaveOnly, onSaveAndRescan, onClose }) => {
+// Segment order and per-segment regex used to split Line tags for the Line List export
+const LineNumberGrammarEditor = ({ grammar, onChange }: { grammar: LineNumberGrammar; onChange: (grammar: LineNumberGrammar) => void }) => {
+  const [sample, setSample] = useState('8"-PL-30001-C1C-INS');
+  const isGrammarValid = buildLineNumberRegex(grammar) !== null;
+  const parsed = sample.trim() ? parseLineNumber(sample, grammar) : null;
+
+  const updateSegment = (index: number, updates: Partial<LineNumberGrammar['segments'][number]>) => {
+    onChange({ ...grammar, segments: grammar.segments.map((segment, i) => (i === index ? { ...segment, ...updates } : segment)) });
+  };
+
+  const moveSegment = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= grammar.segments.length) return;
+    const segments = [...grammar.segments];
+    [segments[index], segments[target]] = [segments[target], segments[index]];
+    onChange({ ...grammar, segments });
+  };
+
+  const removeSegment = (index: number) => {
+    onChange({ ...grammar, segments: grammar.segments.filter((_, i) => i !== index) });
+  };
+
+  const addSegment = () => {
+    const usedFields = new Set(grammar.segments.map(segment => segment.field));
+    const field = (Object.keys(LINE_NUMBER_FIELD_LABELS) as LineNumberField[]).find(f => !usedFields.has(f)) || 'suffix';
+    onChange({ ...grammar, segments: [...grammar.segments, { field, pattern: '[A-Z0-9]+', optional: true }] });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <label htmlFor="line-grammar-separator" className="text-xs font-medium text-gray-700">구분자</label>
+        <input
+          id="line-grammar-separator"
+          type="text"
+          value={grammar.separator}
+          onChange={(e) => onChange({ ...grammar, separator: e.target.value })}
+          className="w-20 bg-white border border-gray-300 rounded-md p-1 text-xs font-mono text-gray-900 focus:ring-sky-500 focus:border-sky-500"
+        />
+      </div>
+      {grammar.segments.map((segment, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <select
+            value={segment.field}
+            onChange={(e) => updateSegment(index, { field: e.target.value as LineNumberField })}
+            className="w-28 bg-white border border-gray-300 rounded-md p-1 text-xs text-gray-900"
+          >
+            {(Object.keys(LINE_NUMBER_FIELD_LABELS) as LineNumberField[]).map(field => (
+              <option key={field} value={field}>{LINE_NUMBER_FIELD_LABELS[field]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={segment.pattern}
+            onChange={(e) => updateSegment(index, { pattern: e.target.value })}
+            className="flex-grow min-w-0 bg-white border border-gray-300 rounded-md p-1 text-xs font-mono text-gray-900 focus:ring-sky-500 focus:border-sky-500"
+          />
+          <label className="flex items-center text-xs text-gray-600" title="생략 가능">
+            <input
+              type="checkbox"
+              checked={segment.optional === true}
+              onChange={(e) => updateSegment(index, { optional: e.target.checked })}
+              className="mr-1"
+            />
+            선택
+          </label>
+          <button onClick={() => moveSegment(index, -1)} disabled={index === 0} className="px-1 text-xs text-gray-600 hover:text-gray-900 disabled:opacity-30" title="위로">▲</button>
+          <button onClick={() => moveSegment(index, 1)} disabled={index === grammar.segments.length - 1} className="px-1 text-xs text-gray-600 hover:text-gray-900 disabled:opacity-30" title="아래로">▼</button>
+          <button onClick={() => removeSegment(index)} className="px-1 text-xs text-red-500 hover:text-red-700" title="삭제">✕</button>
+        </div>
+      ))}
+      <button onClick={addSegment} className="text-xs text-sky-600 hover:text-sky-700">+ 구간 추가</button>
+      {!isGrammarValid && (
+        <p className="text-xs text-red-600">정규식이 올바르지 않습니다. 모든 라인 번호가 형식 불일치로 표시됩니다.</p>
+      )}
+      <div>
+        <label htmlFor="line-grammar-sample" className="block text-xs font-medium text-gray-700 mb-1">테스트</label>
+        <input
+          id="line-grammar-sample"
+          type="text"
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          className="w-full bg-white border border-gray-300 rounded-md p-1 text-xs font-mono text-gray-900 focus:ring-sky-500 focus:border-sky-500"
+        />
+        {parsed && (
+          parsed.isValid ? (
+            <div className="mt-1 text-xs text-gray-700 space-y-0.5">
+              {(Object.keys(LINE_NUMBER_FIELD_LABELS) as LineNumberField[])
+                .filter(field => parsed[field])
+                .map(field => (
+                  <div key={field}>
+                    <span className="text-gray-500">{LINE_NUMBER_FIELD_LABELS[field]}:</span> <span className="font-mono">{parsed[field]}</span>
+                    {field === 'size' && parsed.sizeInches !== undefined && (
+                      <span className="text-gray-500"> ({parsed.sizeInches}in / DN{parsed.sizeDn})</span>
+                    )}
+                  </div>
+                ))}
+            </div>
+          ) : (
+            <p className="mt-1 text-xs text-amber-700">형식과 일치하지 않습니다.</p>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings, activeProfileName, tags, rawTextItems, onSaveOnly, onSaveAndRescan, onClose }) => {
   const [localPatterns, setLocalPatterns] = useState(patterns);
   const [localTolerances, setLocalTolerances] = useState(tolerances);
   const [localAppSettings, setLocalAppSettings] = useState(appSettings);
@@ -48,6 +168,15 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
   const [localLoopRules, setLocalLoopRules] = useState(appSettings.loopRules || DEFAULT_SETTINGS.loopRules || {});
   const [showRegexHelp, setShowRegexHelp] = useState(false);
   const [activeTab, setActiveTab] = useState('patterns');
+  const [patternPreview, setPatternPreview] = useState<PatternPreviewResult | null>(null);
+  const [profiles, setProfiles] = useState<SettingsProfile[]>(loadSettingsProfiles);
+  // The profile the saved settings belong to; it is only switched in App on save
+  const [localProfileName, setLocalProfileName] = useState<string | null>(activeProfileName);
+  // Set once the profile is picked, created or imported here. A profile that only came along with
+  // a loaded project or the last session is not written back without asking.
+  const [isProfileChosenHere, setIsProfileChosenHere] = useState(false);
+  const [newProfileName, setNewProfileName] = useState('');
+  const profileFileInputRef = useRef<HTMLInputElement>(null);
 
   // Clear search queries when tab changes
   const handleTabChange = (tab: string) => {
@@ -59,6 +188,7 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
   // Search states for instrument mappings and loop rules
   const [instrumentSearchQuery, setInstrumentSearchQuery] = useState('');
   const [loopRulesSearchQuery, setLoopRulesSearchQuery] = useState('');
+  const [decoderSample, setDecoderSample] = useState('');
 
   // State for AI regex generation
   const [sampleLine, setSampleLine] = useState('');
@@ -79,24 +209,121 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [onClose]);
 
+  // Include instrument mappings and loop rules in app settings
+  const buildAppSettings = (): AppSettings => ({
+    ...localAppSettings,
+    instrumentMappings: localInstrumentMappings,
+    loopRules: localLoopRules
+  });
+
+  const updateProfiles = (nextProfiles: SettingsProfile[]) => {
+    setProfiles(nextProfiles);
+    saveSettingsProfiles(nextProfiles);
+  };
+
+  // Saving while a profile is selected keeps that profile in step with the settings
+  const saveToSelectedProfile = (updatedAppSettings: AppSettings) => {
+    if (!localProfileName) return;
+    const profile = createSettingsProfile(localProfileName, localPatterns, localTolerances, updatedAppSettings, localColorSettings);
+    if (!isProfileChosenHere) {
+      const stored = profiles.find(p => p.name === localProfileName);
+      const settingsOf = (p: SettingsProfile) => JSON.stringify([p.patterns, p.tolerances, p.appSettings, p.colorSettings]);
+      if (stored && settingsOf(stored) === settingsOf(profile)) return;
+      const question = stored
+        ? `이 브라우저의 프로필 "${localProfileName}"을(를) 현재 설정으로 덮어쓰시겠습니까?`
+        : `프로필 "${localProfileName}"이(가) 이 브라우저에 없습니다. 현재 설정으로 프로필을 만드시겠습니까?`;
+      if (!window.confirm(question)) return;
+    }
+    updateProfiles(upsertSettingsProfile(profiles, profile));
+  };
+
+  const loadProfile = (profile: SettingsProfile) => {
+    setLocalPatterns(profile.patterns);
+    setLocalTolerances(profile.tolerances);
+    setLocalAppSettings(profile.appSettings);
+    setLocalColorSettings(profile.colorSettings);
+    setLocalInstrumentMappings(profile.appSettings.instrumentMappings || {});
+    setLocalLoopRules(profile.appSettings.loopRules || {});
+    setLocalProfileName(profile.name);
+    setIsProfileChosenHere(true);
+  };
+
+  const handleProfileSelect = (name: string) => {
+    if (!name) {
+      setLocalProfileName(null);
+      return;
+    }
+    // The entry for a profile missing from this browser has nothing to load
+    const profile = profiles.find(p => p.name === name);
+    if (profile) loadProfile(profile);
+  };
+
+  const handleCreateProfile = () => {
+    const name = newProfileName.trim();
+    if (!name) return;
+    if (profiles.some(p => p.name === name) && !window.confirm(`프로필 "${name}"이(가) 이미 있습니다. 현재 설정으로 덮어쓰시겠습니까?`)) {
+      return;
+    }
+    updateProfiles(upsertSettingsProfile(
+      profiles,
+      createSettingsProfile(name, localPatterns, localTolerances, buildAppSettings(), localColorSettings)
+    ));
+    setLocalProfileName(name);
+    setIsProfileChosenHere(true);
+    setNewProfileName('');
+  };
+
+  const handleDeleteProfile = () => {
+    if (!localProfileName || !window.confirm(`프로필 "${localProfileName}"을(를) 삭제하시겠습니까? 현재 설정은 그대로 유지됩니다.`)) {
+      return;
+    }
+    updateProfiles(profiles.filter(p => p.name !== localProfileName));
+    setLocalProfileName(null);
+  };
+
+  // Export what is on screen, so unsaved edits to the selected profile go out too
+  const handleExportProfile = () => {
+    if (!localProfileName) return;
+    exportSettingsProfile(createSettingsProfile(localProfileName, localPatterns, localTolerances, buildAppSettings(), localColorSettings));
+  };
+
+  const handleImportProfile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const profile = parseSettingsProfileFile(await file.text());
+      if (profiles.some(p => p.name === profile.name) && !window.confirm(`프로필 "${profile.name}"이(가) 이미 있습니다. 가져온 프로필로 덮어쓰시겠습니까?`)) {
+        return;
+      }
+      updateProfiles(upsertSettingsProfile(profiles, profile));
+      loadProfile(profile);
+    } catch (error) {
+      alert(`프로필을 가져오지 못했습니다: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
   const handleSaveOnly = () => {
-    // Include instrument mappings and loop rules in app settings
-    const updatedAppSettings = {
-      ...localAppSettings,
-      instrumentMappings: localInstrumentMappings,
-      loopRules: localLoopRules
-    };
-    onSaveOnly(localPatterns, localTolerances, updatedAppSettings, localColorSettings);
+    const updatedAppSettings = buildAppSettings();
+    saveToSelectedProfile(updatedAppSettings);
+    onSaveOnly(localPatterns, localTolerances, updatedAppSettings, localColorSettings, localProfileName);
   };
 
   const handleSaveAndRescan = () => {
-    // Include instrument mappings and loop rules in app settings
-    const updatedAppSettings = {
-      ...localAppSettings,
-      instrumentMappings: localInstrumentMappings,
-      loopRules: localLoopRules
-    };
-    onSaveAndRescan(localPatterns, localTolerances, updatedAppSettings, localColorSettings, activeTab);
+    // A pattern that does not compile or never finishes would make the rescan useless or hang it.
+    // The preview may lag behind the latest edit, so compile errors are checked here against the
+    // patterns being saved; only timeouts come from the preview, and only those of the edited patterns.
+    const blockingIssues = [
+      ...findInvalidPatterns(localPatterns),
+      ...(patternPreview?.issues || []).filter(issue => issue.kind === 'timeout' && issue.run === 'candidate'),
+    ];
+    if (activeTab === 'patterns' && blockingIssues.length > 0) {
+      alert(`다시 스캔하기 전에 다음 패턴을 수정해주세요:\n\n${blockingIssues.map(issue => `• ${issue.category}: ${issue.message}`).join('\n')}`);
+      return;
+    }
+    const updatedAppSettings = buildAppSettings();
+    saveToSelectedProfile(updatedAppSettings);
+    onSaveAndRescan(localPatterns, localTolerances, updatedAppSettings, localColorSettings, activeTab, localProfileName);
   };
   
   const handleReset = () => {
@@ -116,6 +343,16 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
     setLoopRulesSearchQuery('');
   }
 
+  const handleValidationRuleChange = (ruleId: ValidationRuleId, changes: Partial<ValidationRuleConfig>) => {
+    setLocalAppSettings(prev => ({
+      ...prev,
+      validationRules: {
+        ...prev.validationRules,
+        [ruleId]: { ...getValidationRuleConfig(prev.validationRules, ruleId), ...changes },
+      },
+    }));
+  };
+
   const handlePatternChange = (category, value) => {
     setLocalPatterns(prev => ({...prev, [category]: value}));
   };
@@ -150,15 +387,21 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
     [Category.Instrument]: {
         description: "기능 코드와 번호로 구성된 계기 태그를 매칭하기 위한 두 부분 패턴입니다."
     },
+    [Category.Equipment]: {
+        description: "펌프, 용기, 열교환기 등 장비 태그(P-101A, V-2001, E-301)를 매칭하기 위한 패턴입니다."
+    },
     [Category.DrawingNumber]: {
         description: "도면 번호를 식별하기 위한 패턴입니다. 페이지당 하나만 선택되며, 우하단에서 선택됩니다."
     },
     [Category.NotesAndHolds]: {
         description: "노트 및 홀드 주석을 매칭하기 위한 패턴입니다."
+    },
+    [Category.OffPageConnector]: {
+        description: "OPC(Off-Page Connector) 참조 텍스트를 매칭하기 위한 패턴입니다. 옆에 표기된 도착 도면 번호는 자동으로 인식되어 다른 페이지의 OPC와 연결됩니다."
     }
   };
 
-  const categories = [Category.Line, Category.Instrument, Category.DrawingNumber, Category.NotesAndHolds];
+  const categories = [Category.Line, Category.Instrument, Category.Equipment, Category.DrawingNumber, Category.NotesAndHolds, Category.OffPageConnector];
   
   const instrumentCurrentTolerances = localTolerances[Category.Instrument] || { vertical: 0, horizontal: 0, autoLinkDistance: 50 };
 
@@ -183,6 +426,66 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
             </button>
           </div>
 
+          {/* Settings profiles, one per client drawing standard */}
+          <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+            <label htmlFor="settings-profile" className="font-medium text-gray-700">프로필</label>
+            <select
+              id="settings-profile"
+              value={localProfileName ?? ''}
+              onChange={(e) => handleProfileSelect(e.target.value)}
+              className="bg-white border border-gray-300 rounded-md px-2 py-1 text-gray-900 min-w-[12rem]"
+            >
+              <option value="">(프로필 없음)</option>
+              {localProfileName && !profiles.some(p => p.name === localProfileName) && (
+                <option value={localProfileName}>{localProfileName} (이 브라우저에 없음)</option>
+              )}
+              {profiles.map(profile => (
+                <option key={profile.name} value={profile.name}>{profile.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleExportProfile}
+              disabled={!localProfileName}
+              className="px-2 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+            >
+              내보내기
+            </button>
+            <button
+              onClick={handleDeleteProfile}
+              disabled={!profiles.some(p => p.name === localProfileName)}
+              className="px-2 py-1 rounded-md text-red-600 hover:bg-red-50 disabled:opacity-50"
+            >
+              삭제
+            </button>
+            <button
+              onClick={() => profileFileInputRef.current?.click()}
+              className="px-2 py-1 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100"
+            >
+              가져오기
+            </button>
+            <input ref={profileFileInputRef} type="file" accept=".json,application/json" onChange={handleImportProfile} className="hidden" />
+            <div className="flex items-center gap-1 ml-auto">
+              <input
+                type="text"
+                value={newProfileName}
+                onChange={(e) => setNewProfileName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleCreateProfile(); }}
+                placeholder="새 프로필 이름"
+                className="bg-white border border-gray-300 rounded-md px-2 py-1 text-gray-900 w-40"
+              />
+              <button
+                onClick={handleCreateProfile}
+                disabled={!newProfileName.trim()}
+                className="px-2 py-1 rounded-md bg-sky-600 text-white hover:bg-sky-700 disabled:opacity-50"
+              >
+                현재 설정으로 만들기
+              </button>
+            </div>
+            <p className="w-full text-xs text-gray-500">
+              프로필을 선택하면 그 설정을 불러옵니다. 저장하면 선택한 프로필에도 반영되고, 프로젝트 파일에 프로필 이름이 기록됩니다.
+            </p>
+          </div>
+
           {/* Tab Navigation */}
           <div className="flex space-x-1">
             <button
@@ -215,6 +518,16 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
             >
               Loop Number
             </button>
+            <button
+              onClick={() => handleTabChange('validation')}
+              className={`px-4 py-2 text-sm font-medium rounded-t-lg transition-colors ${
+                activeTab === 'validation'
+                  ? 'bg-gray-200 text-gray-900'
+                  : 'bg-transparent text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+            >
+              검증 규칙
+            </button>
           </div>
         </div>
 
@@ -253,6 +566,31 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
                       </div>
                     </div>
 
+                    {/* Line number grammar */}
+                    <div>
+                      <label className="block text-xs font-medium text-gray-700 mb-1">라인 번호 구성 (Line List 내보내기)</label>
+                      <LineNumberGrammarEditor
+                        grammar={localAppSettings.lineNumberGrammar || DEFAULT_SETTINGS.lineNumberGrammar}
+                        onChange={(lineNumberGrammar) => setLocalAppSettings(prev => ({ ...prev, lineNumberGrammar }))}
+                      />
+                    </div>
+
+                  </div>
+
+                  {/* Equipment */}
+                  <div className="p-3 bg-white border border-gray-300 rounded-lg">
+                    <label htmlFor={`pattern-${Category.Equipment}`} className="block text-sm font-semibold mb-2 text-gray-800">장비</label>
+                    <input
+                      id={`pattern-${Category.Equipment}`}
+                      type="text"
+                      value={localPatterns[Category.Equipment] || ''}
+                      onChange={(e) => handlePatternChange(Category.Equipment, e.target.value)}
+                      className="w-full bg-white border border-gray-300 rounded-md p-2 text-sm font-mono text-gray-900 focus:ring-sky-500 focus:border-sky-500"
+                      placeholder="장비를 위한 정규식 패턴 입력..."
+                    />
+                    <div className="mt-1 text-xs text-gray-600">
+                      <p>{categoryInfo[Category.Equipment].description}</p>
+                    </div>
                   </div>
                 </div>
 
@@ -341,6 +679,29 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
                           </div>
                       )
                   })()}
+
+                  {/* Off-Page Connector */}
+                  {(() => {
+                      const info = categoryInfo[Category.OffPageConnector];
+                      return (
+                          <div key={Category.OffPageConnector} className="p-3 bg-white border border-gray-300 rounded-lg">
+                              <label htmlFor={`pattern-${Category.OffPageConnector}`} className="block text-sm font-semibold mb-2 text-gray-800">OPC</label>
+                              <input
+                                  id={`pattern-${Category.OffPageConnector}`}
+                                  type="text"
+                                  value={localPatterns[Category.OffPageConnector] || ''}
+                                  onChange={(e) => handlePatternChange(Category.OffPageConnector, e.target.value)}
+                                  className="w-full bg-white border border-gray-300 rounded-md p-3 text-sm font-mono text-gray-900 focus:ring-sky-500 focus:border-sky-500"
+                                  placeholder="OPC를 위한 정규식 패턴 입력..."
+                              />
+                              {info && (
+                                  <div className="mt-2 text-xs text-gray-600">
+                                      <p>{info.description}</p>
+                                  </div>
+                              )}
+                          </div>
+                      )
+                  })()}
                 </div>
               </div>
             </div>
@@ -677,6 +1038,21 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
                 * 영역 단위가 <b>%</b>인 경우 페이지 폭/높이 대비 상대값입니다. (top/bottom/right/left)
               </p>
             </div>
+
+            {/* Live preview of the edited patterns against the current document */}
+            <div className="lg:col-span-3 p-3 bg-white border border-gray-300 rounded-lg">
+              <h4 className="text-sm font-semibold mb-3 text-gray-800">패턴 미리보기</h4>
+              <PatternPreviewPanel
+                tags={tags}
+                rawTextItems={rawTextItems}
+                currentPatterns={patterns}
+                currentTolerances={tolerances}
+                candidatePatterns={localPatterns}
+                candidateTolerances={localTolerances}
+                appSettings={localAppSettings}
+                onResult={setPatternPreview}
+              />
+            </div>
           </div>
 
         ) : activeTab === 'instruments' ? (
@@ -741,6 +1117,35 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
                 </div>
               </div>
 
+              {/* ISA-5.1 decoder preview */}
+              <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded">
+                <h4 className="text-sm font-semibold text-gray-700 mb-1">ISA-5.1 자동 해석</h4>
+                <p className="text-xs text-gray-600 mb-2">
+                  매핑에 없는 태그는 ISA-5.1 문자(첫 문자, 수식 문자, 기능 문자)로 계기 타입을 만듭니다. 매핑이 있으면 매핑이 우선합니다.
+                </p>
+                <input
+                  type="text"
+                  placeholder="태그 입력 (예: PDIT-101)"
+                  value={decoderSample}
+                  onChange={(e) => setDecoderSample(e.target.value)}
+                  className="w-full bg-white border border-gray-300 rounded px-2 py-1 text-sm text-gray-900 font-mono"
+                />
+                {decoderSample.trim() && (() => {
+                  const info = resolveInstrumentType(decoderSample.trim(), localInstrumentMappings);
+                  if (info.source === 'unknown') {
+                    return <p className="mt-2 text-xs text-red-600">해석할 수 없는 태그입니다{info.functionCode ? ` (${info.functionCode})` : ''}</p>;
+                  }
+                  return (
+                    <p className="mt-2 text-xs text-gray-700">
+                      <span className="font-mono font-semibold">{info.functionCode}</span> → {info.instrumentType} / {info.ioType || '-'}
+                      <span className={`ml-2 px-1.5 py-0.5 rounded ${info.source === 'mapped' ? 'bg-emerald-100 text-emerald-700' : 'bg-sky-100 text-sky-700'}`}>
+                        {info.source === 'mapped' ? '매핑' : '자동 해석'}
+                      </span>
+                    </p>
+                  );
+                })()}
+              </div>
+
               </div>
 
               {/* Existing Mappings */}
@@ -776,6 +1181,7 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
                         <th className="text-left py-2 px-2 text-gray-700">패턴</th>
                         <th className="text-left py-2 px-2 text-gray-700">계기 타입</th>
                         <th className="text-left py-2 px-2 text-gray-700">I/O 타입</th>
+                        <th className="text-left py-2 px-2 text-gray-700">자동 해석</th>
                         <th className="py-2 px-2"></th>
                       </tr>
                     </thead>
@@ -794,7 +1200,7 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
                         if (filteredMappings.length === 0) {
                           return (
                             <tr>
-                              <td colSpan={4} className="py-8 text-center text-gray-500">
+                              <td colSpan={5} className="py-8 text-center text-gray-500">
                                 검색 결과가 없습니다
                               </td>
                             </tr>
@@ -835,6 +1241,15 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
                               <option value="Local">Local</option>
                             </select>
                           </td>
+                          <td className="py-2 px-2 text-xs text-gray-500">
+                            {(() => {
+                              // Rows the decoder already gets right are candidates for removal
+                              const decoded = decodeFunctionCode(pattern);
+                              if (!decoded) return '-';
+                              const isSame = decoded.instrumentType === mapping.instrumentType && decoded.ioType === mapping.ioType;
+                              return <span className={isSame ? 'text-emerald-600' : ''} title={isSame ? '매핑 없이도 같은 결과' : undefined}>{decoded.instrumentType} / {decoded.ioType || '-'}</span>;
+                            })()}
+                          </td>
                           <td className="py-2 px-2">
                             <button
                               onClick={() => {
@@ -1053,6 +1468,56 @@ export const SettingsModal = ({ patterns, tolerances, appSettings, colorSettings
               </div>
             </div>
           </div>
+        ) : activeTab === 'validation' ? (
+          /* Validation Rules Tab Content */
+          <div className="border border-gray-300 rounded-lg p-4">
+            <h3 className="text-lg font-semibold mb-2 text-gray-900">검증 규칙</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              사이드 패널의 이슈 탭과 엑셀의 Issues 시트에 사용할 규칙과 심각도를 설정하세요.
+            </p>
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr className="border-b border-gray-300">
+                  <th className="py-2 px-2 w-12 text-gray-700">사용</th>
+                  <th className="text-left py-2 px-2 text-gray-700">규칙</th>
+                  <th className="text-left py-2 px-2 w-32 text-gray-700">심각도</th>
+                </tr>
+              </thead>
+              <tbody>
+                {VALIDATION_RULES.map(rule => {
+                  const config = getValidationRuleConfig(localAppSettings.validationRules, rule.id);
+                  return (
+                    <tr key={rule.id} className="border-b border-gray-200">
+                      <td className="py-2 px-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={config.enabled}
+                          onChange={(e) => handleValidationRuleChange(rule.id, { enabled: e.target.checked })}
+                          className="h-4 w-4 text-sky-600 rounded border-gray-300 focus:ring-sky-500"
+                        />
+                      </td>
+                      <td className="py-2 px-2">
+                        <div className={`font-medium ${config.enabled ? 'text-gray-900' : 'text-gray-400'}`}>{rule.label}</div>
+                        <div className="text-xs text-gray-500">{rule.description}</div>
+                      </td>
+                      <td className="py-2 px-2">
+                        <select
+                          value={config.severity}
+                          disabled={!config.enabled}
+                          onChange={(e) => handleValidationRuleChange(rule.id, { severity: e.target.value as ValidationSeverity })}
+                          className="w-full bg-white border border-gray-300 rounded-md p-1 text-sm text-gray-900 disabled:opacity-50"
+                        >
+                          <option value="error">Error</option>
+                          <option value="warning">Warning</option>
+                          <option value="info">Info</option>
+                        </select>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
         ) : null}
         </div>
         <div className="p-4 border-t border-gray-200 flex justify-between items-center">
@@ -1,7 +1,35 @@
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
-import { Category, RelationshipType } from '../types.ts';
-import { CATEGORY_COLORS } from '../constants.ts';
+import { Category, CategoryType, DrawingComment, DrawingReviewProgress, NearMiss, RelationshipType, LineNumberGrammar, ReviewStatus, ValidationIssue, ValidationSeverity } from '../types.ts';
+import { CATEGORY_COLORS, CONFIDENCE_THRESHOLDS, REVIEW_STATUS_LABELS } from '../constants.ts';
 import { exportToExcel } from '../services/excelExporter.ts';
+import { parseLineNumber } from '../services/lineNumberParser.ts';
+import { pairOffPageConnectors, findUnpairedConnectors } from '../services/opcService.ts';
+import { validateProject, VALIDATION_RULES } from '../services/validationService.ts';
+import { applyReview, getReviewStatus, getStoredReviewerName, saveReviewerName, summarizeReviewProgress } from '../services/reviewService.ts';
+import { setCommentResolved } from '../services/commentService.ts';
+import { findNearMisses } from '../services/nearMissService.ts';
+import { assignDocumentId } from '../services/documentWorkspace.ts';
+
+const SEVERITY_STYLES: Record<ValidationSeverity, string> = {
+  error: 'bg-red-50 text-red-700',
+  warning: 'bg-amber-50 text-amber-700',
+  info: 'bg-sky-50 text-sky-700',
+};
+
+const REVIEW_STATUS_STYLES: Record<ReviewStatus, string> = {
+  unreviewed: 'bg-gray-100 text-gray-600 border-gray-300',
+  approved: 'bg-emerald-50 text-emerald-700 border-emerald-300',
+  rejected: 'bg-red-50 text-red-700 border-red-300',
+  query: 'bg-amber-50 text-amber-700 border-amber-300',
+};
+
+const REVIEW_STATUSES = Object.keys(REVIEW_STATUS_LABELS) as ReviewStatus[];
+
+const SEVERITY_LABELS: Record<ValidationSeverity, string> = {
+  error: '오류',
+  warning: '경고',
+  info: '정보',
+};
 
 const DeleteRelationshipButton = React.memo(({ onClick }: { onClick: () => void }) => (
   <button
@@ -160,7 +188,7 @@ interface TagListItemProps {
   allRawTextItems: any[];
   descriptions: any[];
   loops: any[];
-  onToggleReviewStatus: (tagId: string) => void;
+  onUpdateReview: (tagId: string, status: ReviewStatus, comment?: string) => void;
   onDeleteRelationship: (relId: any) => void;
   onDeleteTag: (tagId: string) => void;
   onUpdateTagText: (tagId: string, newText: string) => void;
@@ -168,9 +196,10 @@ interface TagListItemProps {
   onUpdateItemText: (itemId: string, newText: string) => void;
   onUpdateLoop: (loopId: string, updates: any) => void;
   showDetails: boolean;
+  lineNumberGrammar?: LineNumberGrammar;
 }
 
-const TagListItem: React.FC<TagListItemProps> = React.memo(({ tag, isSelected, onItemClick, onGoToTag, relationships, allTags, allRawTextItems, descriptions, loops, onToggleReviewStatus, onDeleteRelationship, onDeleteTag, onUpdateTagText, onDeleteItem, onUpdateItemText, onUpdateLoop, showDetails }) => {
+const TagListItem: React.FC<TagListItemProps> = React.memo(({ tag, isSelected, onItemClick, onGoToTag, relationships, allTags, allRawTextItems, descriptions, loops, onUpdateReview, onDeleteRelationship, onDeleteTag, onUpdateTagText, onDeleteItem, onUpdateItemText, onUpdateLoop, showDetails, lineNumberGrammar }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editText, setEditText] = useState(tag.text);
   const [expandedDescriptions, setExpandedDescriptions] = useState(new Set());
@@ -178,17 +207,25 @@ const TagListItem: React.FC<TagListItemProps> = React.memo(({ tag, isSelected, o
   const [expandedLoops, setExpandedLoops] = useState(new Set());
   const inputRef = useRef<HTMLInputElement>(null);
   const isTogglingExpansion = useRef(false);
+  const reviewStatus = getReviewStatus(tag);
+  const [reviewComment, setReviewComment] = useState(tag.review?.comment || '');
   
   const colors = CATEGORY_COLORS[tag.category];
   const categoryLetters = {
     [Category.Line]: 'L',
     [Category.Instrument]: 'I',
+    [Category.Equipment]: 'E',
     [Category.DrawingNumber]: 'D',
     [Category.NotesAndHolds]: 'N',
+    [Category.OffPageConnector]: 'O',
     [Category.Uncategorized]: 'U'
   };
   const tagMap = useMemo(() => new Map(allTags.map(t => [t.id, t])), [allTags]);
   const rawTextItemMap = useMemo(() => new Map(allRawTextItems.map(item => [item.id, item])), [allRawTextItems]);
+  const parsedLineNumber = useMemo(
+    () => (tag.category === Category.Line ? parseLineNumber(tag.text, lineNumberGrammar) : null),
+    [tag.category, tag.text, lineNumberGrammar]
+  );
   
   useEffect(() => {
     if (isEditing && inputRef.current) {
@@ -201,6 +238,16 @@ const TagListItem: React.FC<TagListItemProps> = React.memo(({ tag, isSelected, o
     setEditText(tag.text);
   }, [tag.text]);
 
+  useEffect(() => {
+    setReviewComment(tag.review?.comment || '');
+  }, [tag.review?.comment]);
+
+  const handleSaveReviewComment = () => {
+    if (reviewComment.trim() !== (tag.review?.comment || '')) {
+      onUpdateReview(tag.id, reviewStatus, reviewComment.trim());
+    }
+  };
+
   const handleSave = () => {
     const trimmedText = editText.trim();
     if (trimmedText && trimmedText !== tag.text) {
@@ -287,13 +334,13 @@ const TagListItem: React.FC<TagListItemProps> = React.memo(({ tag, isSelected, o
               <div className="flex items-center space-x-2 flex-grow min-w-0">
                 <input
                   type="checkbox"
-                  checked={tag.isReviewed || false}
+                  checked={reviewStatus === 'approved'}
                   onChange={(e) => {
                     e.stopPropagation();
-                    onToggleReviewStatus(tag.id);
+                    onUpdateReview(tag.id, e.target.checked ? 'approved' : 'unreviewed');
                   }}
                   className="w-4 h-4 text-sky-600 bg-white border-gray-400 rounded focus:ring-sky-500 focus:ring-2"
-                  title="검토 완료 표시"
+                  title="승인"
                 />
                 <span 
                   className={`inline-flex items-center justify-center w-5 h-5 rounded text-xs font-bold text-gray-900 ${colors.bg} ${colors.border} border flex-shrink-0`}
@@ -304,14 +351,76 @@ const TagListItem: React.FC<TagListItemProps> = React.memo(({ tag, isSelected, o
                 <span className="font-mono text-sm text-gray-900 truncate">
                   {tag.text}
                 </span>
+                {(reviewStatus === 'rejected' || reviewStatus === 'query') && (
+                  <span
+                    className={`text-xs px-1 rounded border flex-shrink-0 ${REVIEW_STATUS_STYLES[reviewStatus]}`}
+                    title={tag.review?.comment || undefined}
+                  >
+                    {REVIEW_STATUS_LABELS[reviewStatus]}
+                  </span>
+                )}
+                {tag.confidence !== undefined && tag.confidence < CONFIDENCE_THRESHOLDS.low && (
+                  <span
+                    className="text-xs px-1 rounded bg-red-50 text-red-700 border border-red-200 flex-shrink-0"
+                    title="추출 신뢰도가 낮습니다"
+                  >
+                    {Math.round(tag.confidence * 100)}%
+                  </span>
+                )}
+                {parsedLineNumber && !parsedLineNumber.isValid && (
+                  <span
+                    className="text-xs px-1 rounded bg-amber-100 text-amber-700 border border-amber-300 flex-shrink-0"
+                    title="설정의 라인 번호 형식과 일치하지 않습니다"
+                  >
+                    형식 불일치
+                  </span>
+                )}
               </div>
             </div>
           )}
+          {isSelected && !isEditing && (
+            <div className="mt-1 space-y-1" onClick={(e) => e.stopPropagation()}>
+              <div className="flex items-center gap-1">
+                <select
+                  value={reviewStatus}
+                  onChange={(e) => onUpdateReview(tag.id, e.target.value as ReviewStatus)}
+                  className={`text-xs rounded border px-1 py-0.5 ${REVIEW_STATUS_STYLES[reviewStatus]}`}
+                >
+                  {REVIEW_STATUSES.map(status => (
+                    <option key={status} value={status}>{REVIEW_STATUS_LABELS[status]}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={reviewComment}
+                  onChange={(e) => setReviewComment(e.target.value)}
+                  onBlur={handleSaveReviewComment}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleSaveReviewComment();
+                  }}
+                  placeholder="검토 의견..."
+                  className="flex-grow min-w-0 text-xs bg-white border border-gray-300 rounded px-1 py-0.5 text-gray-900"
+                />
+              </div>
+              {tag.review?.reviewedAt && (
+                <div className="text-xs text-gray-500">
+                  {tag.review.reviewer || '(이름 없음)'} · {new Date(tag.review.reviewedAt).toLocaleString()}
+                </div>
+              )}
+            </div>
+          )}
           {tag.category !== Category.DrawingNumber && drawingNumberTag && (
               <div className="text-xs text-gray-500 mt-0.5 font-mono">
                   DWG: {drawingNumberTag.text}
               </div>
           )}
+          {parsedLineNumber?.isValid && showDetails && (
+              <div className="text-xs text-gray-500 mt-0.5 font-mono">
+                  {[parsedLineNumber.size, parsedLineNumber.service, parsedLineNumber.number, parsedLineNumber.pipingClass, parsedLineNumber.suffix]
+                    .filter(Boolean)
+                    .join(' · ')}
+              </div>
+          )}
           {tag.category === Category.Instrument && showDetails && (() => {
             const tagLoops = loops.filter(loop => loop.tagIds.includes(tag.id));
             return tagLoops.length > 0 && (
@@ -672,20 +781,25 @@ export const SidePanel = ({
   loops, setLoops, relationships, setRelationships,
   detectedLines = [],
   appSettings = { instrumentMappings: {} } as any, // Add app settings for instrument mappings
+  patterns,
   // View props
   currentPage, setCurrentPage, selectedTagIds, setSelectedTagIds, selectedDescriptionIds,
   setSelectedDescriptionIds,
   tagSelectionSource, // Add selection source tracking
   // Action props
   onDeleteTags, onUpdateTagText, onDeleteDescriptions, onUpdateDescription,
-  onDeleteRawTextItems, onUpdateRawTextItemText,
+  onDeleteRawTextItems, onUpdateRawTextItemText, onCreateTag,
   onAutoLinkDescriptions, onAutoLinkNotesAndHolds,
   onAutoGenerateLoops, onManualCreateLoop, onDeleteLoops, onUpdateLoop, showConfirmation,
   // Ping props
-  onPingTag, onPingDescription, onPingRelationship,
+  onPingTag, onPingDescription, onPingRelationship, onPingRawTextItem,
   // Visibility props
   visibilitySettings, updateVisibilitySettings, toggleTagVisibility, toggleRelationshipVisibility,
   toggleAllTags, toggleAllRelationships,
+  // Multi-PDF props
+  documents = [], activeDocumentId = null, otherDocumentTags = [], getWorkspaceData, onGoToDocumentTag,
+  // Comment props: this document's comments for the list, every document's for the export
+  comments = [], workspaceComments = [], selectedCommentId = null, onPingComment, onUpdateComment, onDeleteComment,
 }) => {
   const [showCurrentPageOnly, setShowCurrentPageOnly] = useState(true);
   const [showRelationshipDetails, setShowRelationshipDetails] = useState(true);
@@ -697,6 +811,12 @@ export const SidePanel = ({
   const [filterCategory, setFilterCategory] = useState('All');
   const [reviewFilter, setReviewFilter] = useState('All');
   const [sortOrder, setSortOrder] = useState('default');
+  const [confidenceFilter, setConfidenceFilter] = useState('All');
+  const [reviewerName, setReviewerName] = useState(getStoredReviewerName);
+  const [showAllReviewProgress, setShowAllReviewProgress] = useState(false);
+  const [severityFilter, setSeverityFilter] = useState<ValidationSeverity | 'All'>('All');
+  const [commentFilter, setCommentFilter] = useState<'open' | 'resolved' | 'All'>('open');
+  const [dismissedNearMissIds, setDismissedNearMissIds] = useState<Set<string>>(() => new Set());
 
   // Sidebar resizing state
   const [sidebarWidth, setSidebarWidth] = useState(() => {
@@ -739,13 +859,25 @@ export const SidePanel = ({
     onDeleteRawTextItems([itemId]);
   }, [onDeleteRawTextItems]);
   
-  const handleToggleReviewStatus = useCallback((tagId) => {
+  const handleUpdateReview = useCallback((tagId: string, status: ReviewStatus, comment?: string) => {
     setTags(prev => prev.map(tag => 
       tag.id === tagId 
-        ? { ...tag, isReviewed: !tag.isReviewed }
+        ? applyReview(tag, status, reviewerName, comment)
         : tag
     ));
-  }, [setTags]);
+  }, [setTags, reviewerName]);
+
+  // Approve what is still unreviewed on the current page; rejected/queried tags stay as they are
+  const handleApprovePage = useCallback(() => {
+    const targetIds = new Set(
+      tags.filter(tag => tag.page === currentPage && getReviewStatus(tag) === 'unreviewed').map(tag => tag.id)
+    );
+    if (targetIds.size === 0) {
+      alert('이 페이지에 미검토 태그가 없습니다.');
+      return;
+    }
+    setTags(prev => prev.map(tag => (targetIds.has(tag.id) ? applyReview(tag, 'approved', reviewerName) : tag)));
+  }, [tags, currentPage, setTags, reviewerName]);
   
   const handleLoopEdit = useCallback((loopId) => {
     const loop = loops.find(l => l.id === loopId);
@@ -817,13 +949,21 @@ export const SidePanel = ({
       .filter(tag => filterCategory === 'All' || tag.category === filterCategory)
       .filter(tag => {
         if (reviewFilter === 'All') return true;
-        if (reviewFilter === 'Reviewed') return tag.isReviewed === true;
-        if (reviewFilter === 'NotReviewed') return tag.isReviewed !== true;
+        return getReviewStatus(tag) === reviewFilter;
+      })
+      .filter(tag => {
+        // Manual tags carry no score and count as certain
+        const confidence = tag.confidence ?? 1;
+        if (confidenceFilter === 'Low') return confidence < CONFIDENCE_THRESHOLDS.low;
+        if (confidenceFilter === 'Medium') return confidence >= CONFIDENCE_THRESHOLDS.low && confidence < CONFIDENCE_THRESHOLDS.high;
+        if (confidenceFilter === 'High') return confidence >= CONFIDENCE_THRESHOLDS.high;
         return true;
       })
       .filter(tag => tag.text.toLowerCase().includes(searchQuery.toLowerCase()));
 
     switch (sortOrder) {
+      case 'confidence-asc':
+        return [...filtered].sort((a, b) => (a.confidence ?? 1) - (b.confidence ?? 1) || a.page - b.page);
       case 'length-asc':
         return [...filtered].sort((a, b) => a.text.length - b.text.length);
       case 'length-desc':
@@ -902,7 +1042,7 @@ export const SidePanel = ({
           return a.text.localeCompare(b.text);
         });
     }
-  }, [tags, showCurrentPageOnly, currentPage, filterCategory, reviewFilter, searchQuery, sortOrder]);
+  }, [tags, showCurrentPageOnly, currentPage, filterCategory, reviewFilter, confidenceFilter, searchQuery, sortOrder]);
 
   // Virtualized tags for performance
   const virtualizedTags = useMemo(() => {
@@ -1120,8 +1260,24 @@ export const SidePanel = ({
     // Pass instrument mappings and loop rules from app settings
     const instrumentMappings = appSettings.instrumentMappings || {};
     const loopRules = appSettings.loopRules || {};
-    exportToExcel(tags, relationships, rawTextItems, descriptions, [], loops, [], detectedLines, true, instrumentMappings, loopRules);
-  }, [tags, relationships, rawTextItems, descriptions, loops, detectedLines, appSettings]);
+    // Export covers every PDF in the project, not only the one shown
+    const data = getWorkspaceData
+      ? getWorkspaceData()
+      : { tags, relationships, rawTextItems, descriptions, loops, detectedLines };
+    const issues = validateProject(data, appSettings.validationRules);
+    exportToExcel(data.tags, data.relationships, data.rawTextItems, data.descriptions, [], data.loops, workspaceComments, data.detectedLines, true, instrumentMappings, loopRules, documents, appSettings.lineNumberGrammar, issues);
+  }, [tags, relationships, rawTextItems, descriptions, loops, detectedLines, appSettings, getWorkspaceData, documents, workspaceComments]);
+
+  const otherDocumentMatches = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query || otherDocumentTags.length === 0) return [];
+    return otherDocumentTags.filter(tag => tag.text.toLowerCase().includes(query));
+  }, [otherDocumentTags, searchQuery]);
+
+  const documentNameById = useMemo(
+    () => new Map(documents.map(doc => [doc.id, doc.fileName])),
+    [documents]
+  );
 
   const handleDescriptionClick = useCallback((description) => {
     setSelectedDescriptionIds([description.id]);
@@ -1327,6 +1483,8 @@ export const SidePanel = ({
                           return { icon: '🏷️', title: 'Note' };
                         case RelationshipType.Description:
                           return { icon: '📄', title: 'Description' };
+                        case RelationshipType.OffPageConnection:
+                          return { icon: '↪️', title: 'Off-Page Connection' };
                         default:
                           return { icon: '🔗', title: 'Unknown' };
                       }
@@ -1359,8 +1517,128 @@ export const SidePanel = ({
     );
   }, [tags, descriptions, rawTextItems, currentPage, setCurrentPage, onPingTag, onPingDescription, onPingRelationship, goToTag, handleDeleteRelationship]);
 
-  const filterCategories = ['All', Category.Line, Category.Instrument, Category.NotesAndHolds, Category.DrawingNumber];
+  const filterCategories = ['All', Category.Line, Category.Instrument, Category.Equipment, Category.NotesAndHolds, Category.DrawingNumber, Category.OffPageConnector];
+
+  // Off-page connectors with no partner on another sheet
+  const unpairedConnectors = useMemo(() => findUnpairedConnectors(tags, relationships), [tags, relationships]);
+
+  const handleAutoPairConnectors = useCallback(() => {
+    const newRelationships = pairOffPageConnectors(tags, relationships);
+    if (newRelationships.length > 0) {
+      setRelationships(prev => [...prev, ...newRelationships]);
+    }
+    alert(`${newRelationships.length}개의 OPC 쌍이 연결되었습니다.`);
+  }, [tags, relationships, setRelationships]);
   
+  const reviewProgress = useMemo(() => summarizeReviewProgress(tags), [tags]);
+  const currentPageProgress = reviewProgress.find(progress => progress.page === currentPage);
+
+  const renderReviewProgress = (progress: DrawingReviewProgress) => {
+    const percent = (count: number) => `${(count / progress.total) * 100}%`;
+    return (
+      <div className="text-xs">
+        <div className="flex justify-between text-gray-600">
+          <span className="font-mono truncate">{progress.drawingNumber}</span>
+          <span className="flex-shrink-0 ml-2">
+            {progress.approved}/{progress.total}
+            {progress.rejected > 0 && <span className="text-red-600"> · 반려 {progress.rejected}</span>}
+            {progress.query > 0 && <span className="text-amber-600"> · 질의 {progress.query}</span>}
+          </span>
+        </div>
+        <div className="h-1.5 w-full bg-gray-200 rounded overflow-hidden flex">
+          <div className="bg-emerald-500" style={{ width: percent(progress.approved) }} />
+          <div className="bg-red-500" style={{ width: percent(progress.rejected) }} />
+          <div className="bg-amber-400" style={{ width: percent(progress.query) }} />
+        </div>
+      </div>
+    );
+  };
+
+  // Stamped like the export's workspace data, so page keys agree with what the Issues sheet reports
+  const validationIssues = useMemo(() => {
+    const stamp = <T extends { documentId?: string }>(items: T[]) => (activeDocumentId ? assignDocumentId(items, activeDocumentId) : items);
+    return validateProject(
+      { tags: stamp(tags), relationships, descriptions: stamp(descriptions), loops, rawTextItems: stamp(rawTextItems) },
+      appSettings.validationRules
+    );
+  }, [tags, relationships, descriptions, loops, rawTextItems, activeDocumentId, appSettings.validationRules]);
+
+  const filteredIssues = useMemo(
+    () => validationIssues.filter(issue => severityFilter === 'All' || issue.severity === severityFilter),
+    [validationIssues, severityFilter]
+  );
+
+  const ruleLabels = useMemo(() => new Map(VALIDATION_RULES.map(rule => [rule.id, rule.label])), []);
+
+  // Stay on the Issues tab so the list can be worked through one by one
+  const handleIssueClick = useCallback((issue: ValidationIssue) => {
+    setCurrentPage(issue.page);
+    if (issue.entityIds.length > 0) {
+      setSelectedTagIds(issue.entityIds);
+      onPingTag(issue.entityIds[0]);
+    }
+  }, [setCurrentPage, setSelectedTagIds, onPingTag]);
+
+  // Near misses only depend on which tag texts exist, not on reviews or other tag edits
+  const tagTextKey = useMemo(
+    () => [...new Set(tags.map(tag => `${tag.category}\u0000${tag.text}`))].sort().join('\u0001'),
+    [tags]
+  );
+  const nearMissTagTexts = useMemo(
+    () => (tagTextKey ? tagTextKey.split('\u0001') : []).map(entry => {
+      const [category, text] = entry.split('\u0000');
+      return { category: category as CategoryType, text };
+    }),
+    [tagTextKey]
+  );
+
+  // Checking every raw item is too slow to repeat on each edit, so it runs only while the tab is open
+  const isNearMissTabActive = activeTab === 'nearMisses';
+  const nearMisses = useMemo(
+    () => (isNearMissTabActive
+      ? findNearMisses(rawTextItems, nearMissTagTexts, patterns, appSettings.autoRemoveWhitespace)
+        .filter(nearMiss => !dismissedNearMissIds.has(nearMiss.item.id))
+      : []),
+    [isNearMissTabActive, rawTextItems, nearMissTagTexts, patterns, appSettings.autoRemoveWhitespace, dismissedNearMissIds]
+  );
+
+  const handleNearMissClick = useCallback((nearMiss: NearMiss) => {
+    setCurrentPage(nearMiss.item.page);
+    onPingRawTextItem(nearMiss.item.id);
+  }, [setCurrentPage, onPingRawTextItem]);
+
+  // The tag gets the correction; its source item keeps the text as it was read
+  const handlePromoteNearMiss = useCallback((nearMiss: NearMiss) => {
+    onCreateTag([nearMiss.item], nearMiss.category, nearMiss.suggestion);
+  }, [onCreateTag]);
+
+  const handleDismissNearMiss = useCallback((nearMiss: NearMiss) => {
+    setDismissedNearMissIds(prev => new Set(prev).add(nearMiss.item.id));
+  }, []);
+
+  const openCommentCount = useMemo(() => comments.filter(comment => !comment.resolved).length, [comments]);
+
+  // Pin numbers on the drawing follow the order the comments were added
+  const commentNumbers = useMemo(() => new Map(comments.map((comment, index) => [comment.id, index + 1])), [comments]);
+
+  const filteredComments = useMemo(
+    () => comments.filter(comment => commentFilter === 'All' || comment.resolved === (commentFilter === 'resolved')),
+    [comments, commentFilter]
+  );
+
+  // A pin clicked on the drawing opens its entry
+  useEffect(() => {
+    if (selectedCommentId) setActiveTab('comments');
+  }, [selectedCommentId]);
+
+  const handleToggleCommentResolved = useCallback((comment: DrawingComment) => {
+    onUpdateComment(comment.id, setCommentResolved(comment, !comment.resolved, reviewerName.trim()));
+  }, [onUpdateComment, reviewerName]);
+
+  const handleDeleteComment = useCallback((comment: DrawingComment) => {
+    showConfirmation(`코멘트 #${commentNumbers.get(comment.id)}을(를) 삭제하시겠습니까?`, () => onDeleteComment(comment.id));
+  }, [showConfirmation, onDeleteComment, commentNumbers]);
+
   const totalTagCount = useMemo(() => {
     return tags
       .filter(tag => !showCurrentPageOnly || tag.page === currentPage).length;
@@ -1377,6 +1655,9 @@ export const SidePanel = ({
         <button onClick={() => setActiveTab('descriptions')} className={`flex-1 py-2 px-1 font-semibold ${activeTab === 'descriptions' ? 'bg-gray-100 text-sky-600' : 'text-gray-700'}`}>노트 ({filteredDescriptions.length})</button>
         <button onClick={() => setActiveTab('loops')} className={`flex-1 py-2 px-1 font-semibold ${activeTab === 'loops' ? 'bg-gray-100 text-sky-600' : 'text-gray-700'}`}>루프 ({filteredLoops.length})</button>
         <button onClick={() => setActiveTab('relationships')} className={`flex-1 py-2 px-1 font-semibold ${activeTab === 'relationships' ? 'bg-gray-100 text-sky-600' : 'text-gray-700'}`}>관계 ({filteredRelationships.length})</button>
+        <button onClick={() => setActiveTab('issues')} className={`flex-1 py-2 px-1 font-semibold ${activeTab === 'issues' ? 'bg-gray-100 text-sky-600' : 'text-gray-700'}`}>이슈 ({validationIssues.length})</button>
+        <button onClick={() => setActiveTab('nearMisses')} className={`flex-1 py-2 px-1 font-semibold ${activeTab === 'nearMisses' ? 'bg-gray-100 text-sky-600' : 'text-gray-700'}`}>후보{isNearMissTabActive ? ` (${nearMisses.length})` : ''}</button>
+        <button onClick={() => setActiveTab('comments')} className={`flex-1 py-2 px-1 font-semibold ${activeTab === 'comments' ? 'bg-gray-100 text-sky-600' : 'text-gray-700'}`}>코멘트 ({openCommentCount})</button>
       </div>
 
       {activeTab === 'tags' && (
@@ -1417,6 +1698,7 @@ export const SidePanel = ({
                       : cat === 'Instrument' ? '계기'
                       : cat === 'DrawingNumber' ? '도면번호'
                       : cat === 'NotesAndHolds' ? '노트'
+                      : cat === 'OffPageConnector' ? 'OPC'
                       : cat === 'SpecialItem' ? '특수'
                       : cat === 'All' ? '전체' : cat;
                     
@@ -1438,6 +1720,83 @@ export const SidePanel = ({
                   })}
                 </div>
 
+                <div className="flex gap-2 text-xs">
+                  <select
+                    value={confidenceFilter}
+                    onChange={(e) => setConfidenceFilter(e.target.value)}
+                    className="flex-1 bg-white border border-gray-300 rounded-md px-1 py-1 text-gray-900"
+                    title="추출 신뢰도로 거르기"
+                  >
+                    <option value="All">신뢰도: 전체</option>
+                    <option value="Low">신뢰도: 낮음 (&lt;{Math.round(CONFIDENCE_THRESHOLDS.low * 100)}%)</option>
+                    <option value="Medium">신뢰도: 중간</option>
+                    <option value="High">신뢰도: 높음 (≥{Math.round(CONFIDENCE_THRESHOLDS.high * 100)}%)</option>
+                  </select>
+                  <select
+                    value={sortOrder === 'confidence-asc' ? sortOrder : 'default'}
+                    onChange={(e) => setSortOrder(e.target.value)}
+                    className="flex-1 bg-white border border-gray-300 rounded-md px-1 py-1 text-gray-900"
+                  >
+                    <option value="default">정렬: 페이지/이름</option>
+                    <option value="confidence-asc">정렬: 신뢰도 낮은 순</option>
+                  </select>
+                </div>
+
+                <div className="flex gap-2 text-xs">
+                  <select
+                    value={reviewFilter}
+                    onChange={(e) => setReviewFilter(e.target.value)}
+                    className="flex-1 bg-white border border-gray-300 rounded-md px-1 py-1 text-gray-900"
+                  >
+                    <option value="All">검토: 전체</option>
+                    {REVIEW_STATUSES.map(status => (
+                      <option key={status} value={status}>검토: {REVIEW_STATUS_LABELS[status]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={reviewerName}
+                    onChange={(e) => {
+                      setReviewerName(e.target.value);
+                      saveReviewerName(e.target.value);
+                    }}
+                    placeholder="검토자 이름"
+                    className="flex-1 min-w-0 bg-white border border-gray-300 rounded-md px-1 py-1 text-gray-900"
+                  />
+                  <button
+                    onClick={handleApprovePage}
+                    className="px-2 py-1 rounded-md bg-emerald-600 hover:bg-emerald-700 text-white font-semibold whitespace-nowrap"
+                    title="현재 페이지의 미검토 태그를 모두 승인"
+                  >
+                    페이지 승인
+                  </button>
+                </div>
+
+                {currentPageProgress && renderReviewProgress(currentPageProgress)}
+                {reviewProgress.length > 1 && (
+                  <div className="text-xs">
+                    <button
+                      onClick={() => setShowAllReviewProgress(prev => !prev)}
+                      className="text-sky-600 hover:text-sky-700"
+                    >
+                      {showAllReviewProgress ? '전체 도면 진행률 숨기기' : `전체 도면 진행률 (${reviewProgress.length})`}
+                    </button>
+                    {showAllReviewProgress && (
+                      <div className="mt-1 max-h-40 overflow-y-auto space-y-1">
+                        {reviewProgress.map(progress => (
+                          <button
+                            key={progress.pageKey}
+                            onClick={() => setCurrentPage(progress.page)}
+                            className={`w-full text-left rounded px-1 hover:bg-gray-100 ${progress.page === currentPage ? 'bg-gray-50' : ''}`}
+                          >
+                            {renderReviewProgress(progress)}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
             </div>
             
             {selectedTagIds.length > 1 && (
@@ -1477,7 +1836,7 @@ export const SidePanel = ({
                       allTags={tags}
                       allRawTextItems={rawTextItems}
                       descriptions={descriptions}
-                      onToggleReviewStatus={handleToggleReviewStatus}
+                      onUpdateReview={handleUpdateReview}
                       onDeleteRelationship={handleDeleteRelationship}
                       onDeleteTag={handleDeleteTag}
                       onUpdateTagText={onUpdateTagText}
@@ -1486,6 +1845,7 @@ export const SidePanel = ({
                       loops={loops}
                       onUpdateLoop={onUpdateLoop}
                       showDetails={showRelationshipDetails}
+                      lineNumberGrammar={appSettings.lineNumberGrammar}
                     />
                   );
                 })}
@@ -1493,6 +1853,28 @@ export const SidePanel = ({
                   <div style={{ height: `${Math.max(0, (sortedAndFilteredTags.length - virtualizedRange.end) * 90)}px` }} />
                 )}
             </ul>
+            {otherDocumentMatches.length > 0 && (
+              <div className="flex-shrink-0 max-h-48 overflow-y-auto border-t border-gray-200 p-2">
+                <div className="text-xs font-semibold text-gray-600 mb-1">다른 문서 검색 결과 ({otherDocumentMatches.length})</div>
+                <ul className="space-y-1">
+                  {otherDocumentMatches.map(tag => (
+                    <li key={tag.id}>
+                      <button
+                        onClick={() => onGoToDocumentTag?.(tag.documentId, tag.id)}
+                        className="w-full text-left px-2 py-1 rounded hover:bg-gray-100 text-sm"
+                        title="해당 문서로 이동"
+                      >
+                        <span className="font-mono text-gray-900">{tag.text}</span>
+                        <span className="ml-2 text-xs text-gray-500">{tag.category}</span>
+                        <div className="text-xs text-gray-500 truncate">
+                          {documentNameById.get(tag.documentId) || '알 수 없는 문서'} · 페이지 {tag.page}
+                        </div>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
         </div>
       )}
 
@@ -1825,8 +2207,189 @@ export const SidePanel = ({
         </div>
       )}
       
+      {activeTab === 'relationships' && tags.some(t => t.category === Category.OffPageConnector) && (
+        <div className="p-2 border-b border-gray-200 flex-shrink-0">
+          <div className="flex justify-between items-center mb-1">
+            <h4 className={`text-xs font-semibold ${unpairedConnectors.length > 0 ? 'text-red-600' : 'text-gray-700'}`}>
+              미연결 OPC ({unpairedConnectors.length})
+            </h4>
+            <button
+              onClick={handleAutoPairConnectors}
+              className="text-xs font-semibold text-sky-600 hover:text-sky-500 transition-colors"
+              title="같은 참조 텍스트와 도착 도면 번호로 OPC를 자동 연결"
+            >
+              자동 페어링
+            </button>
+          </div>
+          {unpairedConnectors.length > 0 && (
+            <ul className="max-h-32 overflow-y-auto space-y-1">
+              {unpairedConnectors.map(connector => (
+                <li key={connector.id}>
+                  <button
+                    onClick={() => goToTag(connector)}
+                    className="w-full flex justify-between items-center px-2 py-1 text-xs rounded bg-red-50 hover:bg-red-100 text-left"
+                  >
+                    <span className="font-mono text-gray-900">{connector.text}</span>
+                    <span className="text-gray-600">
+                      {connector.metadata?.destination ? `→ ${connector.metadata.destination} · ` : ''}P{connector.page}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
       {activeTab === 'relationships' && <RelationshipViewer relationships={filteredRelationships} />}
 
+      {activeTab === 'issues' && (
+        <div className="flex-grow flex flex-col overflow-hidden">
+          <div className="p-3 border-b border-gray-200 flex gap-1 text-xs">
+            {(['All', 'error', 'warning', 'info'] as const).map(severity => (
+              <button
+                key={severity}
+                onClick={() => setSeverityFilter(severity)}
+                className={`flex-1 py-1 rounded ${severityFilter === severity ? 'bg-sky-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+              >
+                {severity === 'All' ? '전체' : SEVERITY_LABELS[severity]} ({severity === 'All' ? validationIssues.length : validationIssues.filter(issue => issue.severity === severity).length})
+              </button>
+            ))}
+          </div>
+          <div className="flex-grow overflow-y-auto p-3 space-y-1">
+            {filteredIssues.length === 0 ? (
+              <div className="text-center text-sm text-gray-500 mt-8">발견된 이슈가 없습니다</div>
+            ) : (
+              filteredIssues.map(issue => (
+                <button
+                  key={issue.id}
+                  onClick={() => handleIssueClick(issue)}
+                  className={`w-full text-left px-2 py-1.5 rounded text-xs hover:bg-gray-100 ${issue.page === currentPage ? 'bg-gray-50' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className={`px-1.5 py-0.5 rounded ${SEVERITY_STYLES[issue.severity]}`}>{SEVERITY_LABELS[issue.severity]}</span>
+                    <span className="font-semibold text-gray-800">{ruleLabels.get(issue.ruleId)}</span>
+                    <span className="ml-auto text-gray-500">P{issue.page}</span>
+                  </div>
+                  <div className="mt-0.5 text-gray-700">{issue.message}</div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'nearMisses' && (
+        <div className="flex-grow flex flex-col overflow-hidden">
+          <div className="p-3 border-b border-gray-200 flex items-center gap-2">
+            <p className="text-xs text-gray-500 flex-grow">패턴에 거의 맞거나 기존 태그와 비슷하지만 태그가 되지 않은 텍스트입니다.</p>
+            {dismissedNearMissIds.size > 0 && (
+              <button
+                onClick={() => setDismissedNearMissIds(new Set())}
+                className="text-xs px-1.5 py-0.5 rounded border border-gray-300 hover:bg-gray-200 flex-shrink-0"
+              >
+                숨긴 항목 표시 ({dismissedNearMissIds.size})
+              </button>
+            )}
+          </div>
+          <div className="flex-grow overflow-y-auto p-3 space-y-1">
+            {nearMisses.length === 0 ? (
+              <div className="text-center text-sm text-gray-500 mt-8">후보가 없습니다</div>
+            ) : (
+              nearMisses.map(nearMiss => (
+                <div
+                  key={nearMiss.item.id}
+                  onClick={() => handleNearMissClick(nearMiss)}
+                  className={`px-2 py-1.5 rounded text-xs cursor-pointer hover:bg-gray-100 ${nearMiss.item.page === currentPage ? 'bg-gray-50' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-gray-500 truncate">{nearMiss.item.text}</span>
+                    <span className="text-gray-400">→</span>
+                    <span className="font-mono font-semibold text-gray-900 truncate">{nearMiss.suggestion}</span>
+                    <span className="ml-auto text-gray-500 flex-shrink-0">P{nearMiss.item.page}</span>
+                  </div>
+                  <div className="mt-1 flex items-center gap-2 text-gray-500">
+                    <span className={`px-1.5 py-0.5 rounded flex-shrink-0 ${CATEGORY_COLORS[nearMiss.category]?.bg || 'bg-gray-100'} ${CATEGORY_COLORS[nearMiss.category]?.text || 'text-gray-700'}`}>{nearMiss.category}</span>
+                    <span className="truncate">{nearMiss.reason}</span>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handlePromoteNearMiss(nearMiss); }}
+                      className="ml-auto px-1.5 py-0.5 rounded bg-sky-600 text-white hover:bg-sky-700 flex-shrink-0"
+                    >
+                      태그로 만들기
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDismissNearMiss(nearMiss); }}
+                      className="px-1.5 py-0.5 rounded text-gray-600 hover:bg-gray-200 flex-shrink-0"
+                    >
+                      숨기기
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      {activeTab === 'comments' && (
+        <div className="flex-grow flex flex-col overflow-hidden">
+          <div className="p-3 border-b border-gray-200 space-y-2">
+            <div className="flex gap-1 text-xs">
+              {([['open', '미해결'], ['resolved', '해결됨'], ['All', '전체']] as const).map(([filter, label]) => (
+                <button
+                  key={filter}
+                  onClick={() => setCommentFilter(filter)}
+                  className={`flex-1 py-1 rounded ${commentFilter === filter ? 'bg-sky-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                >
+                  {label} ({filter === 'All' ? comments.length : comments.filter(comment => comment.resolved === (filter === 'resolved')).length})
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">P 키를 누른 뒤 도면이나 태그를 클릭하면 코멘트를 추가합니다.</p>
+          </div>
+          <div className="flex-grow overflow-y-auto p-3 space-y-1">
+            {filteredComments.length === 0 ? (
+              <div className="text-center text-sm text-gray-500 mt-8">코멘트가 없습니다</div>
+            ) : (
+              filteredComments.map(comment => {
+                const anchorTag = comment.tagId ? tags.find(tag => tag.id === comment.tagId) : null;
+                return (
+                  <div
+                    key={comment.id}
+                    onClick={() => onPingComment(comment.id)}
+                    className={`px-2 py-1.5 rounded text-xs cursor-pointer hover:bg-gray-100 ${comment.id === selectedCommentId ? 'bg-sky-50 ring-1 ring-sky-300' : ''}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className={`px-1.5 py-0.5 rounded-full font-bold text-white ${comment.resolved ? 'bg-gray-400' : 'bg-amber-500'}`}>{commentNumbers.get(comment.id)}</span>
+                      {anchorTag && <span className="font-mono text-gray-700 truncate">{anchorTag.text}</span>}
+                      <span className="ml-auto text-gray-500">P{comment.page}</span>
+                    </div>
+                    <div className={`mt-1 whitespace-pre-wrap ${comment.resolved ? 'text-gray-500 line-through' : 'text-gray-800'}`}>{comment.text}</div>
+                    <div className="mt-1 flex items-center gap-2 text-gray-500">
+                      <span className="truncate">
+                        {comment.author || '작성자 없음'} · {new Date(comment.createdAt).toLocaleString()}
+                        {comment.resolved && ` · 해결${comment.resolvedBy ? `: ${comment.resolvedBy}` : ''}`}
+                      </span>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleToggleCommentResolved(comment); }}
+                        className="ml-auto px-1.5 py-0.5 rounded border border-gray-300 hover:bg-gray-200 flex-shrink-0"
+                      >
+                        {comment.resolved ? '다시 열기' : '해결'}
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleDeleteComment(comment); }}
+                        className="px-1.5 py-0.5 rounded text-red-600 hover:bg-red-50 flex-shrink-0"
+                      >
+                        삭제
+                      </button>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+
 
       <div className="p-4 border-t border-gray-200 flex-shrink-0">
         <button onClick={handleExport} className="w-full flex items-center justify-center space-x-2 bg-emerald-600 hover:bg-emerald-700 text-white font-bold py-2 px-4 rounded transition-colors">
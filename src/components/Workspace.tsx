@@ -1,9 +1,10 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { PdfViewer } from './PdfViewer.tsx';
 import { SidePanel } from './SidePanel.tsx';
 import { SelectionPanel } from './SelectionPanel.tsx';
 import { WorkspaceProps, Category } from '../types.ts';
 import { CATEGORY_COLORS } from '../constants.ts';
+import { applyReview, getReviewStatus, getStoredReviewerName } from '../services/reviewService.ts';
 
 // Button components for compact panel
 const DeleteRelationshipButton = React.memo(({ onClick }: { onClick: () => void }) => (
@@ -65,6 +66,7 @@ export const Workspace: React.FC<WorkspaceProps> = ({
   loops,
   setLoops,
   appSettings,
+  patterns,
   onCreateTag,
   onCreateManualTag,
   onCreateDescription,
@@ -108,6 +110,21 @@ export const Workspace: React.FC<WorkspaceProps> = ({
   setShowAllRelationships,
   showOnlySelectedRelationships,
   setShowOnlySelectedRelationships,
+  // Multi-PDF project
+  documents,
+  activeDocumentId,
+  otherDocumentTags,
+  getWorkspaceData,
+  onGoToDocumentTag,
+  focusTagId,
+  onFocusTagHandled,
+  // Revision comparison
+  revisionChanges,
+  // Drawing comments
+  comments,
+  onCreateComment,
+  onUpdateComment,
+  onDeleteComment,
 }) => {
   const [selectedTagIds, setSelectedTagIds] = useState([]);
   const [selectedRawTextItemIds, setSelectedRawTextItemIds] = useState([]);
@@ -118,6 +135,14 @@ export const Workspace: React.FC<WorkspaceProps> = ({
   const [pingedDescriptionId, setPingedDescriptionId] = useState(null);
   const [pingedRelationshipId, setPingedRelationshipId] = useState(null);
   const [scrollToCenter, setScrollToCenter] = useState(null);
+  const [commentDraft, setCommentDraft] = useState(null); // CommentAnchor waiting for its text
+  const [selectedCommentId, setSelectedCommentId] = useState(null);
+
+  // Comments without a documentId predate multi-PDF projects and belong to the open PDF
+  const documentComments = useMemo(
+    () => comments.filter(comment => !comment.documentId || comment.documentId === activeDocumentId),
+    [comments, activeDocumentId]
+  );
   
   // Compact panel editing states
   const [isEditingTag, setIsEditingTag] = useState(false);
@@ -185,6 +210,13 @@ export const Workspace: React.FC<WorkspaceProps> = ({
     setManualCreationData(null);
   };
 
+  const handleCommentCreate = (text) => {
+    if (commentDraft) {
+      onCreateComment(commentDraft, text);
+      setCommentDraft(null);
+    }
+  };
+
   // Compact panel tag editing handlers
   const handleStartEditTag = (tag) => {
     setIsEditingTag(true);
@@ -225,6 +257,26 @@ export const Workspace: React.FC<WorkspaceProps> = ({
     setTimeout(() => setScrollToCenter(null), 100);
   }, [tags, currentPage, setCurrentPage]);
 
+  // Select a tag requested from another document's search result once this document is shown
+  React.useEffect(() => {
+    if (!focusTagId || !tags.some(t => t.id === focusTagId)) return;
+    setSelectedTagIds([focusTagId]);
+    setTagSelectionSource('panel');
+    handlePingTag(focusTagId);
+    onFocusTagHandled();
+  }, [focusTagId, tags, handlePingTag, onFocusTagHandled]);
+
+  // Raw text has no ping animation; selecting it is enough to pick it out on the page
+  const handlePingRawTextItem = useCallback((itemId) => {
+    const item = rawTextItems.find(i => i.id === itemId);
+    if (item && item.page !== currentPage) {
+      setCurrentPage(item.page);
+    }
+    setSelectedRawTextItemIds([itemId]);
+    setScrollToCenter({ rawTextItemId: itemId, timestamp: Date.now() });
+    setTimeout(() => setScrollToCenter(null), 100);
+  }, [rawTextItems, currentPage, setCurrentPage]);
+
   const handlePingDescription = useCallback((descriptionId) => {
     // Find the description to get its page
     const description = descriptions.find(d => d.id === descriptionId);
@@ -243,6 +295,16 @@ export const Workspace: React.FC<WorkspaceProps> = ({
     }
   }, [descriptions, currentPage, setCurrentPage]);
 
+  const handlePingComment = useCallback((commentId) => {
+    const comment = documentComments.find(c => c.id === commentId);
+    if (comment && comment.page !== currentPage) {
+      setCurrentPage(comment.page);
+    }
+    setSelectedCommentId(commentId);
+    setScrollToCenter({ commentId, timestamp: Date.now() });
+    setTimeout(() => setScrollToCenter(null), 100);
+  }, [documentComments, currentPage, setCurrentPage]);
+
   const handlePingRelationship = useCallback((relationshipId) => {
     // Find the relationship to get the page of related entities
     const relationship = relationships.find(r => r.id === relationshipId);
@@ -275,6 +337,7 @@ export const Workspace: React.FC<WorkspaceProps> = ({
         setLoops={setLoops}
         detectedLines={detectedLines}
         appSettings={appSettings}
+        patterns={patterns}
         currentPage={currentPage}
         setCurrentPage={setCurrentPage}
         selectedTagIds={selectedTagIds}
@@ -294,6 +357,7 @@ export const Workspace: React.FC<WorkspaceProps> = ({
         onUpdateDescription={onUpdateDescription}
         onDeleteRawTextItems={onDeleteRawTextItems}
         onUpdateRawTextItemText={onUpdateRawTextItemText}
+        onCreateTag={onCreateTag}
         onAutoLinkDescriptions={onAutoLinkDescriptions}
         onAutoLinkNotesAndHolds={onAutoLinkNotesAndHolds}
         onAutoGenerateLoops={onAutoGenerateLoops}
@@ -304,12 +368,24 @@ export const Workspace: React.FC<WorkspaceProps> = ({
         onPingTag={handlePingTag}
         onPingDescription={handlePingDescription}
         onPingRelationship={handlePingRelationship}
+        onPingRawTextItem={handlePingRawTextItem}
         visibilitySettings={visibilitySettings}
         updateVisibilitySettings={updateVisibilitySettings}
         toggleTagVisibility={toggleTagVisibility}
         toggleRelationshipVisibility={toggleRelationshipVisibility}
         toggleAllTags={toggleAllTags}
         toggleAllRelationships={toggleAllRelationships}
+        documents={documents}
+        activeDocumentId={activeDocumentId}
+        otherDocumentTags={otherDocumentTags}
+        getWorkspaceData={getWorkspaceData}
+        onGoToDocumentTag={onGoToDocumentTag}
+        comments={documentComments}
+        workspaceComments={comments}
+        selectedCommentId={selectedCommentId}
+        onPingComment={handlePingComment}
+        onUpdateComment={onUpdateComment}
+        onDeleteComment={onDeleteComment}
       />}
       <div className="flex-grow h-full overflow-auto bg-gray-100">
         <PdfViewer
@@ -339,7 +415,6 @@ export const Workspace: React.FC<WorkspaceProps> = ({
           onMergeRawTextItems={onMergeRawTextItems}
           onManualCreateLoop={onManualCreateLoop}
           onManualAreaSelect={handleManualAreaSelect}
-          onOPCTagClick={() => {}}
           onUpdateTagText={onUpdateTagText}
           onUpdateRawTextItemText={onUpdateRawTextItemText}
           // Pass down viewer state
@@ -365,6 +440,11 @@ export const Workspace: React.FC<WorkspaceProps> = ({
           setShowOnlySelectedRelationships={setShowOnlySelectedRelationships}
           detectedLines={detectedLines}
           appSettings={appSettings}
+          revisionChanges={revisionChanges}
+          comments={documentComments}
+          selectedCommentId={selectedCommentId}
+          onSelectComment={setSelectedCommentId}
+          onPlaceComment={setCommentDraft}
         />
         {/* === ADD === */}  
       </div>
@@ -382,6 +462,10 @@ export const Workspace: React.FC<WorkspaceProps> = ({
         manualCreationData={manualCreationData}
         onManualTagCreate={handleManualTagCreate}
         onClearManualCreation={handleClearManualCreation}
+        commentDraft={commentDraft}
+        commentDraftTag={commentDraft?.tagId ? tags.find(tag => tag.id === commentDraft.tagId) : null}
+        onCommentCreate={handleCommentCreate}
+        onClearCommentDraft={() => setCommentDraft(null)}
       />
 
       {/* Compact Tag Detail Panel */}
@@ -394,23 +478,26 @@ export const Workspace: React.FC<WorkspaceProps> = ({
                 <div className="flex items-center space-x-2 flex-grow min-w-0">
                   <input
                     type="checkbox"
-                    checked={selectedTag.isReviewed || false}
+                    checked={getReviewStatus(selectedTag) === 'approved'}
                     onChange={(e) => {
                       e.stopPropagation();
+                      const status = e.target.checked ? 'approved' : 'unreviewed';
                       setTags(prev => prev.map(tag => 
                         tag.id === selectedTag.id 
-                          ? { ...tag, isReviewed: !tag.isReviewed }
+                          ? applyReview(tag, status, getStoredReviewerName())
                           : tag
                       ));
                     }}
                     className="w-4 h-4 text-sky-600 bg-white border-gray-400 rounded focus:ring-sky-500 focus:ring-2"
-                    title="Mark as reviewed"
+                    title="Approve"
                   />
                   <span className={`inline-flex items-center justify-center w-5 h-5 rounded text-xs font-bold text-gray-900 ${CATEGORY_COLORS[selectedTag.category]?.bg || 'bg-gray-200'} ${CATEGORY_COLORS[selectedTag.category]?.border || 'border-gray-400'} border flex-shrink-0`}>
                     {selectedTag.category === Category.Line ? 'L' :
                      selectedTag.category === Category.Instrument ? 'I' :
+                     selectedTag.category === Category.Equipment ? 'E' :
                      selectedTag.category === Category.DrawingNumber ? 'D' :
-                     selectedTag.category === Category.NotesAndHolds ? 'N' : 'U'}
+                     selectedTag.category === Category.NotesAndHolds ? 'N' :
+                     selectedTag.category === Category.OffPageConnector ? 'O' : 'U'}
                   </span>
                   {isEditingTag ? (
                     <div className="flex items-center space-x-1 flex-grow">
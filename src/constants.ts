@@ -1,4 +1,4 @@
-import { Category, ColorSettings } from './types.ts';
+import { Category, ColorSettings, LineNumberGrammar, RescanChangeType, ReviewStatus, RevisionChangeType, ValidationRuleConfig, ValidationRuleId } from './types.ts';
 
 export const DEFAULT_PATTERNS = {
   // Line pattern: matches line numbers like 8"-PL-30001-C1C, 3"-GL-30401-N1E, 2"-WS-10001, etc.
@@ -10,11 +10,19 @@ export const DEFAULT_PATTERNS = {
     func: '[A-Z]{2,4}',
     num: '\\d{3,4}(?:\\s?[A-Z])?'
   },
+  // Equipment pattern: matches pumps, vessels, exchangers like P-101A, V-2001, E-301, TK-201
+  // Format: [equipment code]-[3-4 digit number][optional train suffix]
+  // The codes are listed explicitly: any two letters read as an ISA function code, so a
+  // looser prefix turns single-text instruments (PT-101, FT-1001) into equipment
+  [Category.Equipment]: '^(?:[ABCDEFGHKMPRSTVX]|TK|PK)-\\d{3,4}[A-Z]?$',
   // Pattern to match drawing numbers - prioritizes complete format
   // Good matches: 00342GS-7300-PRP-D-105, P&ID-001-REV-A, DWG-12345-ABCD-678
   // Avoids: -7300-P-034-31051 (partial/truncated)
   [Category.DrawingNumber]: '[A-Z0-9][A-Z0-9\\-]{10,}',
   [Category.NotesAndHolds]: '^(NOTE|HOLD).*',
+  // Off-page connector reference, e.g. OPC-01, OPC 12A. The destination drawing number
+  // printed next to the connector is picked up automatically.
+  [Category.OffPageConnector]: '^OPC[- ]?\\d{1,3}[A-Z]?$',
 };
 
 export const DEFAULT_TOLERANCES = {
@@ -31,6 +39,7 @@ export const DEFAULT_SETTINGS = {
     hyphenSettings: {
         line: false,
         instrument: true, // Default to true for instruments
+        equipment: false,
         drawingNumber: false,
         notesAndHolds: false,
     },
@@ -49,6 +58,28 @@ export const DEFAULT_SETTINGS = {
     sheetNoTolerancePx: 3, // Sheet No. Y-허용오차(px). 사용자가 변경 가능.
     sheetNoTolerance: 60, // <<< 기본 60px 제안
 
+    // Line number grammar: [size]-[service]-[number]-[piping class]-[insulation/tracing]
+    // e.g. 8"-PL-30001-C1C-INS, 1-1/2"-WS-10001, DN50-CW-20001-A1A
+    lineNumberGrammar: {
+        separator: '-',
+        segments: [
+            { field: 'size', pattern: '\\d+(?:\\.\\d+)?(?:[- ]\\d+/\\d+)?"|\\d+/\\d+"|DN\\s?\\d+' },
+            { field: 'service', pattern: '[A-Z]{1,4}' },
+            { field: 'number', pattern: '\\d{3,6}[A-Z]?' },
+            { field: 'pipingClass', pattern: '[A-Z0-9]{2,6}', optional: true },
+            { field: 'suffix', pattern: '[A-Z]{1,4}', optional: true },
+        ],
+    } as LineNumberGrammar,
+
+    // Consistency checks shown in the Issues tab and exported as the Issues sheet
+    validationRules: {
+        duplicateInstrument: { enabled: true, severity: 'error' },
+        unlinkedInstrument: { enabled: true, severity: 'warning' },
+        singleMemberLoop: { enabled: true, severity: 'info' },
+        noteWithoutDescription: { enabled: true, severity: 'warning' },
+        pageWithoutDrawingNumber: { enabled: true, severity: 'error' },
+    } as Record<ValidationRuleId, ValidationRuleConfig>,
+
     loopRules: {
         // Default loop extraction rules
         // Format: Function Code → Loop Prefix
@@ -250,6 +281,11 @@ export const CATEGORY_COLORS = {
     bg: 'bg-amber-500/20',
     text: 'text-amber-400',
   },
+  [Category.Equipment]: {
+    border: 'border-orange-400',
+    bg: 'bg-orange-500/20',
+    text: 'text-orange-400',
+  },
   [Category.DrawingNumber]: {
     border: 'border-indigo-400',
     bg: 'bg-indigo-500/20',
@@ -260,6 +296,11 @@ export const CATEGORY_COLORS = {
     bg: 'bg-teal-500/20',
     text: 'text-teal-400',
   },
+  [Category.OffPageConnector]: {
+    border: 'border-violet-400',
+    bg: 'bg-violet-500/20',
+    text: 'text-violet-400',
+  },
   [Category.Uncategorized]: {
     border: 'border-slate-500',
     bg: 'bg-slate-500/20',
@@ -271,8 +312,10 @@ export const DEFAULT_COLORS: ColorSettings = {
   entities: {
     line: '#fb7185',           // Rose
     instrument: '#fbbf24',     // Amber
+    equipment: '#fb923c',      // Orange
     drawingNumber: '#818cf8',  // Indigo
     notesAndHolds: '#14b8a6',  // Teal
+    offPageConnector: '#8b5cf6', // Violet
     uncategorized: '#94a3b8',  // Slate
     description: '#a855f7'     // Purple (for Note & Hold descriptions)
   },
@@ -281,6 +324,7 @@ export const DEFAULT_COLORS: ColorSettings = {
     installation: '#facc15',    // Yellow (arrow line)
     annotation: '#a78bfa',      // Purple-400 (line & linked raw text)
     note: '#14b8a6',           // Teal (line connecting to notes)
+    offPageConnection: '#8b5cf6', // Violet (OPC pair)
   },
   highlights: {
     primary: '#ef4444',        // Red-500 (primary selection/ping)
@@ -297,3 +341,29 @@ export const EXTERNAL_LINKS = {
   NOTION_GUIDE: 'https://www.notion.so/gs-enc/P-ID-Smart-Digitizer-262e12e04a1080f49111c88cd60a32dc',
   REGEX_HELPER: 'https://chatgpt.com/g/g-dB9e8cEts-regex-helper',
 };
+
+export const REVISION_CHANGE_LABELS: Record<RevisionChangeType, string> = {
+  added: '추가',
+  removed: '삭제',
+  moved: '이동',
+  retexted: '텍스트 변경',
+};
+
+export const RESCAN_CHANGE_LABELS: Record<RescanChangeType, string> = {
+  added: '추가',
+  removed: '삭제',
+  changed: '변경',
+};
+
+// Tag confidence bands used by the SidePanel filter: below `low` is weak, `high` and up is strong
+export const CONFIDENCE_THRESHOLDS = {
+  low: 0.6,
+  high: 0.85,
+};
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  unreviewed: '미검토',
+  approved: '승인',
+  rejected: '반려',
+  query: '질의 필요',
+};
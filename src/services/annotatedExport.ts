@@ -0,0 +1,395 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import {
+    AnnotatedExportOptions,
+    BoundingBox,
+    Category,
+    CategoryType,
+    ColorSettings,
+    Description,
+    DrawingComment,
+    Loop,
+    Point,
+    RawTextItem,
+    Relationship,
+    RelationshipType,
+    RelationshipTypeValue,
+    Tag,
+    VisibilitySettings,
+} from '../types.ts';
+import { DEFAULT_COLORS } from '../constants.ts';
+import { getCommentPosition } from './commentService.ts';
+
+// Data of the document being exported; comments are numbered in this order, as on screen
+export interface AnnotatedDocumentData {
+    tags: Tag[];
+    relationships: Relationship[];
+    rawTextItems: RawTextItem[];
+    descriptions: Description[];
+    loops: Loop[];
+    comments: DrawingComment[];
+}
+
+interface RenderedPage {
+    jpeg: Uint8Array;
+    pixelWidth: number;
+    pixelHeight: number;
+    width: number;  // Points
+    height: number; // Points
+}
+
+type TagVisibilityKey = keyof VisibilitySettings['tags'];
+type RelationshipVisibilityKey = keyof VisibilitySettings['relationships'];
+
+const TAG_KEYS: Record<CategoryType, keyof ColorSettings['entities']> = {
+    [Category.Line]: 'line',
+    [Category.Instrument]: 'instrument',
+    [Category.Equipment]: 'equipment',
+    [Category.DrawingNumber]: 'drawingNumber',
+    [Category.NotesAndHolds]: 'notesAndHolds',
+    [Category.OffPageConnector]: 'offPageConnector',
+    [Category.Uncategorized]: 'uncategorized',
+};
+
+// Description links are never drawn and OPC pairs span two pages, as in the viewer
+const RELATIONSHIP_KEYS: Partial<Record<RelationshipTypeValue, RelationshipVisibilityKey>> = {
+    [RelationshipType.Connection]: 'connection',
+    [RelationshipType.Installation]: 'installation',
+    [RelationshipType.Annotation]: 'annotation',
+    [RelationshipType.Note]: 'note',
+};
+
+const COMMENT_COLORS = { open: '#f59e0b', resolved: '#9ca3af' };
+const LOOP_COLOR = '#0f766e';
+
+/** Parse "1-3, 5" into sorted page numbers within 1..pageCount; an empty string means every page. */
+export const parsePageRange = (text: string, pageCount: number): number[] => {
+    if (!text.trim()) return Array.from({ length: pageCount }, (_, i) => i + 1);
+    const pages = new Set<number>();
+    text.split(',').forEach(part => {
+        const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+        if (!match) return;
+        const start = parseInt(match[1], 10);
+        const end = match[2] ? parseInt(match[2], 10) : start;
+        for (let page = Math.max(1, Math.min(start, end)); page <= Math.min(pageCount, Math.max(start, end)); page++) {
+            pages.add(page);
+        }
+    });
+    return [...pages].sort((a, b) => a - b);
+};
+
+const centerOf = (bbox: BoundingBox): Point => ({ x: (bbox.x1 + bbox.x2) / 2, y: (bbox.y1 + bbox.y2) / 2 });
+
+// Where the segment from `from` to the centre of `bbox` enters the box
+const edgePoint = (from: Point, bbox: BoundingBox): Point => {
+    const center = centerOf(bbox);
+    const dx = from.x - center.x;
+    const dy = from.y - center.y;
+    const halfWidth = (bbox.x2 - bbox.x1) / 2;
+    const halfHeight = (bbox.y2 - bbox.y1) / 2;
+    if (dx === 0 && dy === 0) return center;
+    const t = Math.min(
+        dx !== 0 ? halfWidth / Math.abs(dx) : Infinity,
+        dy !== 0 ? halfHeight / Math.abs(dy) : Infinity,
+    );
+    return t >= 1 ? center : { x: center.x + dx * t, y: center.y + dy * t };
+};
+
+const drawArrowHead = (ctx: CanvasRenderingContext2D, from: Point, to: Point, size: number) => {
+    const angle = Math.atan2(to.y - from.y, to.x - from.x);
+    ctx.beginPath();
+    ctx.moveTo(to.x, to.y);
+    ctx.lineTo(to.x - size * Math.cos(angle - Math.PI / 7), to.y - size * Math.sin(angle - Math.PI / 7));
+    ctx.lineTo(to.x - size * Math.cos(angle + Math.PI / 7), to.y - size * Math.sin(angle + Math.PI / 7));
+    ctx.closePath();
+    ctx.fill();
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, background: string, color: string) => {
+    const padding = 2;
+    const width = ctx.measureText(text).width + padding * 2;
+    const height = 11;
+    ctx.fillStyle = background;
+    ctx.fillRect(x, y - height, width, height);
+    ctx.fillStyle = color;
+    ctx.fillText(text, x + padding, y - 2.5);
+};
+
+// Greedy word wrap; long words are split by character
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(/(\s+)/).forEach(word => {
+            const candidate = line + word;
+            if (ctx.measureText(candidate).width <= maxWidth || !line.trim()) {
+                line = candidate;
+                while (ctx.measureText(line).width > maxWidth && line.length > 1) {
+                    let cut = line.length - 1;
+                    while (cut > 1 && ctx.measureText(line.slice(0, cut)).width > maxWidth) cut--;
+                    lines.push(line.slice(0, cut));
+                    line = line.slice(cut);
+                }
+            } else {
+                lines.push(line.trimEnd());
+                line = word.trimStart();
+            }
+        });
+        lines.push(line.trimEnd());
+    });
+    return lines;
+};
+
+/** Draw the tagging of one page onto a context that uses page coordinates (scale 1). */
+const drawAnnotations = (
+    ctx: CanvasRenderingContext2D,
+    page: number,
+    data: AnnotatedDocumentData,
+    colorSettings: ColorSettings,
+    visibility: VisibilitySettings,
+    options: AnnotatedExportOptions
+) => {
+    const entityColors = { ...DEFAULT_COLORS.entities, ...(colorSettings?.entities || {}) };
+    const relationshipColors = { ...DEFAULT_COLORS.relationships, ...(colorSettings?.relationships || {}) };
+    const isTagVisible = (tag: Tag) => tag.category === Category.Uncategorized
+        || visibility.tags[TAG_KEYS[tag.category] as TagVisibilityKey] !== false;
+
+    const pageTags = data.tags.filter(tag => tag.page === page);
+    const boxes = new Map<string, BoundingBox>();
+    pageTags.forEach(tag => boxes.set(tag.id, tag.bbox));
+    data.rawTextItems.filter(item => item.page === page).forEach(item => boxes.set(item.id, item.bbox));
+    data.descriptions.filter(description => description.page === page).forEach(description => boxes.set(description.id, description.bbox));
+
+    ctx.font = '9px sans-serif';
+    ctx.lineJoin = 'round';
+
+    if (visibility.descriptions) {
+        data.descriptions.filter(description => description.page === page).forEach(description => {
+            const { x1, y1, x2, y2 } = description.bbox;
+            ctx.fillStyle = `${entityColors.description}26`;
+            ctx.fillRect(x1, y1, x2 - x1, y2 - y1);
+            ctx.strokeStyle = entityColors.description;
+            ctx.lineWidth = 1;
+            ctx.strokeRect(x1, y1, x2 - x1, y2 - y1);
+        });
+    }
+
+    data.relationships.forEach(relationship => {
+        const key = RELATIONSHIP_KEYS[relationship.type];
+        if (!key || !visibility.relationships[key]) return;
+        const fromBox = boxes.get(relationship.from);
+        const toBox = boxes.get(relationship.to);
+        if (!fromBox || !toBox) return;
+        const start = edgePoint(centerOf(toBox), fromBox);
+        const end = edgePoint(centerOf(fromBox), toBox);
+        const color = relationshipColors[key];
+        ctx.strokeStyle = color;
+        ctx.fillStyle = color;
+        ctx.lineWidth = 1.2;
+        ctx.setLineDash(relationship.type === RelationshipType.Annotation || relationship.type === RelationshipType.Note ? [3, 3] : []);
+        ctx.beginPath();
+        ctx.moveTo(start.x, start.y);
+        ctx.lineTo(end.x, end.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        if (relationship.type === RelationshipType.Connection || relationship.type === RelationshipType.Installation) {
+            drawArrowHead(ctx, start, end, 6);
+        }
+    });
+
+    pageTags.filter(isTagVisible).forEach(tag => {
+        const { x1, y1, x2, y2 } = tag.bbox;
+        const color = entityColors[TAG_KEYS[tag.category]] || entityColors.uncategorized;
+        ctx.fillStyle = `${color}33`;
+        ctx.fillRect(x1, y1, x2 - x1, y2 - y1);
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1.5;
+        ctx.strokeRect(x1, y1, x2 - x1, y2 - y1);
+    });
+
+    if (options.includeLoops) {
+        const tagById = new Map(pageTags.map(tag => [tag.id, tag]));
+        data.loops.forEach(loop => {
+            const members = loop.tagIds.map(id => tagById.get(id)).filter(Boolean);
+            if (members.length === 0) return;
+            const padding = 4;
+            const x1 = Math.min(...members.map(tag => tag.bbox.x1)) - padding;
+            const y1 = Math.min(...members.map(tag => tag.bbox.y1)) - padding;
+            const x2 = Math.max(...members.map(tag => tag.bbox.x2)) + padding;
+            const y2 = Math.max(...members.map(tag => tag.bbox.y2)) + padding;
+            ctx.strokeStyle = LOOP_COLOR;
+            ctx.lineWidth = 1;
+            ctx.setLineDash([4, 2]);
+            ctx.strokeRect(x1, y1, x2 - x1, y2 - y1);
+            ctx.setLineDash([]);
+            drawLabel(ctx, `LOOP ${loop.name || loop.id}`, x1, y1, LOOP_COLOR, '#ffffff');
+        });
+    }
+
+    if (options.includeComments) {
+        const tagById = new Map(data.tags.map(tag => [tag.id, tag]));
+        data.comments.forEach((comment, index) => {
+            if (comment.page !== page || (comment.resolved && !options.includeResolvedComments)) return;
+            const position = getCommentPosition(comment, tagById);
+            const color = comment.resolved ? COMMENT_COLORS.resolved : COMMENT_COLORS.open;
+            const radius = 6;
+            const headY = position.y - radius * 2;
+            ctx.fillStyle = color;
+            ctx.beginPath();
+            ctx.moveTo(position.x, position.y);
+            ctx.lineTo(position.x - radius * 0.6, headY + radius * 0.5);
+            ctx.lineTo(position.x + radius * 0.6, headY + radius * 0.5);
+            ctx.closePath();
+            ctx.fill();
+            ctx.beginPath();
+            ctx.arc(position.x, headY, radius, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.fillStyle = '#ffffff';
+            ctx.textAlign = 'center';
+            ctx.fillText(String(index + 1), position.x, headY + 3);
+            ctx.textAlign = 'left';
+
+            // Callout with the comment text to the right of the pin
+            const lines = wrapText(ctx, `${comment.text}${comment.author ? ` — ${comment.author}` : ''}`, 160);
+            const lineHeight = 11;
+            const boxX = position.x + radius + 4;
+            const boxY = headY - radius;
+            const boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + 6;
+            ctx.fillStyle = '#fffbebee';
+            ctx.fillRect(boxX, boxY, boxWidth, lines.length * lineHeight + 4);
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 0.8;
+            ctx.strokeRect(boxX, boxY, boxWidth, lines.length * lineHeight + 4);
+            ctx.fillStyle = comment.resolved ? '#6b7280' : '#1f2937';
+            lines.forEach((line, lineIndex) => ctx.fillText(line, boxX + 3, boxY + 2 + lineHeight * (lineIndex + 1) - 2));
+        });
+    }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas export failed'))), type, quality);
+    });
+
+const renderAnnotatedPage = async (
+    pdfDoc: PDFDocumentProxy,
+    pageNumber: number,
+    data: AnnotatedDocumentData,
+    colorSettings: ColorSettings,
+    visibility: VisibilitySettings,
+    options: AnnotatedExportOptions
+): Promise<{ canvas: HTMLCanvasElement; width: number; height: number }> => {
+    const page = await pdfDoc.getPage(pageNumber);
+    // Tag coordinates are in the viewport space of scale 1, so the overlay only needs the same scale
+    const baseViewport = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: options.resolution });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: ctx, viewport }).promise;
+
+    ctx.save();
+    ctx.scale(options.resolution, options.resolution);
+    drawAnnotations(ctx, pageNumber, data, colorSettings, visibility, options);
+    ctx.restore();
+    page.cleanup();
+    return { canvas, width: baseViewport.width, height: baseViewport.height };
+};
+
+/** Write a PDF whose pages are the given JPEG images, each filling its page. */
+export const buildImagePdf = (pages: RenderedPage[]): Blob => {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (part: string | Uint8Array) => {
+        const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const beginObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    // Objects: 1 catalog, 2 page tree, then page / content / image for each page
+    const pageObjectId = (index: number) => 3 + index * 3;
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+    beginObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    beginObject(2);
+    write(`<< /Type /Pages /Kids [${pages.map((_, index) => `${pageObjectId(index)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+    pages.forEach((page, index) => {
+        const pageId = pageObjectId(index);
+        const width = page.width.toFixed(2);
+        const height = page.height.toFixed(2);
+        const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q\n`;
+
+        beginObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`);
+        beginObject(pageId + 1);
+        write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}endstream\nendobj\n`);
+        beginObject(pageId + 2);
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+        write(page.jpeg);
+        write('\nendstream\nendobj\n');
+    });
+
+    const objectCount = pageObjectId(pages.length);
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return new Blob(chunks, { type: 'application/pdf' });
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Render the selected pages with the tagging drawn on top and download them as one PDF
+ * or one PNG per page. Tags and relationships follow the viewer's visibility settings.
+ */
+export const exportAnnotatedDrawings = async (
+    pdfDoc: PDFDocumentProxy,
+    pdfFileName: string,
+    data: AnnotatedDocumentData,
+    colorSettings: ColorSettings,
+    visibility: VisibilitySettings,
+    options: AnnotatedExportOptions,
+    onProgress?: (done: number, total: number) => void
+): Promise<void> => {
+    const baseName = pdfFileName.replace(/\.pdf$/i, '');
+    const renderedPages: RenderedPage[] = [];
+
+    for (const [index, pageNumber] of options.pages.entries()) {
+        const { canvas, width, height } = await renderAnnotatedPage(pdfDoc, pageNumber, data, colorSettings, visibility, options);
+        if (options.format === 'png') {
+            downloadBlob(await canvasToBlob(canvas, 'image/png'), `${baseName}-annotated-p${pageNumber}.png`);
+        } else {
+            const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+            renderedPages.push({ jpeg, pixelWidth: canvas.width, pixelHeight: canvas.height, width, height });
+        }
+        // Release the bitmap before rendering the next page
+        canvas.width = 0;
+        canvas.height = 0;
+        onProgress?.(index + 1, options.pages.length);
+    }
+
+    if (options.format === 'pdf' && renderedPages.length > 0) {
+        downloadBlob(buildImagePdf(renderedPages), `${baseName}-annotated.pdf`);
+    }
+};
@@ -0,0 +1,89 @@
+import { ProjectData } from '../types.ts';
+
+const DB_NAME = 'pid-tagger-autosave';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+// Sessions kept for recovery; the least recently saved are pruned first
+const MAX_AUTOSAVE_SESSIONS = 10;
+// How often App writes the working session when it has changed
+export const AUTOSAVE_INTERVAL_MS = 30000;
+
+export interface AutosaveSession {
+    key: string;        // `${pdfFileName}:${sha256}`
+    pdfFileName: string;
+    savedAt: string;    // ISO timestamp
+    data: ProjectData;
+}
+
+const openDatabase = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            store.createIndex('savedAt', 'savedAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// Run one transaction and resolve with the request result once it commits
+const runTransaction = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T | undefined>((resolve, reject) => {
+            const transaction = db.transaction(STORE_NAME, mode);
+            const request = operation(transaction.objectStore(STORE_NAME));
+            transaction.oncomplete = () => resolve(request ? request.result : undefined);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+/**
+ * Identify a PDF by name and content hash, so a renamed copy or a new revision
+ * saved under the same name never picks up the wrong session.
+ */
+export const computeAutosaveKey = async (fileName: string, content: ArrayBuffer): Promise<string> =>
+    `${fileName}:${await computeContentHash(content)}`;
+
+/** Hex SHA-256 of a file's bytes. */
+export const computeContentHash = async (content: BufferSource): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', content);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const loadAutosave = async (key: string): Promise<AutosaveSession | null> => {
+    const session = await runTransaction<AutosaveSession>('readonly', store => store.get(key));
+    return session || null;
+};
+
+// Drop the oldest sessions beyond MAX_AUTOSAVE_SESSIONS
+const pruneAutosaves = async (): Promise<void> => {
+    const keys = await runTransaction<IDBValidKey[]>('readonly', store => store.index('savedAt').getAllKeys());
+    const excess = (keys || []).length - MAX_AUTOSAVE_SESSIONS;
+    if (excess <= 0) return;
+    await runTransaction('readwrite', store => {
+        keys.slice(0, excess).forEach(key => store.delete(key));
+    });
+};
+
+export const saveAutosave = async (key: string, data: ProjectData): Promise<void> => {
+    const session: AutosaveSession = {
+        key,
+        pdfFileName: data.pdfFileName,
+        savedAt: new Date().toISOString(),
+        data,
+    };
+    await runTransaction('readwrite', store => store.put(session));
+    await pruneAutosaves();
+};
@@ -0,0 +1,44 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CommentAnchor, DrawingComment, Point, Tag } from '../types.ts';
+
+export const createDrawingComment = (
+    anchor: CommentAnchor,
+    text: string,
+    author: string,
+    documentId?: string
+): DrawingComment => ({
+    id: uuidv4(),
+    page: anchor.page,
+    x: anchor.x,
+    y: anchor.y,
+    ...(anchor.tagId ? { tagId: anchor.tagId } : {}),
+    text,
+    ...(author ? { author } : {}),
+    createdAt: new Date().toISOString(),
+    resolved: false,
+    ...(documentId ? { documentId } : {}),
+});
+
+/** Resolve or reopen a comment; reopening clears who resolved it and when. */
+export const setCommentResolved = (comment: DrawingComment, resolved: boolean, by: string): DrawingComment => {
+    const reopened: DrawingComment = { ...comment, resolved: false };
+    delete reopened.resolvedBy;
+    delete reopened.resolvedAt;
+    if (!resolved) return reopened;
+    return {
+        ...reopened,
+        resolved: true,
+        ...(by ? { resolvedBy: by } : {}),
+        resolvedAt: new Date().toISOString(),
+    };
+};
+
+/**
+ * Page position of a comment's pin: the top-right corner of its tag while the tag exists,
+ * else the point it was placed at.
+ */
+export const getCommentPosition = (comment: DrawingComment, tagById: Map<string, Tag>): Point => {
+    const tag = comment.tagId ? tagById.get(comment.tagId) : undefined;
+    if (tag && tag.page === comment.page) return { x: tag.bbox.x2, y: tag.bbox.y1 };
+    return { x: comment.x, y: comment.y };
+};
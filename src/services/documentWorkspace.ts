@@ -0,0 +1,106 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DocumentData, Loop, PdfDocumentEntry, ProjectData, Relationship } from '../types.ts';
+
+export const createDocumentEntry = (fileName: string, file: File | null = null, id: string = uuidv4()): PdfDocumentEntry => ({
+    id,
+    fileName,
+    file,
+    autosaveKey: null,
+});
+
+export const createEmptyDocumentData = (): DocumentData => ({
+    tags: [],
+    rawTextItems: [],
+    relationships: [],
+    descriptions: [],
+    loops: [],
+    detectedLines: [],
+    currentPage: 1,
+});
+
+// Items are stamped with their documentId when created; this fills in any that predate that, e.g. from older project files
+export const assignDocumentId = <T extends { documentId?: string }>(items: T[], documentId: string): T[] =>
+    items.every(item => item.documentId === documentId)
+        ? items
+        : items.map(item => (item.documentId === documentId ? item : { ...item, documentId }));
+
+export const stampDocumentData = (data: DocumentData, documentId: string): DocumentData => ({
+    ...data,
+    tags: assignDocumentId(data.tags, documentId),
+    rawTextItems: assignDocumentId(data.rawTextItems, documentId),
+    descriptions: assignDocumentId(data.descriptions, documentId),
+    detectedLines: assignDocumentId(data.detectedLines, documentId),
+});
+
+/**
+ * Concatenate every document's data in document order. The active document's data is
+ * passed separately because it lives in App state rather than in `storedDocuments`.
+ */
+export const collectWorkspaceData = (
+    documents: PdfDocumentEntry[],
+    activeDocumentId: string | null,
+    activeData: DocumentData,
+    storedDocuments: Record<string, DocumentData>
+): DocumentData => {
+    const result = createEmptyDocumentData();
+    for (const document of documents) {
+        const data = document.id === activeDocumentId
+            ? stampDocumentData(activeData, document.id)
+            : storedDocuments[document.id];
+        if (!data) continue;
+        result.tags.push(...data.tags);
+        result.rawTextItems.push(...data.rawTextItems);
+        result.relationships.push(...data.relationships);
+        result.descriptions.push(...data.descriptions);
+        result.loops.push(...data.loops);
+        result.detectedLines.push(...data.detectedLines);
+    }
+    return result;
+};
+
+/**
+ * Split flat project data back into per-document data. Items without a known documentId
+ * (files saved before multi-PDF projects) belong to `fallbackDocumentId`. Relationships follow
+ * the document of their source entity, loops the document of their first tag.
+ */
+export const partitionProjectData = (
+    data: Pick<ProjectData, 'tags' | 'rawTextItems' | 'relationships' | 'descriptions' | 'loops'>,
+    documentIds: string[],
+    fallbackDocumentId: string
+): Record<string, DocumentData> => {
+    const known = new Set(documentIds);
+    const resolve = (documentId?: string) => (documentId && known.has(documentId) ? documentId : fallbackDocumentId);
+    const partitions: Record<string, DocumentData> = {};
+    const bucket = (documentId: string) => {
+        if (!partitions[documentId]) partitions[documentId] = createEmptyDocumentData();
+        return partitions[documentId];
+    };
+    documentIds.forEach(bucket);
+
+    const ownerById = new Map<string, string>();
+    for (const tag of data.tags) {
+        const documentId = resolve(tag.documentId);
+        ownerById.set(tag.id, documentId);
+        bucket(documentId).tags.push({ ...tag, documentId });
+    }
+    for (const item of data.rawTextItems) {
+        const documentId = resolve(item.documentId);
+        ownerById.set(item.id, documentId);
+        bucket(documentId).rawTextItems.push({ ...item, documentId });
+    }
+    for (const description of data.descriptions || []) {
+        const documentId = resolve(description.documentId);
+        ownerById.set(description.id, documentId);
+        bucket(documentId).descriptions.push({ ...description, documentId });
+    }
+    data.relationships.forEach((relationship: Relationship) => {
+        const documentId = ownerById.get(relationship.from) || ownerById.get(relationship.to) || fallbackDocumentId;
+        bucket(documentId).relationships.push(relationship);
+    });
+    (data.loops || []).forEach((loop: Loop) => {
+        const documentId = loop.tagIds.map(id => ownerById.get(id)).find(Boolean) || fallbackDocumentId;
+        bucket(documentId).loops.push(loop);
+    });
+
+    return partitions;
+};
@@ -1,5 +1,8 @@
-import { Category, RelationshipType } from '../types.ts';
+import { Category, RelationshipType, LineNumberGrammar, ValidationIssue } from '../types.ts';
 import * as XLSX from 'xlsx';
+import { parseLineNumber } from './lineNumberParser.ts';
+import { VALIDATION_RULES } from './validationService.ts';
+import { resolveInstrumentType } from './isaDecoder.ts';
 
 // Helper function to calculate Euclidean distance between two tags
 const calculateDistance = (tag1, tag2) => {
@@ -21,8 +24,10 @@ const findClosestLineTag = (instrumentTag, lineTags) => {
     return null;
   }
 
-  // Filter line tags to same page
-  const samePageLineTags = lineTags.filter(lineTag => lineTag.page === instrumentTag.page);
+  // Filter line tags to same page of the same PDF
+  const samePageLineTags = lineTags.filter(lineTag =>
+    lineTag.page === instrumentTag.page && lineTag.documentId === instrumentTag.documentId
+  );
   if (samePageLineTags.length === 0) {
     return null;
   }
@@ -67,51 +72,38 @@ const extractLoopNumber = (tagText, customLoopRules = {}) => {
   return '';
 };
 
-// Helper function to determine instrument type from tag
-const getInstrumentType = (tagText, customMappings = {}) => {
-  const match = tagText.match(/^([A-Z]+)[- ]?(\d+)/i);
-  if (!match) return '';
-
-  const functionCode = match[1].toUpperCase();
-
-  // Exclude FF as it's not an instrument tag
-  if (functionCode === 'FF') return '';
-
-  // Only use custom mappings from settings
-  if (customMappings[functionCode]) {
-    return customMappings[functionCode].instrumentType;
-  }
-
-  // Return empty string if no custom mapping exists
-  return '';
-};
-
-// Helper function to determine I/O type from instrument
-const getIOType = (tagText, customMappings = {}) => {
-  const match = tagText.match(/^([A-Z]+)[- ]?(\d+)/i);
-  if (!match) return '';
-
-  const functionCode = match[1].toUpperCase();
-
-  // Exclude FF as it's not an instrument tag
-  if (functionCode === 'FF') return '';
-
-  // Only use custom mappings from settings
-  if (customMappings[functionCode]) {
-    return customMappings[functionCode].ioType;
-  }
-
-  // Return empty string if no custom mapping exists
-  return '';
-};
-
-export const exportToExcel = (tags, relationships, rawTextItems, descriptions = [], equipmentShortSpecs = [], loops = [], comments = [], detectedLines = [], includeNoteDescriptions = false, instrumentMappings = {}, loopRules = {}) => {
-  
+const TYPE_SOURCE_LABELS = { mapped: 'Mapped', decoded: 'ISA-5.1', unknown: '' };
+
+const REVIEW_STATUS_EXPORT_LABELS = { unreviewed: 'Unreviewed', approved: 'Approved', rejected: 'Rejected', query: 'Query' };
+
+// QA sign-off columns shared by the per-tag sheets
+const reviewColumns = (tag) => ({
+  'Review Status': REVIEW_STATUS_EXPORT_LABELS[tag.review?.status || 'unreviewed'],
+  'Reviewer': tag.review?.reviewer || '',
+  'Reviewed At': tag.review?.reviewedAt ? new Date(tag.review.reviewedAt).toLocaleString() : '',
+  'Review Comment': tag.review?.comment || '',
+});
+
+export const exportToExcel = (tags, relationships, rawTextItems, descriptions = [], equipmentShortSpecs = [], loops = [], comments = [], detectedLines = [], includeNoteDescriptions = false, instrumentMappings = {}, loopRules = {}, documents = [], lineNumberGrammar?: LineNumberGrammar, issues: ValidationIssue[] = []) => {
+  // Multi-PDF projects: page numbers repeat across PDFs, so pages are keyed by document too
+  const isMultiDocument = documents.length > 1;
+  const documentOrder = new Map(documents.map((doc, index) => [doc.id, index]));
+  const documentNames = new Map(documents.map(doc => [doc.id, doc.fileName]));
+  const pageKey = (item) => `${item.documentId || ''}:${item.page}`;
+  const comparePosition = (a, b) => {
+    const docA = documentOrder.get(a.documentId) ?? 0;
+    const docB = documentOrder.get(b.documentId) ?? 0;
+    if (docA !== docB) return docA - docB;
+    return a.page - b.page;
+  };
+  const withDocumentColumn = (row, item) =>
+    isMultiDocument ? { 'PDF': documentNames.get(item.documentId) || '', ...row } : row;
 
   const instruments = tags.filter(t => t.category === Category.Instrument);
   const drawingNumbers = tags.filter(t => t.category === Category.DrawingNumber);
   const noteHoldTags = tags.filter(t => t.category === Category.NotesAndHolds);
   const lineTags = tags.filter(t => t.category === Category.Line);
+  const equipmentTags = tags.filter(t => t.category === Category.Equipment);
 
   // Debug: Check for Annotation relationships
   const annotationRelationships = relationships.filter(r => r.type === RelationshipType.Annotation);
@@ -132,7 +124,7 @@ export const exportToExcel = (tags, relationships, rawTextItems, descriptions =
   }
 
   // Create a map for quick lookup of drawing number by page
-  const pageToDrawingNumberMap = new Map(drawingNumbers.map(tag => [tag.page, tag.text]));
+  const pageToDrawingNumberMap = new Map(drawingNumbers.map(tag => [pageKey(tag), tag.text]));
 
   // Create a map for note relationships (instrument -> note tags)
   const instrumentToNoteMap = new Map();
@@ -185,43 +177,38 @@ export const exportToExcel = (tags, relationships, rawTextItems, descriptions =
     }
   }
 
+  // Extract just the note text part (remove the NOTE number prefix)
+  // noteTag.text is like "NOTE 1" or "NOTE 2", we want just the description
+  const formatNoteText = (noteTag) => {
+    if (includeNoteDescriptions) {
+      const description = noteTagToDescriptionMap.get(noteTag.id);
+      if (description) return description;
+    }
+    const noteText = noteTag.text.replace(/^NOTE\s*\d+\s*:?\s*/i, '').trim();
+    return noteText || noteTag.text; // Fallback to original if nothing left after removal
+  };
+
+  // Create a map for line note relationships (line tag -> note texts)
+  const lineToNoteMap = new Map();
+
   // Process Note relationships to build the mapping
-  let notesWithDescriptions = 0;
   relationships
     .filter(r => r.type === RelationshipType.Note)
     .forEach(rel => {
       const fromTag = tags.find(t => t.id === rel.from);
       const toTag = noteHoldTags.find(t => t.id === rel.to);
-
-      if (fromTag && fromTag.category === Category.Instrument && toTag) {
-        if (!instrumentToNoteMap.has(fromTag.id)) {
-          instrumentToNoteMap.set(fromTag.id, []);
-        }
-        // Extract just the note text part (remove the NOTE number prefix)
-        // toTag.text is like "NOTE 1" or "NOTE 2", we want just the description
-        let noteText = '';
-        if (includeNoteDescriptions) {
-          const description = noteTagToDescriptionMap.get(toTag.id);
-          if (description) {
-            noteText = description;
-            notesWithDescriptions++;
-          } else {
-            // If no description, just show the note tag text without NOTE prefix
-            noteText = toTag.text.replace(/^NOTE\s*\d+\s*:?\s*/i, '').trim();
-            if (!noteText) {
-              noteText = toTag.text; // Fallback to original if nothing left after removal
-            }
-          }
-        } else {
-          // Remove NOTE prefix from the tag text
-          noteText = toTag.text.replace(/^NOTE\s*\d+\s*:?\s*/i, '').trim();
-          if (!noteText) {
-            noteText = toTag.text; // Fallback to original if nothing left after removal
-          }
-        }
-        if (noteText) {
-          instrumentToNoteMap.get(fromTag.id).push(noteText);
-        }
+      if (!fromTag || !toTag) return;
+
+      const targetMap = fromTag.category === Category.Instrument ? instrumentToNoteMap
+        : fromTag.category === Category.Line ? lineToNoteMap
+        : null;
+      if (!targetMap) return;
+      if (!targetMap.has(fromTag.id)) {
+        targetMap.set(fromTag.id, []);
+      }
+      const noteText = formatNoteText(toTag);
+      if (noteText) {
+        targetMap.get(fromTag.id).push(noteText);
       }
     });
 
@@ -230,11 +217,21 @@ export const exportToExcel = (tags, relationships, rawTextItems, descriptions =
   }
 
   // Create a map for line associations (instrument -> line number)
-  // Find the closest line tag for each instrument tag
+  // Installation relationships (traced pipe geometry or manual) take precedence;
+  // the closest line tag is only a fallback for instruments without one
   const instrumentToLineNumberMap = new Map();
 
-  
+  const lineTextById = new Map(lineTags.map(t => [t.id, t.text]));
+  relationships
+    .filter(r => r.type === RelationshipType.Installation && lineTextById.has(r.to))
+    .forEach(rel => {
+      if (!instrumentToLineNumberMap.has(rel.from)) {
+        instrumentToLineNumberMap.set(rel.from, lineTextById.get(rel.to));
+      }
+    });
+
   instruments.forEach(instrument => {
+    if (instrumentToLineNumberMap.has(instrument.id)) return;
     const closestLineTag = findClosestLineTag(instrument, lineTags);
     if (closestLineTag) {
       instrumentToLineNumberMap.set(instrument.id, closestLineTag.text);
@@ -253,20 +250,21 @@ export const exportToExcel = (tags, relationships, rawTextItems, descriptions =
   // This is the primary export view with automatic loop number extraction
   const consolidatedInstrumentData = instruments
     .sort((a, b) => {
-      // Sort by: 1. Page, 2. Loop Number, 3. Tag Text
-      if (a.page !== b.page) return a.page - b.page;
+      // Sort by: 1. PDF and Page, 2. Loop Number, 3. Tag Text
+      const position = comparePosition(a, b);
+      if (position !== 0) return position;
       const loopA = extractLoopNumber(a.text, loopRules);
       const loopB = extractLoopNumber(b.text, loopRules);
       if (loopA !== loopB) return loopA.localeCompare(loopB);
       return a.text.localeCompare(b.text);
     })
     .map((tag, index) => {
-      const drawingNumber = pageToDrawingNumberMap.get(tag.page) || '';
+      const drawingNumber = pageToDrawingNumberMap.get(pageKey(tag)) || '';
       const loopNumber = extractLoopNumber(tag.text, loopRules);
 
 
-      const instrumentType = getInstrumentType(tag.text, instrumentMappings);
-      const ioType = getIOType(tag.text, instrumentMappings);
+      // Mapping table entries win; other codes are decoded from their ISA-5.1 letters
+      const { instrumentType, ioType, source: typeSource } = resolveInstrumentType(tag.text, instrumentMappings);
 
       // Get the closest line number for this instrument
       const lineNumber = instrumentToLineNumberMap.get(tag.id) || '';
@@ -278,7 +276,7 @@ export const exportToExcel = (tags, relationships, rawTextItems, descriptions =
       // Format is either "NOTE X" or "NOTE X: description text..." if descriptions are included
       const noteContent = connectedNotes.join('; ');
 
-      return {
+      return withDocumentColumn({
         'No.': index + 1,                    // Sequential number
         'P&ID Number': drawingNumber,        // Drawing number for the page
         'Loop Number': loopNumber,           // Extracted loop (e.g., T-205 from TT-205)
@@ -286,10 +284,12 @@ export const exportToExcel = (tags, relationships, rawTextItems, descriptions =
         'Line Number': lineNumber,           // Associated line number (via graphics detection)
         'Instrument Type': instrumentType,   // Rule-based instrument type
         'I/O Type': ioType,                  // AI/AO/DI/DO/Local based on instrument type
+        'Type Source': TYPE_SOURCE_LABELS[typeSource],  // Mapping table or ISA-5.1 decoder
         'NOTE': noteContent,                 // Note descriptions extracted from top-right area
+        ...reviewColumns(tag),
         // Future columns (to be implemented):
         // 'System': '',                      // Rule-based system identification
-      };
+      }, tag);
     });
 
 
@@ -299,10 +299,152 @@ export const exportToExcel = (tags, relationships, rawTextItems, descriptions =
   const wsConsolidated = XLSX.utils.json_to_sheet(consolidatedInstrumentData);
   XLSX.utils.book_append_sheet(wb, wsConsolidated, 'Instrument List');
 
+  // Line List sheet: one row per unique line number across all sheets, split by the
+  // line number grammar from settings. Duplicates and conflicts are flagged in 'Check'.
+  if (lineTags.length > 0) {
+    const normalizeLineNumber = (text) => text.replace(/\s+/g, '').toUpperCase();
+    const tagById = new Map(tags.map(t => [t.id, t]));
+
+    const lineGroups = new Map();
+    [...lineTags].sort(comparePosition).forEach(tag => {
+      const key = normalizeLineNumber(tag.text);
+      if (!lineGroups.has(key)) {
+        lineGroups.set(key, { text: tag.text, tags: [], parsed: parseLineNumber(tag.text, lineNumberGrammar) });
+      }
+      lineGroups.get(key).tags.push(tag);
+    });
+
+    // Line numbers sharing a sequence number but differing in size, service or class
+    const groupsBySequence = new Map();
+    lineGroups.forEach(group => {
+      if (!group.parsed.isValid || !group.parsed.number) return;
+      const groups = groupsBySequence.get(group.parsed.number) || [];
+      groups.push(group);
+      groupsBySequence.set(group.parsed.number, groups);
+    });
+
+    const unique = (values) => [...new Set(values.filter(Boolean))];
+
+    const lineListData = [...lineGroups.values()]
+      .sort((a, b) => comparePosition(a.tags[0], b.tags[0]) || a.text.localeCompare(b.text))
+      .map((group, index) => {
+        const { parsed } = group;
+        const lineTagIds = new Set(group.tags.map(t => t.id));
+
+        const installedInstruments = unique(relationships
+          .filter(r => r.type === RelationshipType.Installation && lineTagIds.has(r.to))
+          .map(r => tagById.get(r.from))
+          .filter(t => t && t.category === Category.Instrument)
+          .map(t => t.text));
+        const notes = unique(group.tags.flatMap(t => lineToNoteMap.get(t.id) || []));
+
+        const pageKeys = group.tags.map(pageKey);
+        const duplicatePageCount = pageKeys.length - new Set(pageKeys).size;
+        const conflictingLines = (groupsBySequence.get(parsed.number) || [])
+          .filter(other => other !== group)
+          .map(other => other.text);
+
+        const checks = [];
+        if (!parsed.isValid) checks.push('PARSE FAILED');
+        if (duplicatePageCount > 0) checks.push(`DUPLICATE: ${duplicatePageCount + 1}x on one sheet`);
+        if (conflictingLines.length > 0) checks.push(`CONFLICT: ${conflictingLines.join(', ')}`);
+
+        const row = {
+          'No.': index + 1,
+          'Line Number': group.text,
+          'Size': parsed.size || '',
+          'Size (inch)': parsed.sizeInches ?? '',
+          'Size (DN)': parsed.sizeDn ?? '',
+          'Service': parsed.service || '',
+          'Sequence No.': parsed.number || '',
+          'Piping Class': parsed.pipingClass || '',
+          'Insulation/Tracing': parsed.suffix || '',
+          'P&ID Numbers': unique(group.tags.map(t => pageToDrawingNumberMap.get(pageKey(t)))).join('; '),
+          'Pages': unique(group.tags.map(t => String(t.page))).join(', '),
+          'Occurrences': group.tags.length,
+          'Instruments': installedInstruments.join(', '),
+          'NOTE': notes.join('; '),
+          'Check': checks.join(' | '),
+        };
+        return isMultiDocument
+          ? { 'PDF': unique(group.tags.map(t => documentNames.get(t.documentId))).join('; '), ...row }
+          : row;
+      });
+
+    const wsLineList = XLSX.utils.json_to_sheet(lineListData);
+    // No cell styling in the community build of SheetJS; a filter on 'Check' surfaces the flagged rows
+    if (wsLineList['!ref']) {
+      wsLineList['!autofilter'] = { ref: wsLineList['!ref'] };
+    }
+    XLSX.utils.book_append_sheet(wb, wsLineList, 'Line List');
+  }
+
+  // Equipment List sheet (pumps, vessels, exchangers, ...)
+  if (equipmentTags.length > 0) {
+    const equipmentData = [...equipmentTags]
+      .sort((a, b) => {
+        // Sort by: 1. PDF and Page, 2. Tag Text
+        const position = comparePosition(a, b);
+        if (position !== 0) return position;
+        return a.text.localeCompare(b.text);
+      })
+      .map((tag, index) => withDocumentColumn({
+        'No.': index + 1,
+        'P&ID Number': pageToDrawingNumberMap.get(pageKey(tag)) || '',
+        'Equipment Number': tag.text,
+        'Page': tag.page,
+        ...reviewColumns(tag),
+      }, tag));
+
+    const wsEquipment = XLSX.utils.json_to_sheet(equipmentData);
+    XLSX.utils.book_append_sheet(wb, wsEquipment, 'Equipment List');
+  }
+
+  // Issues sheet (validation results, most severe first)
+  if (issues.length > 0) {
+    const tagTextById = new Map(tags.map(tag => [tag.id, tag.text]));
+    const ruleLabels = new Map(VALIDATION_RULES.map(rule => [rule.id, rule.label]));
+    const issuesData = issues.map((issue, index) => withDocumentColumn({
+      'No.': index + 1,
+      'Severity': issue.severity.toUpperCase(),
+      'Rule': ruleLabels.get(issue.ruleId) || issue.ruleId,
+      'Page': issue.page,
+      'P&ID Number': pageToDrawingNumberMap.get(pageKey(issue)) || '',
+      'Message': issue.message,
+      'Items': issue.entityIds.map(id => tagTextById.get(id)).filter(Boolean).join(', '),
+    }, issue));
+
+    const wsIssues = XLSX.utils.json_to_sheet(issuesData);
+    wsIssues['!autofilter'] = { ref: wsIssues['!ref'] };
+    XLSX.utils.book_append_sheet(wb, wsIssues, 'Issues');
+  }
+
+  // Comments sheet (markup pins, in drawing order)
+  if (comments.length > 0) {
+    const tagTextById = new Map(tags.map(tag => [tag.id, tag.text]));
+    const commentsData = [...comments]
+      .sort(comparePosition)
+      .map((comment, index) => withDocumentColumn({
+        'No.': index + 1,
+        'Page': comment.page,
+        'P&ID Number': pageToDrawingNumberMap.get(pageKey(comment)) || '',
+        'Tag': comment.tagId ? tagTextById.get(comment.tagId) || '' : '',
+        'Comment': comment.text,
+        'Author': comment.author || '',
+        'Created At': comment.createdAt ? new Date(comment.createdAt).toLocaleString() : '',
+        'Status': comment.resolved ? 'Resolved' : 'Open',
+        'Resolved By': comment.resolvedBy || '',
+        'Resolved At': comment.resolvedAt ? new Date(comment.resolvedAt).toLocaleString() : '',
+      }, comment));
+
+    const wsComments = XLSX.utils.json_to_sheet(commentsData);
+    wsComments['!autofilter'] = { ref: wsComments['!ref'] };
+    XLSX.utils.book_append_sheet(wb, wsComments, 'Comments');
+  }
 
   // Detected Lines sheet (if provided - for debugging purposes)
   if (detectedLines && detectedLines.length > 0) {
-    const detectedLinesData = detectedLines.map((line, index) => ({
+    const detectedLinesData = detectedLines.map((line, index) => withDocumentColumn({
       'No.': index + 1,
       'Line ID': line.id || '',
       'Start X': line.start ? Math.round(line.start.x) : '',
@@ -317,7 +459,7 @@ export const exportToExcel = (tags, relationships, rawTextItems, descriptions =
           Math.pow(line.end.x - line.start.x, 2) +
           Math.pow(line.end.y - line.start.y, 2)
         )) : ''
-    }));
+    }, line));
 
     const wsDetectedLines = XLSX.utils.json_to_sheet(detectedLinesData);
     XLSX.utils.book_append_sheet(wb, wsDetectedLines, 'Detected Lines');
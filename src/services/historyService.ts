@@ -0,0 +1,69 @@
+import { Description, DrawingComment, Loop, RawTextItem, Relationship, Tag } from '../types.ts';
+
+// Undo steps kept at most; older steps are dropped first
+export const MAX_HISTORY_STEPS = 100;
+// Rough memory budget: total array entries retained by the undo stack.
+// Snapshots share unchanged arrays, so only arrays that differ from the next step count.
+export const MAX_HISTORY_RETAINED_ITEMS = 500000;
+
+export interface HistorySnapshot {
+    tags: Tag[];
+    rawTextItems: RawTextItem[];
+    relationships: Relationship[];
+    descriptions: Description[];
+    loops: Loop[];
+    comments: DrawingComment[];
+}
+
+export interface HistoryStacks {
+    past: HistorySnapshot[];   // Oldest first
+    future: HistorySnapshot[]; // Most recently undone last
+}
+
+const SNAPSHOT_KEYS: (keyof HistorySnapshot)[] = ['tags', 'rawTextItems', 'relationships', 'descriptions', 'loops', 'comments'];
+
+export const createHistory = (): HistoryStacks => ({ past: [], future: [] });
+
+// State arrays are replaced, never mutated, so reference equality means "unchanged"
+export const isSameSnapshot = (a: HistorySnapshot, b: HistorySnapshot) =>
+    SNAPSHOT_KEYS.every(key => a[key] === b[key]);
+
+// Entries a snapshot keeps alive beyond what its newer neighbour already shares
+const retainedItems = (snapshot: HistorySnapshot, newer?: HistorySnapshot) =>
+    SNAPSHOT_KEYS.reduce((sum, key) => (newer && newer[key] === snapshot[key] ? sum : sum + snapshot[key].length), 0);
+
+const trimPast = (past: HistorySnapshot[]) => {
+    const trimmed = past.slice(-MAX_HISTORY_STEPS);
+    let total = trimmed.reduce((sum, snapshot, i) => sum + retainedItems(snapshot, trimmed[i + 1]), 0);
+    while (trimmed.length > 1 && total > MAX_HISTORY_RETAINED_ITEMS) {
+        total -= retainedItems(trimmed[0], trimmed[1]);
+        trimmed.shift();
+    }
+    return trimmed;
+};
+
+// Record the state as it was before a change; a new change invalidates the redo stack
+export const pushHistory = (history: HistoryStacks, snapshot: HistorySnapshot): HistoryStacks => ({
+    past: trimPast([...history.past, snapshot]),
+    future: [],
+});
+
+/**
+ * Step back from `current`. Entries identical to `current` (recorded by no-op changes) are skipped.
+ * Returns null when there is nothing to undo.
+ */
+export const undoHistory = (history: HistoryStacks, current: HistorySnapshot) => {
+    const past = [...history.past];
+    while (past.length > 0 && isSameSnapshot(past[past.length - 1], current)) past.pop();
+    if (past.length === 0) return null;
+    const snapshot = past.pop();
+    return { history: { past, future: [...history.future, current] }, snapshot };
+};
+
+export const redoHistory = (history: HistoryStacks, current: HistorySnapshot) => {
+    const future = [...history.future];
+    while (future.length > 0 && isSameSnapshot(future[future.length - 1], current)) future.pop();
+    if (future.length === 0) return null;
+    const snapshot = future.pop();
+    return { history: { past: trimPast([...history.past, current]), future }, snapshot };
+};
@@ -0,0 +1,159 @@
+import * as XLSX from 'xlsx';
+import {
+    Category,
+    InstrumentIndex,
+    InstrumentIndexColumnMapping,
+    InstrumentIndexLoopMismatch,
+    InstrumentIndexMismatch,
+    InstrumentIndexReconciliation,
+    InstrumentIndexRow,
+    Loop,
+    Tag,
+} from '../types.ts';
+
+// Header names seen in client indexes, compared after normalizeHeader
+const HEADER_ALIASES: Record<keyof InstrumentIndexColumnMapping, string[]> = {
+    tagNumber: ['TAGNUMBER', 'TAGNO', 'TAG', 'INSTRUMENTTAG', 'INSTRUMENTTAGNO', 'INSTRUMENTNO', '태그번호', '태그'],
+    loopNumber: ['LOOPNUMBER', 'LOOPNO', 'LOOP', '루프번호', '루프'],
+    drawingNumber: ['P&IDNUMBER', 'P&IDNO', 'P&ID', 'PIDNO', 'PID', 'DRAWINGNUMBER', 'DRAWINGNO', 'DWGNO', 'DWG', '도면번호'],
+};
+
+const normalizeHeader = (header: string) => header.replace(/[\s._-]+/g, '').toUpperCase();
+
+// Index and drawing often differ in spacing and hyphenation (FT-101 vs FT 101 vs FT101)
+export const normalizeTagNumber = (text: string) => text.replace(/[\s-]+/g, '').toUpperCase();
+
+const normalizeDrawingNumber = (text: string) => text.replace(/\s+/g, '').toUpperCase();
+
+// A drawing number with the sheet appended (EB-114739-001) still matches the bare number
+const isSameDrawing = (a: string, b: string) => {
+    const left = normalizeDrawingNumber(a);
+    const right = normalizeDrawingNumber(b);
+    return left === right || left.startsWith(right) || right.startsWith(left);
+};
+
+/**
+ * Read the first sheet of an XLSX/XLS/CSV file. The first non-empty row is the header row;
+ * blank or repeated headers are replaced with "Column N" so every column can be mapped.
+ */
+export const readInstrumentIndexFile = async (file: File): Promise<Omit<InstrumentIndex, 'mapping'>> => {
+    const isCsv = /\.csv$/i.test(file.name) || file.type === 'text/csv';
+    const workbook = isCsv
+        ? XLSX.read(await file.text(), { type: 'string' })
+        : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) throw new Error('스프레드시트에 시트가 없습니다.');
+
+    const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: false, blankrows: true });
+    const headerIndex = table.findIndex(row => row.some(cell => String(cell).trim() !== ''));
+    if (headerIndex === -1) throw new Error('스프레드시트가 비어 있습니다.');
+
+    const seen = new Set<string>();
+    const headers = table[headerIndex].map((cell, index) => {
+        let header = String(cell).trim() || `Column ${index + 1}`;
+        if (seen.has(header)) header = `${header} (${index + 1})`;
+        seen.add(header);
+        return header;
+    });
+
+    // Blank rows are kept in `table` so rowNumber matches the spreadsheet (assuming data starts at row 1)
+    const records = table.slice(headerIndex + 1)
+        .map((row, index) => {
+            const values: Record<string, string> = {};
+            headers.forEach((header, column) => {
+                values[header] = String(row[column] ?? '').trim();
+            });
+            return { rowNumber: headerIndex + index + 2, values };
+        })
+        .filter(record => Object.values(record.values).some(value => value !== ''));
+
+    return { fileName: file.name, headers, records };
+};
+
+export const guessColumnMapping = (headers: string[]): InstrumentIndexColumnMapping => {
+    const find = (field: keyof InstrumentIndexColumnMapping) => {
+        const aliases = HEADER_ALIASES[field];
+        return headers.find(header => aliases.includes(normalizeHeader(header))) || '';
+    };
+    return {
+        tagNumber: find('tagNumber') || headers[0] || '',
+        loopNumber: find('loopNumber'),
+        drawingNumber: find('drawingNumber'),
+    };
+};
+
+export const toInstrumentIndexRows = (index: InstrumentIndex): InstrumentIndexRow[] =>
+    index.records
+        .map(({ rowNumber, values }) => ({
+            rowNumber,
+            tagNumber: values[index.mapping.tagNumber] || '',
+            loopNumber: index.mapping.loopNumber ? values[index.mapping.loopNumber] || '' : '',
+            drawingNumber: index.mapping.drawingNumber ? values[index.mapping.drawingNumber] || '' : '',
+        }))
+        .filter(row => row.tagNumber !== '');
+
+/**
+ * Compare the client index with the instrument tags found on the drawings.
+ * `tags` and `loops` should cover every document of the project; drawing numbers are looked up
+ * per page. Loop numbers are only compared for tags that belong to a loop.
+ */
+export const reconcileInstrumentIndex = (index: InstrumentIndex, tags: Tag[], loops: Loop[] = []): InstrumentIndexReconciliation => {
+    const rows = toInstrumentIndexRows(index);
+    const instruments = tags.filter(tag => tag.category === Category.Instrument);
+
+    const pageKey = (tag: Tag) => `${tag.documentId || ''}:${tag.page}`;
+    const drawingNumberByPage = new Map<string, string>();
+    tags.filter(tag => tag.category === Category.DrawingNumber).forEach(tag => {
+        if (!drawingNumberByPage.has(pageKey(tag))) drawingNumberByPage.set(pageKey(tag), tag.text);
+    });
+
+    const loopNamesByTagId = new Map<string, string[]>();
+    loops.forEach(loop => {
+        loop.tagIds.forEach(tagId => {
+            loopNamesByTagId.set(tagId, [...(loopNamesByTagId.get(tagId) || []), loop.name || loop.id]);
+        });
+    });
+
+    const instrumentsByNumber = new Map<string, Tag[]>();
+    instruments.forEach(tag => {
+        const key = normalizeTagNumber(tag.text);
+        instrumentsByNumber.set(key, [...(instrumentsByNumber.get(key) || []), tag]);
+    });
+
+    const indexedNumbers = new Set<string>();
+    const notOnDrawings: InstrumentIndexRow[] = [];
+    const drawingMismatches: InstrumentIndexMismatch[] = [];
+    const loopMismatches: InstrumentIndexLoopMismatch[] = [];
+    let matchedCount = 0;
+
+    rows.forEach(row => {
+        const key = normalizeTagNumber(row.tagNumber);
+        indexedNumbers.add(key);
+        const occurrences = instrumentsByNumber.get(key);
+        if (!occurrences) {
+            notOnDrawings.push(row);
+            return;
+        }
+        matchedCount++;
+
+        // Loop numbers follow the same spacing/hyphenation leniency as tag numbers
+        const looped = row.loopNumber ? occurrences.filter(tag => loopNamesByTagId.has(tag.id)) : [];
+        const indexedLoop = normalizeTagNumber(row.loopNumber);
+        if (looped.length > 0 && !looped.some(tag => loopNamesByTagId.get(tag.id).some(name => normalizeTagNumber(name) === indexedLoop))) {
+            loopMismatches.push({ tag: looped[0], row, loopNumber: loopNamesByTagId.get(looped[0].id).join(', ') });
+        }
+
+        if (!row.drawingNumber) return;
+
+        // A tag shown on several sheets only needs to appear on the indexed one
+        const located = occurrences.filter(tag => drawingNumberByPage.has(pageKey(tag)));
+        if (located.length === 0) return;
+        if (!located.some(tag => isSameDrawing(drawingNumberByPage.get(pageKey(tag)), row.drawingNumber))) {
+            drawingMismatches.push({ tag: located[0], row, drawingNumber: drawingNumberByPage.get(pageKey(located[0])) });
+        }
+    });
+
+    const missingInIndex = instruments.filter(tag => !indexedNumbers.has(normalizeTagNumber(tag.text)));
+
+    return { matchedCount, missingInIndex, notOnDrawings, drawingMismatches, loopMismatches };
+};
@@ -0,0 +1,166 @@
+import { InstrumentMapping, InstrumentTypeInfo } from '../types.ts';
+
+// ISA-5.1 first letters: measured or initiating variable
+const FIRST_LETTERS: Record<string, string> = {
+    A: 'ANALYSIS',
+    B: 'BURNER/COMBUSTION',
+    C: 'CONDUCTIVITY',
+    D: 'DENSITY',
+    E: 'VOLTAGE',
+    F: 'FLOW',
+    G: 'GAUGING',
+    H: 'HAND',
+    I: 'CURRENT',
+    J: 'POWER',
+    K: 'TIME',
+    L: 'LEVEL',
+    M: 'MOISTURE',
+    N: 'TORQUE',
+    O: 'USER DEFINED',
+    P: 'PRESSURE',
+    Q: 'QUANTITY',
+    R: 'RADIATION',
+    S: 'SPEED',
+    T: 'TEMPERATURE',
+    U: 'MULTIVARIABLE',
+    V: 'VIBRATION',
+    W: 'WEIGHT',
+    X: 'UNCLASSIFIED',
+    Y: 'EVENT/STATE',
+    Z: 'POSITION',
+};
+
+// Letters that modify the first letter (PDT, FQI, ...)
+const VARIABLE_MODIFIERS: Record<string, string> = {
+    D: 'DIFFERENTIAL',
+    F: 'RATIO',
+    J: 'SCAN',
+    K: 'RATE OF CHANGE',
+    Q: 'TOTALIZING',
+    S: 'SAFETY',
+    X: 'STATUS',
+};
+
+// Succeeding letters as [form before another function letter, form at the end]
+const FUNCTION_LETTERS: Record<string, [string, string]> = {
+    A: ['ALARM', 'ALARM'],
+    B: ['USER DEFINED', 'USER DEFINED'],
+    C: ['CONTROLLING', 'CONTROLLER'],
+    E: ['ELEMENT', 'ELEMENT'],
+    G: ['GAUGE', 'GAUGE'],
+    I: ['INDICATING', 'INDICATOR'],
+    K: ['CONTROL STATION', 'CONTROL STATION'],
+    L: ['LIGHT', 'LIGHT'],
+    N: ['USER DEFINED', 'USER DEFINED'],
+    O: ['ORIFICE', 'ORIFICE'],
+    P: ['TEST POINT', 'TEST POINT'],
+    R: ['RECORDING', 'RECORDER'],
+    S: ['SWITCH', 'SWITCH'],
+    T: ['TRANSMITTING', 'TRANSMITTER'],
+    U: ['MULTIFUNCTION', 'MULTIFUNCTION'],
+    V: ['VALVE', 'VALVE'],
+    W: ['WELL', 'WELL'],
+    X: ['UNCLASSIFIED', 'UNCLASSIFIED'],
+    Y: ['RELAY', 'CONVERTER/COMPUTER'],
+    Z: ['ACTUATOR', 'ACTUATOR'],
+};
+
+// Letters that modify a preceding alarm or switch (PSH, LAHH, ...)
+const FUNCTION_MODIFIERS: Record<string, string> = {
+    H: 'HIGH',
+    L: 'LOW',
+    M: 'MIDDLE',
+};
+
+// The first succeeding letter found in this order decides the I/O type
+const IO_TYPE_BY_LETTER: [string, string][] = [
+    ['S', 'DI'],
+    ['V', 'AO'],
+    ['C', 'AO'],
+    ['Z', 'AO'],
+    ['T', 'AI'],
+    ['E', 'AI'],
+    ['Y', 'AI'],
+    ['A', 'DI'],
+    ['I', 'Local'],
+    ['G', 'Local'],
+    ['R', 'Local'],
+];
+
+/** The function letters of an instrument tag ("PDIT-101A" → "PDIT"); '' when the tag has none. */
+export const extractFunctionCode = (tagText: string): string => {
+    const match = tagText.match(/^([A-Z]+)[- ]?(\d+)/i);
+    if (!match) return '';
+    const functionCode = match[1].toUpperCase();
+    // Exclude FF as it's not an instrument tag
+    return functionCode === 'FF' ? '' : functionCode;
+};
+
+/**
+ * Compose an instrument type from ISA-5.1 letters: first letter, optional variable
+ * modifier, then readout/output letters with their HIGH/LOW modifiers.
+ * "PDIT" → PRESSURE DIFFERENTIAL INDICATING TRANSMITTER. Returns null when a letter
+ * has no meaning at its position.
+ */
+export const decodeFunctionCode = (functionCode: string): { instrumentType: string; ioType: string } | null => {
+    const code = functionCode.toUpperCase();
+    const variable = FIRST_LETTERS[code[0]];
+    if (!variable || code.length < 2) return null;
+
+    const words = [variable];
+    let index = 1;
+    const modifier = VARIABLE_MODIFIERS[code[index]];
+    // S is only "safety" in front of a valve or element (PSV, TSE); PSH is a pressure switch
+    if (modifier && (code[index] !== 'S' || /^[VE]$/.test(code[index + 1] || '')) && index + 1 < code.length) {
+        words.push(modifier);
+        index++;
+    }
+
+    // Bare limits after the variable (TXHH, PXLL) stand for an alarm
+    if (/^[HLM]+$/.test(code.slice(index))) {
+        const limits = code.slice(index).split('').map(letter => FUNCTION_MODIFIERS[letter]);
+        return { instrumentType: [...words, 'ALARM', ...limits].join(' '), ioType: 'DI' };
+    }
+
+    const functionLetters: string[] = [];
+    for (; index < code.length; index++) {
+        const letter = code[index];
+        const previous = code[index - 1];
+        // H/L/M after an alarm, switch or another H/L/M are limits, not functions
+        if (FUNCTION_MODIFIERS[letter] && functionLetters.length > 0 && /[ASHLM]/.test(previous)) {
+            words.push(FUNCTION_MODIFIERS[letter]);
+            continue;
+        }
+        const forms = FUNCTION_LETTERS[letter];
+        if (!forms) return null;
+        const isLast = !code.slice(index + 1).split('').some(next => FUNCTION_LETTERS[next] && !FUNCTION_MODIFIERS[next]);
+        // "Control valve" rather than "controlling valve"
+        words.push(letter === 'C' && code[index + 1] === 'V' ? 'CONTROL' : forms[isLast ? 1 : 0]);
+        functionLetters.push(letter);
+    }
+    if (functionLetters.length === 0) return null;
+
+    // Hand-operated and self-acting safety valves have no signal
+    const isLocalValve = functionLetters.includes('V') && (code[0] === 'H' || words.includes('SAFETY'));
+    const ioType = isLocalValve
+        ? 'Local'
+        : IO_TYPE_BY_LETTER.find(([letter]) => functionLetters.includes(letter))?.[1] || '';
+    return { instrumentType: words.join(' '), ioType };
+};
+
+/**
+ * Instrument and I/O type of a tag. An entry in the user's mapping table wins over the
+ * ISA-5.1 decoder; `source` tells which of the two produced the result.
+ */
+export const resolveInstrumentType = (tagText: string, mappings: InstrumentMapping = {}): InstrumentTypeInfo => {
+    const functionCode = extractFunctionCode(tagText);
+    if (!functionCode) return { functionCode, instrumentType: '', ioType: '', source: 'unknown' };
+
+    const mapping = mappings[functionCode];
+    if (mapping) return { functionCode, instrumentType: mapping.instrumentType, ioType: mapping.ioType, source: 'mapped' };
+
+    const decoded = decodeFunctionCode(functionCode);
+    if (decoded) return { functionCode, ...decoded, source: 'decoded' };
+
+    return { functionCode, instrumentType: '', ioType: '', source: 'unknown' };
+};
@@ -0,0 +1,236 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Category, RelationshipType, DetectedLine, Point, Relationship, Tag } from '../types.ts';
+
+export interface LineAssociationOptions {
+    snapTolerance?: number;        // px: endpoint-to-segment gap still treated as connected
+    labelSearchDistance?: number;  // px: how far a pipe may sit from its line-number label
+    instrumentMargin?: number;     // px: how far a connection line may end from the instrument bubble text
+}
+
+const DEFAULT_OPTIONS: Required<LineAssociationOptions> = {
+    snapTolerance: 3,
+    labelSearchDistance: 15,
+    instrumentMargin: 15,
+};
+
+// Spatial grid cell size (px) used to avoid comparing every segment pair
+const GRID_CELL_SIZE = 50;
+
+const distancePointToSegment = (p: Point, a: Point, b: Point) => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+    const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const distancePointToBbox = (p: Point, bbox) => {
+    const dx = Math.max(bbox.x1 - p.x, 0, p.x - bbox.x2);
+    const dy = Math.max(bbox.y1 - p.y, 0, p.y - bbox.y2);
+    return Math.hypot(dx, dy);
+};
+
+// Distance between a segment and a bbox (0 if the segment enters the box)
+const distanceSegmentToBbox = (segment: DetectedLine, bbox) => {
+    const corners = [
+        { x: bbox.x1, y: bbox.y1 }, { x: bbox.x2, y: bbox.y1 },
+        { x: bbox.x2, y: bbox.y2 }, { x: bbox.x1, y: bbox.y2 },
+    ];
+    const fromEndpoints = Math.min(distancePointToBbox(segment.start, bbox), distancePointToBbox(segment.end, bbox));
+    const fromCorners = Math.min(...corners.map(c => distancePointToSegment(c, segment.start, segment.end)));
+    return Math.min(fromEndpoints, fromCorners);
+};
+
+// Two segments are joined when an endpoint of one touches the other (L/T junctions).
+// Plain crossings are not joins: on a P&ID, crossing pipes are not connected.
+const areJoined = (a: DetectedLine, b: DetectedLine, tolerance: number) =>
+    distancePointToSegment(a.start, b.start, b.end) <= tolerance ||
+    distancePointToSegment(a.end, b.start, b.end) <= tolerance ||
+    distancePointToSegment(b.start, a.start, a.end) <= tolerance ||
+    distancePointToSegment(b.end, a.start, a.end) <= tolerance;
+
+const segmentLength = (segment: DetectedLine) =>
+    Math.hypot(segment.end.x - segment.start.x, segment.end.y - segment.start.y);
+
+// Build segment adjacency lists using a coarse spatial grid
+const buildAdjacency = (segments: DetectedLine[], tolerance: number) => {
+    const grid = new Map<string, number[]>();
+    const adjacency: number[][] = segments.map(() => []);
+
+    segments.forEach((segment, index) => {
+        const minX = Math.floor((Math.min(segment.start.x, segment.end.x) - tolerance) / GRID_CELL_SIZE);
+        const maxX = Math.floor((Math.max(segment.start.x, segment.end.x) + tolerance) / GRID_CELL_SIZE);
+        const minY = Math.floor((Math.min(segment.start.y, segment.end.y) - tolerance) / GRID_CELL_SIZE);
+        const maxY = Math.floor((Math.max(segment.start.y, segment.end.y) + tolerance) / GRID_CELL_SIZE);
+        for (let gx = minX; gx <= maxX; gx++) {
+            for (let gy = minY; gy <= maxY; gy++) {
+                const key = `${gx},${gy}`;
+                if (!grid.has(key)) grid.set(key, []);
+                grid.get(key).push(index);
+            }
+        }
+    });
+
+    const checked = new Set<string>();
+    grid.forEach(cell => {
+        for (let i = 0; i < cell.length; i++) {
+            for (let j = i + 1; j < cell.length; j++) {
+                const a = Math.min(cell[i], cell[j]);
+                const b = Math.max(cell[i], cell[j]);
+                const pairKey = `${a}-${b}`;
+                if (checked.has(pairKey)) continue;
+                checked.add(pairKey);
+                if (areJoined(segments[a], segments[b], tolerance)) {
+                    adjacency[a].push(b);
+                    adjacency[b].push(a);
+                }
+            }
+        }
+    });
+
+    return adjacency;
+};
+
+// Minimal binary min-heap keyed on cost
+const createHeap = () => {
+    const items: { index: number; cost: number }[] = [];
+    const push = (item) => {
+        items.push(item);
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (items[parent].cost <= items[i].cost) break;
+            [items[parent], items[i]] = [items[i], items[parent]];
+            i = parent;
+        }
+    };
+    const pop = () => {
+        const top = items[0];
+        const last = items.pop();
+        if (items.length > 0) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+                if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+                if (smallest === i) break;
+                [items[smallest], items[i]] = [items[i], items[smallest]];
+                i = smallest;
+            }
+        }
+        return top;
+    };
+    return { push, pop, size: () => items.length };
+};
+
+const associatePage = (instruments: Tag[], lineTags: Tag[], segments: DetectedLine[], options: Required<LineAssociationOptions>): Relationship[] => {
+    const adjacency = buildAdjacency(segments, options.snapTolerance);
+    const cost = new Array(segments.length).fill(Infinity);
+    const owner: (Tag | null)[] = new Array(segments.length).fill(null);
+    const previous: number[] = new Array(segments.length).fill(-1);
+    const heap = createHeap();
+
+    // Seed: pipe segments running next to each line-number label
+    for (const lineTag of lineTags) {
+        segments.forEach((segment, index) => {
+            const distance = distanceSegmentToBbox(segment, lineTag.bbox);
+            if (distance <= options.labelSearchDistance && distance < cost[index]) {
+                cost[index] = distance;
+                owner[index] = lineTag;
+                heap.push({ index, cost: distance });
+            }
+        });
+    }
+
+    // Multi-source Dijkstra: every segment is claimed by the label reachable along the shortest pipe run
+    while (heap.size() > 0) {
+        const { index, cost: currentCost } = heap.pop();
+        if (currentCost > cost[index]) continue;
+        for (const neighbor of adjacency[index]) {
+            const nextCost = currentCost + segmentLength(segments[neighbor]);
+            if (nextCost < cost[neighbor]) {
+                cost[neighbor] = nextCost;
+                owner[neighbor] = owner[index];
+                previous[neighbor] = index;
+                heap.push({ index: neighbor, cost: nextCost });
+            }
+        }
+    }
+
+    const relationships: Relationship[] = [];
+    for (const instrument of instruments) {
+        let bestIndex = -1;
+        let bestCost = Infinity;
+        segments.forEach((segment, index) => {
+            if (!owner[index]) return;
+            const gap = Math.min(distancePointToBbox(segment.start, instrument.bbox), distancePointToBbox(segment.end, instrument.bbox));
+            if (gap > options.instrumentMargin) return;
+            if (cost[index] + gap < bestCost) {
+                bestCost = cost[index] + gap;
+                bestIndex = index;
+            }
+        });
+        if (bestIndex === -1) continue;
+
+        // Walk back from the instrument to the label to recover the traced path
+        const path = [];
+        for (let i = bestIndex; i !== -1; i = previous[i]) {
+            path.unshift(segments[i]);
+        }
+
+        relationships.push({
+            id: uuidv4(),
+            from: instrument.id,
+            to: owner[bestIndex].id,
+            type: RelationshipType.Installation,
+            pathSegments: path.map(segment => ({
+                id: segment.id,
+                start: { ...segment.start },
+                end: { ...segment.end },
+            })),
+        });
+    }
+
+    return relationships;
+};
+
+/**
+ * Associate instruments with line numbers by tracing connected pipe geometry from each
+ * line-number label to the instrument bubble. Returns Installation relationships
+ * (instrument -> line) with the traced pathSegments. Instruments that already have an
+ * Installation relationship are left alone.
+ */
+export const associateInstrumentsWithLines = (
+    tags: Tag[],
+    detectedLines: DetectedLine[],
+    existingRelationships: Relationship[] = [],
+    options: LineAssociationOptions = {}
+): Relationship[] => {
+    const resolvedOptions = { ...DEFAULT_OPTIONS, ...options };
+    const alreadyInstalled = new Set(
+        existingRelationships
+            .filter(r => r.type === RelationshipType.Installation)
+            .map(r => r.from)
+    );
+
+    const pages = [...new Set(detectedLines.map(line => line.page))];
+    const relationships: Relationship[] = [];
+
+    for (const page of pages) {
+        // Pipes are drawn solid; dashed segments are signal lines and must not carry line ownership
+        const segments = detectedLines.filter(line => line.page === page && line.dashPattern.length === 0);
+        const lineTags = tags.filter(t => t.page === page && t.category === Category.Line);
+        const instruments = tags.filter(t =>
+            t.page === page && t.category === Category.Instrument && !alreadyInstalled.has(t.id)
+        );
+        if (segments.length === 0 || lineTags.length === 0 || instruments.length === 0) continue;
+
+        relationships.push(...associatePage(instruments, lineTags, segments, resolvedOptions));
+    }
+
+    return relationships;
+};
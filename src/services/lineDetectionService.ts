@@ -0,0 +1,220 @@
+import { OPS } from 'pdfjs-dist';
+import { v4 as uuidv4 } from 'uuid';
+import { DetectedLine, Point } from '../types.ts';
+
+// Segments shorter than this (screen px at scale 1) are arrowheads, hatching or text decorations
+const MIN_SEGMENT_LENGTH = 5;
+// Segments within this angle (degrees) of an axis are classified as horizontal/vertical
+const AXIS_ANGLE_TOLERANCE = 2;
+
+const IDENTITY_MATRIX = [1, 0, 0, 1, 0, 0];
+
+// Multiply two PDF transformation matrices [a, b, c, d, e, f] (m1 applied after m2)
+const multiplyMatrix = (m1, m2) => [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+];
+
+const applyMatrix = (m, x, y) => ({
+    x: m[0] * x + m[2] * y + m[4],
+    y: m[1] * x + m[3] * y + m[5],
+});
+
+// Convert a PDF user-space point to screen coordinates.
+// Mirrors the rotation handling of calculateBbox in taggingService so lines and tags share one space.
+const toScreenPoint = (point, viewBoxOffsetX, viewBoxOffsetY, viewport, rotation): Point => {
+    const x = point.x - viewBoxOffsetX;
+    const y = point.y - viewBoxOffsetY;
+    const viewBox = viewport.viewBox || [0, 0, viewport.width, viewport.height];
+
+    switch (rotation) {
+        case 90:
+            return { x: y, y: x };
+        case 270:
+            return { x: viewBox[3] - y, y: viewBox[2] - x };
+        case 180:
+            return { x: viewport.width - x, y: viewport.height - y };
+        default:
+            return { x, y: viewport.height - y };
+    }
+};
+
+const classifySegment = (start: Point, end: Point): DetectedLine['type'] => {
+    const angle = Math.abs(Math.atan2(end.y - start.y, end.x - start.x) * 180 / Math.PI);
+    if (angle <= AXIS_ANGLE_TOLERANCE || angle >= 180 - AXIS_ANGLE_TOLERANCE) return 'horizontal';
+    if (Math.abs(angle - 90) <= AXIS_ANGLE_TOLERANCE) return 'vertical';
+    return 'diagonal';
+};
+
+/**
+ * Extract straight stroked path segments (piping, signal lines) from a page's operator list.
+ * Curves and filled-only shapes are ignored; coordinates are screen-space at scale 1.
+ */
+export const detectLines = async (pdfDoc, pageNum): Promise<DetectedLine[]> => {
+    const page = await pdfDoc.getPage(pageNum);
+    const operatorList = await page.getOperatorList();
+    const viewport = page.getViewport({ scale: 1.0 });
+    const rotation = viewport.rotation || 0;
+    const viewBoxOffsetX = viewport.viewBox ? viewport.viewBox[0] : 0;
+    const viewBoxOffsetY = viewport.viewBox ? viewport.viewBox[1] : 0;
+
+    const detectedLines: DetectedLine[] = [];
+    const stateStack = [];
+    let state = { ctm: IDENTITY_MATRIX, lineWidth: 1, dashPattern: [] };
+    // Segments of the current path, in PDF user space, waiting for a paint operator
+    let pendingSegments = [];
+    let current = null;
+    let subpathStart = null;
+
+    const closeSubpath = () => {
+        if (current && subpathStart && (current.x !== subpathStart.x || current.y !== subpathStart.y)) {
+            pendingSegments.push({ start: current, end: subpathStart });
+        }
+        current = subpathStart;
+    };
+
+    const flushPath = (isStroked) => {
+        if (isStroked) {
+            // Approximate the stroke width after the CTM's scaling
+            const scaleFactor = Math.sqrt(Math.abs(state.ctm[0] * state.ctm[3] - state.ctm[1] * state.ctm[2])) || 1;
+            const strokeWidth = state.lineWidth * scaleFactor;
+
+            for (const segment of pendingSegments) {
+                const start = toScreenPoint(segment.start, viewBoxOffsetX, viewBoxOffsetY, viewport, rotation);
+                const end = toScreenPoint(segment.end, viewBoxOffsetX, viewBoxOffsetY, viewport, rotation);
+                const length = Math.hypot(end.x - start.x, end.y - start.y);
+                if (length < MIN_SEGMENT_LENGTH) continue;
+
+                detectedLines.push({
+                    id: uuidv4(),
+                    page: pageNum,
+                    start,
+                    end,
+                    type: classifySegment(start, end),
+                    strokeWidth,
+                    dashPattern: [...state.dashPattern],
+                    source: 'vector',
+                });
+            }
+        }
+        pendingSegments = [];
+        current = null;
+        subpathStart = null;
+    };
+
+    const { fnArray, argsArray } = operatorList;
+    for (let i = 0; i < fnArray.length; i++) {
+        const fn = fnArray[i];
+        const args = argsArray[i];
+
+        switch (fn) {
+            case OPS.save:
+                stateStack.push(state);
+                state = { ...state };
+                break;
+            case OPS.restore:
+                state = stateStack.pop() || state;
+                break;
+            case OPS.transform:
+                state.ctm = multiplyMatrix(state.ctm, args);
+                break;
+            case OPS.paintFormXObjectBegin:
+                stateStack.push(state);
+                state = { ...state };
+                if (Array.isArray(args[0]) && args[0].length === 6) {
+                    state.ctm = multiplyMatrix(state.ctm, args[0]);
+                }
+                break;
+            case OPS.paintFormXObjectEnd:
+                state = stateStack.pop() || state;
+                break;
+            case OPS.setLineWidth:
+                state.lineWidth = args[0];
+                break;
+            case OPS.setDash:
+                state.dashPattern = Array.isArray(args[0]) ? args[0] : [];
+                break;
+            case OPS.setGState:
+                // Extended graphics state may carry line width (LW) and dash (D)
+                for (const [key, value] of args[0] || []) {
+                    if (key === 'LW') state.lineWidth = value;
+                    if (key === 'D' && Array.isArray(value)) state.dashPattern = Array.isArray(value[0]) ? value[0] : [];
+                }
+                break;
+            case OPS.constructPath: {
+                const [ops, coords] = args;
+                let j = 0;
+                for (const op of ops) {
+                    switch (op) {
+                        case OPS.moveTo:
+                            current = applyMatrix(state.ctm, coords[j], coords[j + 1]);
+                            subpathStart = current;
+                            j += 2;
+                            break;
+                        case OPS.lineTo: {
+                            const next = applyMatrix(state.ctm, coords[j], coords[j + 1]);
+                            if (current) pendingSegments.push({ start: current, end: next });
+                            current = next;
+                            j += 2;
+                            break;
+                        }
+                        case OPS.rectangle: {
+                            const [x, y, w, h] = coords.slice(j, j + 4);
+                            // Zero-area rectangles are a common way of drawing a plain line;
+                            // real rectangles are frames and boxes, not piping
+                            if (w === 0 || h === 0) {
+                                pendingSegments.push({
+                                    start: applyMatrix(state.ctm, x, y),
+                                    end: applyMatrix(state.ctm, x + w, y + h),
+                                });
+                            }
+                            current = applyMatrix(state.ctm, x, y);
+                            subpathStart = current;
+                            j += 4;
+                            break;
+                        }
+                        case OPS.curveTo:
+                            current = applyMatrix(state.ctm, coords[j + 4], coords[j + 5]);
+                            j += 6;
+                            break;
+                        case OPS.curveTo2:
+                        case OPS.curveTo3:
+                            current = applyMatrix(state.ctm, coords[j + 2], coords[j + 3]);
+                            j += 4;
+                            break;
+                        case OPS.closePath:
+                            closeSubpath();
+                            break;
+                        default:
+                            break;
+                    }
+                }
+                break;
+            }
+            case OPS.closeStroke:
+            case OPS.closeFillStroke:
+            case OPS.closeEOFillStroke:
+                closeSubpath();
+                flushPath(true);
+                break;
+            case OPS.stroke:
+            case OPS.fillStroke:
+            case OPS.eoFillStroke:
+                flushPath(true);
+                break;
+            case OPS.fill:
+            case OPS.eoFill:
+            case OPS.endPath:
+                flushPath(false);
+                break;
+            default:
+                break;
+        }
+    }
+
+    return detectedLines;
+};
@@ -0,0 +1,101 @@
+import { LineNumberField, LineNumberGrammar, ParsedLineNumber } from '../types.ts';
+import { DEFAULT_SETTINGS } from '../constants.ts';
+
+export const LINE_NUMBER_FIELD_LABELS: Record<LineNumberField, string> = {
+    size: '관경 (Size)',
+    service: '유체 코드 (Service)',
+    number: '일련번호 (No.)',
+    pipingClass: '배관 등급 (Class)',
+    suffix: '보온/트레이싱',
+};
+
+// ASME nominal pipe sizes and their DN equivalents
+const NPS_TO_DN: [number, number][] = [
+    [0.5, 15], [0.75, 20], [1, 25], [1.25, 32], [1.5, 40], [2, 50], [2.5, 65], [3, 80],
+    [4, 100], [5, 125], [6, 150], [8, 200], [10, 250], [12, 300], [14, 350], [16, 400],
+    [18, 450], [20, 500], [24, 600], [30, 750], [36, 900],
+];
+
+const compiledGrammars = new WeakMap<LineNumberGrammar, RegExp | null>();
+
+/**
+ * Build the anchored regex for a grammar. Each segment is a named group (`seg0`, `seg1`, ...)
+ * so groups inside user patterns don't shift the indices. Returns null for an invalid grammar.
+ */
+export const buildLineNumberRegex = (grammar: LineNumberGrammar): RegExp | null => {
+    if (compiledGrammars.has(grammar)) return compiledGrammars.get(grammar);
+
+    let regex: RegExp | null = null;
+    const segments = grammar.segments.filter(segment => segment.pattern.trim() !== '');
+    if (segments.length > 0) {
+        const separator = `(?:${grammar.separator || '-'})`;
+        let source = '';
+        segments.forEach((segment, index) => {
+            const group = `(?<seg${index}>${segment.pattern})`;
+            if (index === 0) {
+                // An optional leading segment carries the separator that follows it
+                source += segment.optional && segments.length > 1 ? `(?:${group}${separator})?` : group;
+            } else {
+                const leadingSeparator = index === 1 && segments[0].optional ? '' : separator;
+                source += segment.optional ? `(?:${leadingSeparator}${group})?` : `${leadingSeparator}${group}`;
+            }
+        });
+        try {
+            regex = new RegExp(`^${source}$`);
+        } catch {
+            // Invalid segment or separator pattern - every line number fails to parse
+            regex = null;
+        }
+    }
+
+    compiledGrammars.set(grammar, regex);
+    return regex;
+};
+
+// Convert a written size (8", 1-1/2", 3/4", 2.5", DN50) to nominal inches and DN
+export const parseNominalSize = (size: string): { sizeInches?: number; sizeDn?: number } => {
+    const text = size.replace(/\s+/g, ' ').trim().toUpperCase();
+
+    const dnMatch = text.match(/^DN ?(\d+)$/);
+    if (dnMatch) {
+        const sizeDn = parseInt(dnMatch[1], 10);
+        const nps = NPS_TO_DN.find(([, dn]) => dn === sizeDn);
+        return { sizeDn, sizeInches: nps ? nps[0] : Math.round((sizeDn / 25) * 100) / 100 };
+    }
+
+    const inchMatch = text.match(/^(?:(\d+(?:\.\d+)?)(?:[- ](\d+)\/(\d+))?|(\d+)\/(\d+))"?$/);
+    if (!inchMatch) return {};
+    let sizeInches: number;
+    if (inchMatch[4]) {
+        sizeInches = parseInt(inchMatch[4], 10) / parseInt(inchMatch[5], 10);
+    } else {
+        sizeInches = parseFloat(inchMatch[1]);
+        if (inchMatch[2]) sizeInches += parseInt(inchMatch[2], 10) / parseInt(inchMatch[3], 10);
+    }
+    if (!Number.isFinite(sizeInches)) return {};
+    const nps = NPS_TO_DN.find(([inches]) => Math.abs(inches - sizeInches) < 0.001);
+    return { sizeInches, sizeDn: nps ? nps[1] : Math.round(sizeInches * 25) };
+};
+
+/**
+ * Split a Line tag into its typed parts according to the grammar.
+ * Falls back to the default grammar when the settings don't define one.
+ */
+export const parseLineNumber = (text: string, grammar: LineNumberGrammar = DEFAULT_SETTINGS.lineNumberGrammar): ParsedLineNumber => {
+    const regex = buildLineNumberRegex(grammar);
+    const match = regex ? text.trim().match(regex) : null;
+    if (!match) return { isValid: false };
+
+    const result: ParsedLineNumber = { isValid: true };
+    grammar.segments
+        .filter(segment => segment.pattern.trim() !== '')
+        .forEach((segment, index) => {
+            const value = match.groups?.[`seg${index}`];
+            if (value !== undefined && value !== '') result[segment.field] = value;
+        });
+
+    if (result.size) {
+        Object.assign(result, parseNominalSize(result.size));
+    }
+    return result;
+};
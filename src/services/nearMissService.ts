@@ -0,0 +1,166 @@
+import { Category, CategoryType, NearMiss, PatternConfig, RawTextItem, Tag } from '../types.ts';
+import { DEFAULT_PATTERNS } from '../constants.ts';
+
+// Characters that vector text and OCR'd drawings mix up, each way round
+const CONFUSABLES: Record<string, string[]> = {
+    O: ['0'], '0': ['O'],
+    I: ['1'], l: ['1'], '1': ['I'],
+    S: ['5'], '5': ['S'],
+    B: ['8'], '8': ['B'],
+    Z: ['2'], '2': ['Z'],
+};
+
+// Shorter text matches existing tags by accident too often to be worth suggesting
+const MIN_TAG_KEY_LENGTH = 4;
+const MAX_ITEM_LENGTH = 40;
+
+interface Variant {
+    text: string;
+    reason: string;
+}
+
+interface Candidate {
+    suggestion: string;
+    category: CategoryType;
+    source: NearMiss['source'];
+    reason: string;
+    rank: number; // Lower wins when several checks fire for one item
+}
+
+const isAlphanumeric = (char: string) => /[A-Za-z0-9]/.test(char);
+const isDigit = (char: string) => /\d/.test(char);
+
+/** Texts one edit away: a confusable swapped, a hyphen added, a stray character dropped. */
+const singleEditVariants = (text: string): Variant[] => {
+    const variants: Variant[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        (CONFUSABLES[char] || []).forEach(replacement => {
+            variants.push({ text: text.slice(0, i) + replacement + text.slice(i + 1), reason: `${char} → ${replacement}` });
+        });
+        // Hyphens go missing where letters meet digits (PT101, PL30001)
+        if (i > 0 && isAlphanumeric(text[i - 1]) && isAlphanumeric(char) && isDigit(text[i - 1]) !== isDigit(char)) {
+            variants.push({ text: `${text.slice(0, i)}-${text.slice(i)}`, reason: '하이픈 추가' });
+        }
+        if (!isAlphanumeric(char) && char !== '"' && char !== '-') {
+            variants.push({ text: text.slice(0, i) + text.slice(i + 1), reason: /\s/.test(char) ? '공백 삭제' : `"${char}" 삭제` });
+        }
+        if (/\s/.test(char)) {
+            variants.push({ text: `${text.slice(0, i)}-${text.slice(i + 1)}`, reason: '공백 → 하이픈' });
+        }
+    }
+    return variants;
+};
+
+// Tag text with separators dropped and confusables folded, so "PT 1O1" and "PT-101" share a key
+const tagKey = (text: string) => text
+    .toUpperCase()
+    .replace(/[\s\-_./]+/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1')
+    .replace(/S/g, '5')
+    .replace(/B/g, '8')
+    .replace(/Z/g, '2');
+
+const compact = (text: string) => text.replace(/\s+/g, '').toUpperCase();
+
+const withoutOneChar = (text: string) => Array.from({ length: text.length }, (_, i) => text.slice(0, i) + text.slice(i + 1));
+
+const compileSafely = (source: string, flags = '') => {
+    try {
+        return new RegExp(source, flags);
+    } catch {
+        // An invalid pattern simply finds no near misses
+        return null;
+    }
+};
+
+/**
+ * Find raw text that narrowly missed becoming a tag: one edit away from the Instrument or Line
+ * pattern (a function code and number in one text counts for instruments), or reading like an
+ * existing tag once misread characters and separators are ignored, or with one character more
+ * or less. Each item is listed once, with the most specific suggestion.
+ */
+export const findNearMisses = (
+    rawTextItems: RawTextItem[],
+    tags: Pick<Tag, 'text' | 'category'>[],
+    patterns: PatternConfig,
+    autoRemoveWhitespace = true
+): NearMiss[] => {
+    const instrument = patterns[Category.Instrument];
+    const instrumentRegex = instrument?.func && instrument?.num
+        ? compileSafely(`^(?<func>${instrument.func})[\\s-]?(?<num>${instrument.num})$`)
+        : null;
+    const linePattern = patterns['Line'] || patterns[Category.Line] || DEFAULT_PATTERNS[Category.Line];
+    const lineRegex = linePattern ? compileSafely(linePattern, 'i') : null;
+    const clean = (text: string) => (autoRemoveWhitespace ? text.replace(/\s+/g, '') : text);
+
+    const tagsByKey = new Map<string, Pick<Tag, 'text' | 'category'>>();
+    const tagsByShortenedKey = new Map<string, Pick<Tag, 'text' | 'category'>>();
+    tags.forEach(tag => {
+        const key = tagKey(tag.text);
+        if (key.length < MIN_TAG_KEY_LENGTH) return;
+        if (!tagsByKey.has(key)) tagsByKey.set(key, tag);
+        withoutOneChar(key).forEach(shortened => {
+            if (!tagsByShortenedKey.has(shortened)) tagsByShortenedKey.set(shortened, tag);
+        });
+    });
+    const existingTexts = new Set(tags.map(tag => compact(tag.text)));
+
+    const matchInstrument = (text: string) => {
+        const match = instrumentRegex?.exec(text);
+        return match?.groups ? clean(`${match.groups.func}-${match.groups.num}`) : null;
+    };
+    const matchLine = (text: string) => {
+        const match = lineRegex?.exec(text);
+        return match ? clean(match[0]) : null;
+    };
+
+    const nearMisses: NearMiss[] = [];
+    rawTextItems.forEach(item => {
+        const text = item.text.trim();
+        if (text.length < 3 || text.length > MAX_ITEM_LENGTH || !/\d/.test(text)) return;
+        if (existingTexts.has(compact(text))) return; // Another copy of a tag's label
+
+        const candidates: Candidate[] = [];
+        const key = tagKey(text);
+        if (key.length >= MIN_TAG_KEY_LENGTH) {
+            const sameTag = tagsByKey.get(key);
+            if (sameTag) {
+                candidates.push({ suggestion: sameTag.text, category: sameTag.category, source: 'tag', reason: `${sameTag.text}와(과) 같은 태그로 보임`, rank: 0 });
+            } else {
+                // One character missing from the item, or one too many
+                const closeTag = tagsByShortenedKey.get(key) || withoutOneChar(key).map(shortened => tagsByKey.get(shortened)).find(Boolean);
+                if (closeTag) {
+                    candidates.push({ suggestion: closeTag.text, category: closeTag.category, source: 'tag', reason: `${closeTag.text}와(과) 한 글자 차이`, rank: 3 });
+                }
+            }
+        }
+
+        const instrumentText = matchInstrument(text);
+        if (instrumentText) {
+            candidates.push({ suggestion: instrumentText, category: Category.Instrument, source: 'pattern', reason: '기능 코드와 번호가 한 텍스트에 있음', rank: 1 });
+        }
+        if (candidates.every(candidate => candidate.rank > 1)) {
+            const isLineAlready = matchLine(text) !== null;
+            for (const variant of singleEditVariants(text)) {
+                const instrumentVariant = matchInstrument(variant.text);
+                if (instrumentVariant) {
+                    candidates.push({ suggestion: instrumentVariant, category: Category.Instrument, source: 'pattern', reason: variant.reason, rank: 2 });
+                    break;
+                }
+                const lineVariant = matchLine(variant.text);
+                if (lineVariant && !isLineAlready) {
+                    candidates.push({ suggestion: lineVariant, category: Category.Line, source: 'pattern', reason: variant.reason, rank: 2 });
+                    break;
+                }
+            }
+        }
+
+        if (candidates.length === 0) return;
+        const best = candidates.reduce((a, b) => (b.rank < a.rank ? b : a));
+        nearMisses.push({ item, suggestion: best.suggestion, category: best.category, source: best.source, reason: best.reason });
+    });
+
+    return nearMisses.sort((a, b) => a.item.page - b.item.page || a.item.bbox.y1 - b.item.bbox.y1 || a.item.bbox.x1 - b.item.bbox.x1);
+};
@@ -0,0 +1,100 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Category, RelationshipType, Relationship, Tag } from '../types.ts';
+
+// Compare drawing numbers / references ignoring case, whitespace and hyphenation differences
+const normalize = (text = '') => text.toUpperCase().replace(/[\s-]+/g, '');
+
+// A destination printed next to a connector may omit the sheet suffix the page's drawing number carries
+const drawingMatches = (destination, drawingNumber) => {
+    if (!destination || !drawingNumber) return false;
+    const a = normalize(destination);
+    const b = normalize(drawingNumber);
+    return a === b || a.startsWith(b) || b.startsWith(a);
+};
+
+const buildPageDrawingMap = (tags: Tag[]) =>
+    new Map(tags.filter(t => t.category === Category.DrawingNumber).map(t => [t.page, t.text]));
+
+const getPairedIds = (relationships: Relationship[]) => {
+    const paired = new Set<string>();
+    relationships
+        .filter(r => r.type === RelationshipType.OffPageConnection)
+        .forEach(r => {
+            paired.add(r.from);
+            paired.add(r.to);
+        });
+    return paired;
+};
+
+/**
+ * Pair off-page connectors across pages. Two connectors pair when they carry the same
+ * reference text and each one's destination (when printed) matches the other page's
+ * drawing number. Returns new OffPageConnection relationships only.
+ */
+export const pairOffPageConnectors = (tags: Tag[], relationships: Relationship[] = []): Relationship[] => {
+    const connectors = tags.filter(t => t.category === Category.OffPageConnector);
+    const pageDrawingMap = buildPageDrawingMap(tags);
+    const paired = getPairedIds(relationships);
+    const newRelationships: Relationship[] = [];
+
+    // Does `target`'s page satisfy `source`'s printed destination? Unknown destinations don't veto.
+    const pointsTo = (source: Tag, target: Tag) => {
+        const destination = source.metadata?.destination;
+        if (!destination) return true;
+        return drawingMatches(destination, pageDrawingMap.get(target.page));
+    };
+
+    for (const connector of connectors) {
+        if (paired.has(connector.id)) continue;
+
+        const candidates = connectors.filter(other =>
+            other.id !== connector.id &&
+            other.page !== connector.page &&
+            !paired.has(other.id) &&
+            normalize(other.text) === normalize(connector.text) &&
+            pointsTo(connector, other) &&
+            pointsTo(other, connector)
+        );
+        if (candidates.length === 0) continue;
+
+        // Prefer a candidate whose destination is confirmed in both directions
+        const confirmed = candidates.filter(c => connector.metadata?.destination && c.metadata?.destination);
+        let match = null;
+        if (confirmed.length === 1) {
+            match = confirmed[0];
+        } else if (candidates.length === 1) {
+            match = candidates[0];
+        }
+        // Ambiguous (several sheets share the reference with no destination) - leave for the user
+        if (!match) continue;
+
+        newRelationships.push({
+            id: uuidv4(),
+            from: connector.id,
+            to: match.id,
+            type: RelationshipType.OffPageConnection,
+        });
+        paired.add(connector.id);
+        paired.add(match.id);
+    }
+
+    return newRelationships;
+};
+
+// Off-page connectors without a partner: broken or mislabelled continuations
+export const findUnpairedConnectors = (tags: Tag[], relationships: Relationship[]): Tag[] => {
+    const paired = getPairedIds(relationships);
+    return tags
+        .filter(t => t.category === Category.OffPageConnector && !paired.has(t.id))
+        .sort((a, b) => a.page - b.page || a.text.localeCompare(b.text));
+};
+
+// The connector on the other end of an OPC pair, if any
+export const findPairedConnector = (tagId: string, tags: Tag[], relationships: Relationship[]): Tag | null => {
+    const rel = relationships.find(r =>
+        r.type === RelationshipType.OffPageConnection && (r.from === tagId || r.to === tagId)
+    );
+    if (!rel) return null;
+    const otherId = rel.from === tagId ? rel.to : rel.from;
+    return tags.find(t => t.id === otherId) || null;
+};
@@ -0,0 +1,101 @@
+import { AppSettings, CategoryType, PatternConfig, PatternPreviewResult, ToleranceConfig } from '../types.ts';
+import { comparePatternMatches, findPatternMatches, PreviewTextItem } from './patternPreviewService.ts';
+
+// A preview that takes longer than this is stopped; the pattern it was running is the culprit
+export const PATTERN_PREVIEW_TIMEOUT_MS = 3000;
+
+export interface PatternPreviewInput {
+    corpus: PreviewTextItem[];
+    currentPatterns: PatternConfig;
+    currentTolerances: ToleranceConfig;
+    candidatePatterns: PatternConfig;
+    candidateTolerances: ToleranceConfig;
+    appSettings: Pick<AppSettings, 'autoRemoveWhitespace'>;
+}
+
+const timeoutResult = (category: CategoryType, run: 'current' | 'candidate'): PatternPreviewResult => ({
+    counts: [],
+    pages: [],
+    gained: [],
+    lost: [],
+    issues: [{
+        category,
+        kind: 'timeout',
+        run,
+        message: `${PATTERN_PREVIEW_TIMEOUT_MS / 1000}초 안에 끝나지 않았습니다${run === 'current' ? ' (현재 저장된 패턴)' : ''}. 중첩된 반복(예: (\\w+)+)을 확인하세요.`,
+    }],
+});
+
+const runOnMainThread = (input: PatternPreviewInput): PatternPreviewResult => {
+    const candidate = findPatternMatches(input.corpus, input.candidatePatterns, input.candidateTolerances, input.appSettings);
+    const current = findPatternMatches(input.corpus, input.currentPatterns, input.currentTolerances, input.appSettings);
+    return comparePatternMatches(current, candidate);
+};
+
+/**
+ * Preview what the edited patterns would extract compared to the current ones. Runs in a worker
+ * that is terminated after PATTERN_PREVIEW_TIMEOUT_MS, so a catastrophically backtracking regex
+ * comes back as a 'timeout' issue instead of freezing the page. Rejects with an AbortError when
+ * `signal` is aborted.
+ */
+export const runPatternPreview = (input: PatternPreviewInput, signal?: AbortSignal): Promise<PatternPreviewResult> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Pattern preview was cancelled', 'AbortError'));
+            return;
+        }
+        let worker: Worker | null = null;
+        try {
+            if (typeof Worker !== 'undefined') {
+                worker = new Worker(new URL('../workers/patternPreviewWorker.ts', import.meta.url), { type: 'module' });
+            }
+        } catch {
+            // Worker construction blocked (CSP, old browser) - preview on the main thread without a time limit
+            worker = null;
+        }
+        if (!worker) {
+            try {
+                resolve(runOnMainThread(input));
+            } catch (error) {
+                reject(error);
+            }
+            return;
+        }
+
+        let running: { run: 'current' | 'candidate'; category: CategoryType } | null = null;
+        const finish = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', handleAbort);
+            worker.terminate();
+        };
+        const handleAbort = () => {
+            finish();
+            reject(new DOMException('Pattern preview was cancelled', 'AbortError'));
+        };
+        const timer = setTimeout(() => {
+            finish();
+            resolve(running ? timeoutResult(running.category, running.run) : { counts: [], pages: [], gained: [], lost: [], issues: [] });
+        }, PATTERN_PREVIEW_TIMEOUT_MS);
+
+        worker.onmessage = (event: MessageEvent) => {
+            const { started, result, error } = event.data;
+            if (started) {
+                running = started;
+                return;
+            }
+            finish();
+            if (error) reject(new Error(error));
+            else resolve(result);
+        };
+        worker.onerror = (event) => {
+            event.preventDefault();
+            finish();
+            try {
+                resolve(runOnMainThread(input));
+            } catch (error) {
+                reject(error);
+            }
+        };
+        signal?.addEventListener('abort', handleAbort);
+        worker.postMessage(input);
+    });
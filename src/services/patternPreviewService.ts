@@ -0,0 +1,251 @@
+import {
+    AppSettings,
+    BoundingBox,
+    Category,
+    CategoryType,
+    PatternConfig,
+    PatternPreviewIssue,
+    PatternPreviewMatch,
+    PatternPreviewResult,
+    RawTextItem,
+    Tag,
+    ToleranceConfig,
+} from '../types.ts';
+import { DEFAULT_PATTERNS } from '../constants.ts';
+
+// A pattern that needs longer than this (ms) over the whole document is flagged as slow
+export const SLOW_PATTERN_MS = 300;
+
+export const PREVIEW_CATEGORIES: CategoryType[] = [
+    Category.Line,
+    Category.Instrument,
+    Category.Equipment,
+    Category.DrawingNumber,
+    Category.NotesAndHolds,
+    Category.OffPageConnector,
+];
+
+// One piece of PDF text as the extractor saw it
+export interface PreviewTextItem {
+    text: string;
+    page: number;
+    bbox: BoundingBox;
+}
+
+export interface PatternMatchRun {
+    matches: PatternPreviewMatch[];
+    issues: PatternPreviewIssue[];
+}
+
+/**
+ * Rebuild the document's text from the extraction: loose raw text plus the text every tag was
+ * made of. Regex tags without source items stand in for their own text.
+ */
+export const buildPreviewCorpus = (tags: Tag[], rawTextItems: RawTextItem[]): PreviewTextItem[] => {
+    const corpus: PreviewTextItem[] = rawTextItems.map(item => ({ text: item.text, page: item.page, bbox: item.bbox }));
+    tags.forEach(tag => {
+        if (tag.sourceItems && tag.sourceItems.length > 0) {
+            // Items kept from the extractor are pdf.js text items and carry `str` rather than `text`
+            tag.sourceItems.forEach(item => {
+                const text = item.text ?? (item as RawTextItem & { str?: string }).str ?? '';
+                corpus.push({ text, page: item.page ?? tag.page, bbox: item.bbox });
+            });
+        } else {
+            corpus.push({ text: tag.text, page: tag.page, bbox: tag.bbox });
+        }
+    });
+    return corpus;
+};
+
+const compile = (category: CategoryType, source: string, flags: string, issues: PatternPreviewIssue[]): RegExp | null => {
+    try {
+        return new RegExp(source, flags);
+    } catch (error) {
+        issues.push({ category, kind: 'invalid', message: error instanceof Error ? error.message : String(error) });
+        return null;
+    }
+};
+
+// Compile every pattern with the flags extractTags uses, recording the ones that do not compile
+const compilePatterns = (patterns: PatternConfig, issues: PatternPreviewIssue[]) => {
+    const linePattern = patterns['Line'] || patterns[Category.Line] || DEFAULT_PATTERNS[Category.Line];
+    const instrumentPattern = patterns[Category.Instrument];
+    const funcRegex = instrumentPattern?.func ? compile(Category.Instrument, `^${instrumentPattern.func}$`, '', issues) : null;
+    const numRegex = instrumentPattern?.num ? compile(Category.Instrument, `^${instrumentPattern.num}$`, '', issues) : null;
+    const textPatterns = [
+        { category: Category.Line, regex: linePattern ? compile(Category.Line, linePattern, 'gi', issues) : null },
+        { category: Category.Equipment, regex: patterns[Category.Equipment] ? compile(Category.Equipment, patterns[Category.Equipment], 'gi', issues) : null },
+        { category: Category.NotesAndHolds, regex: patterns[Category.NotesAndHolds] ? compile(Category.NotesAndHolds, patterns[Category.NotesAndHolds], 'gi', issues) : null },
+    ];
+    const opcRegex = patterns[Category.OffPageConnector] ? compile(Category.OffPageConnector, patterns[Category.OffPageConnector], 'i', issues) : null;
+    const drawingRegex = patterns[Category.DrawingNumber] ? compile(Category.DrawingNumber, patterns[Category.DrawingNumber], 'i', issues) : null;
+    return { funcRegex, numRegex, textPatterns, opcRegex, drawingRegex };
+};
+
+/** The patterns that do not compile, checked synchronously without running anything. */
+export const findInvalidPatterns = (patterns: PatternConfig): PatternPreviewIssue[] => {
+    const issues: PatternPreviewIssue[] = [];
+    compilePatterns(patterns, issues);
+    return issues;
+};
+
+const center = (bbox: BoundingBox) => ({ x: (bbox.x1 + bbox.x2) / 2, y: (bbox.y1 + bbox.y2) / 2 });
+
+/**
+ * Run patterns over the corpus the way extractTags does, page by page: instruments pair a function
+ * item above a number item, then line/equipment/note patterns, then off-page connectors, then one
+ * drawing number per page. Drawing numbers ignore the search area and take the bottom-right-most
+ * candidate, so their count is an approximation.
+ * `onCategoryStart` is called before each pattern runs, so a caller can tell which one hung.
+ */
+export const findPatternMatches = (
+    corpus: PreviewTextItem[],
+    patterns: PatternConfig,
+    tolerances: ToleranceConfig,
+    appSettings: Pick<AppSettings, 'autoRemoveWhitespace'>,
+    onCategoryStart?: (category: CategoryType) => void
+): PatternMatchRun => {
+    const issues: PatternPreviewIssue[] = [];
+    const matches: PatternPreviewMatch[] = [];
+    const elapsed = new Map<CategoryType, number>();
+    const clean = (text: string, category: CategoryType) =>
+        appSettings.autoRemoveWhitespace && category !== Category.NotesAndHolds ? text.replace(/\s+/g, '') : text;
+
+    const { funcRegex, numRegex, textPatterns, opcRegex, drawingRegex } = compilePatterns(patterns, issues);
+
+    const timed = <T>(category: CategoryType, run: () => T): T => {
+        onCategoryStart?.(category);
+        const start = performance.now();
+        const result = run();
+        elapsed.set(category, (elapsed.get(category) || 0) + performance.now() - start);
+        return result;
+    };
+
+    const itemsByPage = new Map<number, PreviewTextItem[]>();
+    corpus.forEach(item => {
+        if (!item.text.trim()) return;
+        const pageItems = itemsByPage.get(item.page);
+        if (pageItems) pageItems.push(item);
+        else itemsByPage.set(item.page, [item]);
+    });
+
+    [...itemsByPage.keys()].sort((a, b) => a - b).forEach(page => {
+        const items = itemsByPage.get(page);
+        const consumed = new Set<number>();
+
+        if (funcRegex && numRegex) {
+            const { horizontal, vertical } = tolerances[Category.Instrument];
+            timed(Category.Instrument, () => {
+                const funcs: number[] = [];
+                const nums: number[] = [];
+                items.forEach((item, index) => {
+                    if (funcRegex.test(item.text)) funcs.push(index);
+                    else if (numRegex.test(item.text)) nums.push(index);
+                });
+                funcs.forEach(funcIndex => {
+                    const func = items[funcIndex];
+                    if (consumed.has(funcIndex) || func.text.toUpperCase() === 'FF') return;
+                    const funcCenter = center(func.bbox);
+                    let best = -1;
+                    let bestDistanceSq = Infinity;
+                    nums.forEach(numIndex => {
+                        if (consumed.has(numIndex)) return;
+                        const numCenter = center(items[numIndex].bbox);
+                        if (funcCenter.y >= numCenter.y) return; // Function part sits above the number
+                        const dx = Math.abs(funcCenter.x - numCenter.x);
+                        const dy = Math.abs(funcCenter.y - numCenter.y);
+                        if (dx > horizontal || dy > vertical) return;
+                        if (dx * dx + dy * dy < bestDistanceSq) {
+                            bestDistanceSq = dx * dx + dy * dy;
+                            best = numIndex;
+                        }
+                    });
+                    if (best < 0) return;
+                    const num = items[best];
+                    matches.push({
+                        category: Category.Instrument,
+                        text: clean(`${func.text}-${num.text}`, Category.Instrument),
+                        page,
+                        bbox: {
+                            x1: Math.min(func.bbox.x1, num.bbox.x1),
+                            y1: Math.min(func.bbox.y1, num.bbox.y1),
+                            x2: Math.max(func.bbox.x2, num.bbox.x2),
+                            y2: Math.max(func.bbox.y2, num.bbox.y2),
+                        },
+                    });
+                    consumed.add(funcIndex);
+                    consumed.add(best);
+                });
+            });
+        }
+
+        const taggedHere = new Set<number>();
+        textPatterns.forEach(({ category, regex }) => {
+            if (!regex) return;
+            timed(category, () => items.forEach((item, index) => {
+                if (consumed.has(index)) return;
+                const found = item.text.match(regex);
+                if (!found) return;
+                taggedHere.add(index);
+                found
+                    .filter(text => !text.toUpperCase().startsWith('FF'))
+                    .forEach(text => matches.push({ category, text: clean(text, category), page, bbox: item.bbox }));
+            }));
+        });
+        taggedHere.forEach(index => consumed.add(index));
+
+        if (opcRegex) {
+            timed(Category.OffPageConnector, () => items.forEach((item, index) => {
+                if (consumed.has(index)) return;
+                const found = item.text.trim().match(opcRegex);
+                if (!found) return;
+                matches.push({ category: Category.OffPageConnector, text: clean(found[0], Category.OffPageConnector), page, bbox: item.bbox });
+                consumed.add(index);
+            }));
+        }
+
+        if (drawingRegex) {
+            timed(Category.DrawingNumber, () => {
+                const candidates = items.filter((item, index) => !consumed.has(index) && drawingRegex.test(item.text));
+                if (candidates.length === 0) return;
+                const best = candidates.reduce((a, b) => (b.bbox.x2 + b.bbox.y2 > a.bbox.x2 + a.bbox.y2 ? b : a));
+                matches.push({ category: Category.DrawingNumber, text: best.text.trim(), page, bbox: best.bbox });
+            });
+        }
+    });
+
+    elapsed.forEach((ms, category) => {
+        if (ms > SLOW_PATTERN_MS) {
+            issues.push({ category, kind: 'slow', message: `이 문서에서 ${Math.round(ms)}ms 소요` });
+        }
+    });
+    return { matches, issues };
+};
+
+const matchKey = (match: PatternPreviewMatch) =>
+    `${match.category}|${match.page}|${match.text.toUpperCase()}|${Math.round(match.bbox.x1)}|${Math.round(match.bbox.y1)}`;
+
+/** Count and diff the matches of the current patterns against those of the edited ones. */
+export const comparePatternMatches = (current: PatternMatchRun, candidate: PatternMatchRun): PatternPreviewResult => {
+    const currentKeys = new Set(current.matches.map(matchKey));
+    const candidateKeys = new Set(candidate.matches.map(matchKey));
+
+    const pages = new Map<number, Partial<Record<CategoryType, number>>>();
+    candidate.matches.forEach(match => {
+        const counts = pages.get(match.page) || {};
+        counts[match.category] = (counts[match.category] || 0) + 1;
+        pages.set(match.page, counts);
+    });
+
+    return {
+        counts: PREVIEW_CATEGORIES.map(category => ({
+            category,
+            current: current.matches.filter(match => match.category === category).length,
+            candidate: candidate.matches.filter(match => match.category === category).length,
+        })),
+        pages: [...pages.entries()].sort((a, b) => a[0] - b[0]).map(([page, counts]) => ({ page, counts })),
+        gained: candidate.matches.filter(match => !currentKeys.has(matchKey(match))),
+        lost: current.matches.filter(match => !candidateKeys.has(matchKey(match))),
+        issues: candidate.issues,
+    };
+};
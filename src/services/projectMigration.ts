@@ -0,0 +1,207 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Category } from '../types.ts';
+import { DEFAULT_PATTERNS, DEFAULT_SETTINGS, DEFAULT_TOLERANCES } from '../constants.ts';
+
+// Bump this and append a step to MIGRATIONS whenever the project file format changes
+export const CURRENT_PROJECT_SCHEMA_VERSION = 6;
+
+// Category names used by early builds, before categories were stored as English keys
+const LEGACY_CATEGORY_NAMES: Record<string, string> = {
+    '라인': Category.Line,
+    '계기': Category.Instrument,
+    '도면번호': Category.DrawingNumber,
+    '노트': Category.NotesAndHolds,
+};
+
+// A parsed project file before validation: any field may be missing or of an old shape
+type LegacyRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is LegacyRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const recordsOf = (value: unknown): LegacyRecord[] => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+export interface ProjectMigrationResult {
+    data: unknown;
+    fromVersion: number;
+    toVersion: number;
+    changes: string[];    // Human-readable summary of what was upgraded
+    isNewerVersion: boolean;
+}
+
+interface ProjectMigration {
+    version: number;      // Schema version the data is at after this step
+    migrate: (data: LegacyRecord, changes: string[]) => void;
+}
+
+const MIGRATIONS: ProjectMigration[] = [
+    {
+        // v1: legacy category names and the single-string instrument pattern
+        version: 1,
+        migrate: (data, changes) => {
+            let renamedTags = 0;
+            for (const tag of recordsOf(data.tags)) {
+                if (typeof tag.category === 'string' && LEGACY_CATEGORY_NAMES[tag.category]) {
+                    tag.category = LEGACY_CATEGORY_NAMES[tag.category];
+                    renamedTags++;
+                }
+            }
+            if (renamedTags > 0) {
+                changes.push(`이전 카테고리 이름을 가진 태그 ${renamedTags}개를 변환했습니다.`);
+            }
+
+            const settings = isRecord(data.settings) ? data.settings : null;
+            const patterns = settings?.patterns;
+            if (isRecord(patterns)) {
+                for (const [legacyName, category] of Object.entries(LEGACY_CATEGORY_NAMES)) {
+                    if (legacyName in patterns) {
+                        if (!(category in patterns)) patterns[category] = patterns[legacyName];
+                        delete patterns[legacyName];
+                        changes.push(`패턴 키 "${legacyName}"을(를) "${category}"(으)로 변환했습니다.`);
+                    }
+                }
+
+                const pattern = patterns[Category.Instrument];
+                if (typeof pattern === 'string') {
+                    const separator = '\\s?';
+                    const separatorIndex = pattern.indexOf(separator);
+                    patterns[Category.Instrument] = separatorIndex > -1
+                        ? { func: pattern.substring(0, separatorIndex), num: pattern.substring(separatorIndex + separator.length) }
+                        : { func: pattern, num: '' };
+                    changes.push('계기 패턴을 기능 코드/번호 두 부분 형식으로 변환했습니다.');
+                }
+            }
+        },
+    },
+    {
+        // v2: settings fields added after the first release
+        version: 2,
+        migrate: (data, changes) => {
+            if (!Array.isArray(data.descriptions)) {
+                data.descriptions = [];
+            }
+
+            const settings = data.settings;
+            if (!isRecord(settings)) return;
+
+            const tolerances = settings.tolerances;
+            if (isRecord(tolerances)) {
+                const instrumentTolerances = tolerances[Category.Instrument];
+                if (!instrumentTolerances) {
+                    tolerances[Category.Instrument] = { ...DEFAULT_TOLERANCES[Category.Instrument] };
+                    changes.push('누락된 계기 허용 오차를 기본값으로 추가했습니다.');
+                } else if (isRecord(instrumentTolerances) && !('autoLinkDistance' in instrumentTolerances)) {
+                    instrumentTolerances.autoLinkDistance = DEFAULT_TOLERANCES[Category.Instrument].autoLinkDistance;
+                    changes.push('노트 자동 연결 거리(autoLinkDistance)를 기본값으로 추가했습니다.');
+                }
+            }
+
+            const appSettings = settings.appSettings;
+            if (isRecord(appSettings)) {
+                const addedFields = ['drawingSearchArea', 'sheetNoPattern', 'combineDrawingAndSheet', 'sheetNoTolerancePx', 'loopRules', 'instrumentMappings']
+                    .filter(field => appSettings[field] === undefined);
+                addedFields.forEach(field => {
+                    const value = DEFAULT_SETTINGS[field];
+                    appSettings[field] = typeof value === 'object' ? structuredClone(value) : value;
+                });
+                appSettings.hyphenSettings = { ...DEFAULT_SETTINGS.hyphenSettings, ...(isRecord(appSettings.hyphenSettings) ? appSettings.hyphenSettings : {}) };
+                if (addedFields.length > 0) {
+                    changes.push(`누락된 앱 설정을 기본값으로 추가했습니다: ${addedFields.join(', ')}`);
+                }
+            }
+        },
+    },
+    {
+        // v3: loops persisted, Equipment / Off-Page Connector categories
+        version: 3,
+        migrate: (data, changes) => {
+            if (!Array.isArray(data.loops)) {
+                data.loops = [];
+                changes.push('루프 정보가 없는 파일입니다. 루프 목록은 비어 있는 상태로 불러옵니다.');
+            }
+
+            const settings = isRecord(data.settings) ? data.settings : null;
+            const patterns = settings?.patterns;
+            if (isRecord(patterns)) {
+                const addedCategories = Object.keys(DEFAULT_PATTERNS).filter(key => !(key in patterns));
+                addedCategories.forEach(key => {
+                    patterns[key] = structuredClone(DEFAULT_PATTERNS[key]);
+                });
+                if (addedCategories.length > 0) {
+                    changes.push(`새 카테고리의 기본 패턴을 추가했습니다: ${addedCategories.join(', ')}`);
+                }
+            }
+
+            const appSettings = settings?.appSettings;
+            const hyphenSettings = isRecord(appSettings) ? appSettings.hyphenSettings : null;
+            if (isRecord(hyphenSettings) && hyphenSettings.equipment === undefined) {
+                hyphenSettings.equipment = DEFAULT_SETTINGS.hyphenSettings.equipment;
+            }
+        },
+    },
+    {
+        // v4: multi-PDF projects. Items without a documentId belong to the active document.
+        version: 4,
+        migrate: (data, changes) => {
+            if (Array.isArray(data.documents) && data.documents.length > 0) return;
+            const documentId = uuidv4();
+            data.documents = [{ id: documentId, pdfFileName: data.pdfFileName }];
+            data.activeDocumentId = documentId;
+            changes.push('단일 PDF 프로젝트를 다중 PDF 프로젝트 형식으로 변환했습니다.');
+        },
+    },
+    {
+        // v5: isReviewed flag replaced by a review record (status, reviewer, time, comment)
+        version: 5,
+        migrate: (data, changes) => {
+            let convertedTags = 0;
+            for (const tag of recordsOf(data.tags)) {
+                if (!('isReviewed' in tag)) continue;
+                if (tag.isReviewed === true && !tag.review) {
+                    tag.review = { status: 'approved' };
+                    convertedTags++;
+                }
+                delete tag.isReviewed;
+            }
+            if (convertedTags > 0) {
+                changes.push(`검토 완료 태그 ${convertedTags}개를 '승인' 상태로 변환했습니다.`);
+            }
+        },
+    },
+    {
+        // v6: drawing comments (markup pins)
+        version: 6,
+        migrate: (data) => {
+            if (!Array.isArray(data.comments)) {
+                data.comments = [];
+            }
+        },
+    },
+];
+
+/**
+ * Upgrade a parsed project file to CURRENT_PROJECT_SCHEMA_VERSION, one step at a time.
+ * Files without a schemaVersion predate versioning and are treated as version 0.
+ * The input is not modified; shape validation still happens afterwards in App.
+ */
+export const migrateProjectData = (raw: unknown): ProjectMigrationResult => {
+    if (!isRecord(raw)) {
+        return { data: raw, fromVersion: 0, toVersion: 0, changes: [], isNewerVersion: false };
+    }
+
+    const fromVersion = typeof raw.schemaVersion === 'number' && Number.isInteger(raw.schemaVersion) && raw.schemaVersion > 0 ? raw.schemaVersion : 0;
+    if (fromVersion > CURRENT_PROJECT_SCHEMA_VERSION) {
+        return { data: raw, fromVersion, toVersion: fromVersion, changes: [], isNewerVersion: true };
+    }
+
+    const data = structuredClone(raw);
+    const changes: string[] = [];
+    for (const migration of MIGRATIONS) {
+        if (migration.version <= fromVersion) continue;
+        migration.migrate(data, changes);
+        data.schemaVersion = migration.version;
+    }
+    data.schemaVersion = CURRENT_PROJECT_SCHEMA_VERSION;
+
+    return { data, fromVersion, toVersion: CURRENT_PROJECT_SCHEMA_VERSION, changes, isNewerVersion: false };
+};
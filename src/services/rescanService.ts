@@ -0,0 +1,217 @@
+import {
+    BoundingBox,
+    Description,
+    Loop,
+    RawTextItem,
+    Relationship,
+    RelationshipType,
+    RescanSummary,
+    RescanTagChange,
+    Tag,
+} from '../types.ts';
+import { getReviewStatus } from './reviewService.ts';
+
+// Minimum intersection-over-union for a new regex tag to take over an old tag
+export const RESCAN_OVERLAP_THRESHOLD = 0.3;
+
+// Raw text is only carried over when the same words sit in (almost) the same place
+const RAW_ITEM_OVERLAP_THRESHOLD = 0.5;
+
+export interface RescanCurrentData {
+    tags: Tag[];
+    rawTextItems: RawTextItem[];
+    relationships: Relationship[];
+    loops: Loop[];
+    descriptions: Description[];
+}
+
+export interface RescanExtraction {
+    tags: Tag[];
+    rawTextItems: RawTextItem[];
+}
+
+export interface RescanResult {
+    tags: Tag[];
+    rawTextItems: RawTextItem[];
+    relationships: Relationship[];
+    loops: Loop[];
+    summary: RescanSummary;
+}
+
+const overlapRatio = (a: BoundingBox, b: BoundingBox) => {
+    const width = Math.min(a.x2, b.x2) - Math.max(a.x1, b.x1);
+    const height = Math.min(a.y2, b.y2) - Math.max(a.y1, b.y1);
+    if (width <= 0 || height <= 0) return 0;
+    const intersection = width * height;
+    const areaA = (a.x2 - a.x1) * (a.y2 - a.y1);
+    const areaB = (b.x2 - b.x1) * (b.y2 - b.y1);
+    return intersection / (areaA + areaB - intersection);
+};
+
+const normalizeText = (text: string) => text.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Tags a rescan must not touch: drawn or converted by hand (older projects did not record
+ * `source`, but hand-drawn tags carry an empty source item list where regex tags carry none),
+ * or already given a review status.
+ */
+export const isManualTag = (tag: Tag) => tag.source === 'manual' || (Array.isArray(tag.sourceItems) && tag.sourceItems.length === 0);
+
+/** Tags a rescan must not touch: made by hand or already reviewed. */
+export const isPreservedTag = (tag: Tag) => isManualTag(tag) || getReviewStatus(tag) !== 'unreviewed';
+
+/** Greedily pair items on the same page, best overlap first. Returns new index -> old index. */
+const pairByOverlap = <T extends { page: number; bbox: BoundingBox }>(
+    newItems: T[],
+    oldItems: T[],
+    threshold: number,
+    isCandidate: (newItem: T, oldItem: T) => boolean = () => true
+): Map<number, number> => {
+    const candidates: { newIndex: number; oldIndex: number; overlap: number }[] = [];
+    newItems.forEach((newItem, newIndex) => {
+        oldItems.forEach((oldItem, oldIndex) => {
+            if (newItem.page !== oldItem.page || !isCandidate(newItem, oldItem)) return;
+            const overlap = overlapRatio(newItem.bbox, oldItem.bbox);
+            if (overlap >= threshold) candidates.push({ newIndex, oldIndex, overlap });
+        });
+    });
+    candidates.sort((a, b) => b.overlap - a.overlap);
+
+    const pairs = new Map<number, number>();
+    const usedOld = new Set<number>();
+    candidates.forEach(({ newIndex, oldIndex }) => {
+        if (pairs.has(newIndex) || usedOld.has(oldIndex)) return;
+        pairs.set(newIndex, oldIndex);
+        usedOld.add(oldIndex);
+    });
+    return pairs;
+};
+
+/**
+ * Fold a fresh extraction into the current document instead of replacing it.
+ * Manual and reviewed tags stay as they are and shadow any new tag on top of them. The other
+ * old tags are matched to new ones by page and bbox overlap; a match keeps the old id (and
+ * with it relationships, loops and comments) and any review comment. Unmatched new tags are
+ * added, unmatched old tags removed, and relationships and loops left without their tags dropped.
+ */
+export const reconcileRescan = (current: RescanCurrentData, extraction: RescanExtraction): RescanResult => {
+    const preservedTags = current.tags.filter(isPreservedTag);
+    const replaceableTags = current.tags.filter(tag => !isPreservedTag(tag));
+
+    const shadowed = pairByOverlap(extraction.tags, preservedTags, RESCAN_OVERLAP_THRESHOLD);
+    const incomingTags = extraction.tags.filter((_, index) => !shadowed.has(index));
+    const tagPairs = pairByOverlap(incomingTags, replaceableTags, RESCAN_OVERLAP_THRESHOLD);
+
+    const changes: RescanTagChange[] = [];
+    let unchangedCount = 0;
+    const matchedOld = new Set<number>();
+    const rescannedTags = incomingTags.map((tag, index) => {
+        const oldIndex = tagPairs.get(index);
+        if (oldIndex === undefined) {
+            changes.push({ type: 'added', tagId: tag.id, page: tag.page, category: tag.category, text: tag.text });
+            return tag;
+        }
+        matchedOld.add(oldIndex);
+        const oldTag = replaceableTags[oldIndex];
+        if (oldTag.text !== tag.text || oldTag.category !== tag.category) {
+            changes.push({
+                type: 'changed',
+                tagId: oldTag.id,
+                page: tag.page,
+                category: tag.category,
+                text: tag.text,
+                previousText: oldTag.text,
+                previousCategory: oldTag.category,
+            });
+        } else {
+            unchangedCount++;
+        }
+        return {
+            ...tag,
+            id: oldTag.id,
+            ...(oldTag.review ? { review: oldTag.review } : {}),
+            ...(oldTag.documentId ? { documentId: oldTag.documentId } : {}),
+        };
+    });
+    replaceableTags.forEach((tag, index) => {
+        if (matchedOld.has(index)) return;
+        changes.push({ type: 'removed', tagId: tag.id, page: tag.page, category: tag.category, text: tag.text });
+    });
+
+    // Text a kept tag was built from must not come back as loose raw text
+    const consumedItems = preservedTags.flatMap(tag => tag.sourceItems || []);
+    const consumed = pairByOverlap(
+        extraction.rawTextItems,
+        consumedItems,
+        RAW_ITEM_OVERLAP_THRESHOLD,
+        (item, source) => normalizeText(item.text) === normalizeText(source.text)
+    );
+    const rawTextItems = extraction.rawTextItems.filter((_, index) => !consumed.has(index));
+
+    // Raw text that shifted or was extracted before ids were stable has a different id; map the old ones so annotations survive
+    const rawPairs = pairByOverlap(
+        rawTextItems,
+        current.rawTextItems,
+        RAW_ITEM_OVERLAP_THRESHOLD,
+        (item, oldItem) => normalizeText(item.text) === normalizeText(oldItem.text)
+    );
+    const rawIdMap = new Map<string, string>();
+    rawPairs.forEach((oldIndex, newIndex) => rawIdMap.set(current.rawTextItems[oldIndex].id, rawTextItems[newIndex].id));
+
+    const tags = [...preservedTags, ...rescannedTags];
+    const validIds = new Set<string>([
+        ...tags.map(tag => tag.id),
+        ...rawTextItems.map(item => item.id),
+        ...current.descriptions.map(description => description.id),
+    ]);
+    const remap = (id: string) => rawIdMap.get(id) || id;
+    const relationships = current.relationships
+        .map(rel => ({ ...rel, from: remap(rel.from), to: remap(rel.to) }))
+        .filter(rel => validIds.has(rel.from) && validIds.has(rel.to));
+
+    const tagIds = new Set(tags.map(tag => tag.id));
+    const loops = current.loops
+        .map(loop => ({ ...loop, tagIds: loop.tagIds.filter(id => tagIds.has(id)) }))
+        .filter(loop => loop.tagIds.length > 0);
+
+    return {
+        tags,
+        rawTextItems,
+        relationships,
+        loops,
+        summary: {
+            changes,
+            unchangedCount,
+            kept: {
+                manual: preservedTags.filter(isManualTag).length,
+                reviewed: preservedTags.filter(tag => !isManualTag(tag)).length,
+            },
+            relationships: {
+                kept: relationships.length,
+                dropped: current.relationships.length - relationships.length,
+            },
+            loops: {
+                kept: loops.length,
+                dropped: current.loops.length - loops.length,
+            },
+        },
+    };
+};
+
+/**
+ * Add automatically derived relationships (line association, off-page pairs) that do not
+ * conflict with what is already there: nothing is added from a tag that already has a
+ * relationship of that type, and off-page connectors that are already paired stay paired.
+ */
+export const mergeAutoRelationships = (relationships: Relationship[], autoRelationships: Relationship[]): Relationship[] => {
+    const merged = [...relationships];
+    autoRelationships.forEach(rel => {
+        const conflicts = merged.some(existing => existing.type === rel.type && (
+            existing.from === rel.from ||
+            (rel.type === RelationshipType.OffPageConnection &&
+                [existing.from, existing.to].some(id => id === rel.from || id === rel.to))
+        ));
+        if (!conflicts) merged.push(rel);
+    });
+    return merged;
+};
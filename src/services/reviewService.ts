@@ -0,0 +1,62 @@
+import { Category, DrawingReviewProgress, ReviewStatus, Tag } from '../types.ts';
+
+const REVIEWER_STORAGE_KEY = 'pid-tagger-reviewer';
+
+const pageKeyOf = (item: { documentId?: string; page: number }) => `${item.documentId || ''}:${item.page}`;
+
+export const getReviewStatus = (tag: Tag): ReviewStatus => tag.review?.status || 'unreviewed';
+
+/**
+ * Set a tag's review status, stamping reviewer and time. The comment is kept unless a new
+ * one is given; back to 'unreviewed' without a comment clears the review entirely.
+ */
+export const applyReview = (tag: Tag, status: ReviewStatus, reviewer: string, comment = tag.review?.comment): Tag => {
+    if (status === 'unreviewed' && !comment) return { ...tag, review: undefined };
+    return {
+        ...tag,
+        review: {
+            status,
+            ...(reviewer ? { reviewer } : {}),
+            reviewedAt: new Date().toISOString(),
+            ...(comment ? { comment } : {}),
+        },
+    };
+};
+
+/** Reviewer name for this browser. Only the stamps on reviewed tags go into the project. */
+export const getStoredReviewerName = (): string => localStorage.getItem(REVIEWER_STORAGE_KEY) || '';
+
+export const saveReviewerName = (name: string): void => {
+    if (name.trim()) {
+        localStorage.setItem(REVIEWER_STORAGE_KEY, name.trim());
+    } else {
+        localStorage.removeItem(REVIEWER_STORAGE_KEY);
+    }
+};
+
+/** Review counts per drawing (page), in page order. Drawing number tags are not counted. */
+export const summarizeReviewProgress = (tags: Tag[]): DrawingReviewProgress[] => {
+    const drawingByPage = new Map<string, string>();
+    tags.filter(tag => tag.category === Category.DrawingNumber).forEach(tag => {
+        if (!drawingByPage.has(pageKeyOf(tag))) drawingByPage.set(pageKeyOf(tag), tag.text);
+    });
+
+    const progress = new Map<string, DrawingReviewProgress>();
+    tags.filter(tag => tag.category !== Category.DrawingNumber).forEach(tag => {
+        const key = pageKeyOf(tag);
+        if (!progress.has(key)) {
+            progress.set(key, {
+                pageKey: key,
+                page: tag.page,
+                documentId: tag.documentId,
+                drawingNumber: drawingByPage.get(key) || `Page ${tag.page}`,
+                total: 0, approved: 0, rejected: 0, query: 0,
+            });
+        }
+        const entry = progress.get(key);
+        entry.total++;
+        const status = getReviewStatus(tag);
+        if (status !== 'unreviewed') entry[status]++;
+    });
+    return [...progress.values()].sort((a, b) => a.page - b.page);
+};
@@ -0,0 +1,269 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+    BoundingBox,
+    Category,
+    Description,
+    ProjectData,
+    RawTextItem,
+    Relationship,
+    RevisionChange,
+    RevisionComparison,
+    Tag,
+} from '../types.ts';
+
+// A tag whose center shifted more than this (px at scale 1) counts as moved
+export const REVISION_MOVE_THRESHOLD_PX = 10;
+
+export interface RevisionCurrentData {
+    tags: Tag[];
+    relationships: Relationship[];
+    rawTextItems: RawTextItem[];
+    descriptions: Description[];
+}
+
+export interface RevisionCompareResult extends RevisionCurrentData {
+    comparison: RevisionComparison;
+}
+
+interface DrawingGroup {
+    drawingNumber: string;
+    page: number;
+    pageKey: string;
+    tags: Tag[];
+}
+
+// Page numbers repeat across the PDFs of a multi-PDF project
+const pageKeyOf = (item: { documentId?: string; page: number }) => `${item.documentId || ''}:${item.page}`;
+
+const center = (bbox: BoundingBox) => ({ x: (bbox.x1 + bbox.x2) / 2, y: (bbox.y1 + bbox.y2) / 2 });
+
+const distanceBetween = (a: BoundingBox, b: BoundingBox) => {
+    const ca = center(a);
+    const cb = center(b);
+    return Math.hypot(ca.x - cb.x, ca.y - cb.y);
+};
+
+const normalizeText = (text: string) => text.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Group tags by the drawing number shown on their page. Pages without a drawing number
+ * fall back to their page number, which only lines up when the page order is unchanged.
+ */
+const groupByDrawing = (tags: Tag[]): Map<string, DrawingGroup> => {
+    const drawingByPage = new Map<string, string>();
+    tags.filter(tag => tag.category === Category.DrawingNumber).forEach(tag => {
+        if (!drawingByPage.has(pageKeyOf(tag))) drawingByPage.set(pageKeyOf(tag), tag.text);
+    });
+
+    const groups = new Map<string, DrawingGroup>();
+    tags.forEach(tag => {
+        const drawingNumber = drawingByPage.get(pageKeyOf(tag)) || `Page ${tag.page}`;
+        const key = normalizeText(drawingNumber);
+        if (!groups.has(key)) groups.set(key, { drawingNumber, page: tag.page, pageKey: pageKeyOf(tag), tags: [] });
+        if (tag.category !== Category.DrawingNumber) groups.get(key).tags.push(tag);
+    });
+    return groups;
+};
+
+// Pair each current tag with the nearest unused candidate, closest pairs first
+const pairByDistance = (current: Tag[], previous: Tag[], maxDistance = Infinity): [Tag, Tag][] => {
+    const candidates: { current: Tag; previous: Tag; distance: number }[] = [];
+    current.forEach(c => previous.forEach(p => {
+        const distance = distanceBetween(c.bbox, p.bbox);
+        if (distance <= maxDistance) candidates.push({ current: c, previous: p, distance });
+    }));
+    candidates.sort((a, b) => a.distance - b.distance);
+
+    const usedCurrent = new Set<string>();
+    const usedPrevious = new Set<string>();
+    const pairs: [Tag, Tag][] = [];
+    candidates.forEach(candidate => {
+        if (usedCurrent.has(candidate.current.id) || usedPrevious.has(candidate.previous.id)) return;
+        usedCurrent.add(candidate.current.id);
+        usedPrevious.add(candidate.previous.id);
+        pairs.push([candidate.current, candidate.previous]);
+    });
+    return pairs;
+};
+
+/**
+ * Diff the current PDF's tags against a previous revision's project, drawing by drawing.
+ * Tags are matched by category and text (unchanged or moved), then by position (retexted);
+ * what is left over is added or removed. Review status, relationships and descriptions of
+ * unchanged tags are carried over into the returned current data.
+ */
+export const compareRevisions = (
+    previous: ProjectData,
+    current: RevisionCurrentData,
+    previousFileName: string,
+    documentId: string | null,
+    moveThreshold = REVISION_MOVE_THRESHOLD_PX
+): RevisionCompareResult => {
+    const previousGroups = groupByDrawing(previous.tags);
+    const currentGroups = groupByDrawing(current.tags);
+    const changes: RevisionChange[] = [];
+    const unchangedTagIds = new Map<string, string>();   // previous tag id -> current tag id
+    const previousPageToCurrent = new Map<string, number>();   // previous page key -> current page
+    const newDrawings: string[] = [];
+    let unchangedCount = 0;
+
+    const addChange = (change: Omit<RevisionChange, 'id'>) => changes.push({ id: uuidv4(), ...change });
+
+    currentGroups.forEach((currentGroup, key) => {
+        const previousGroup = previousGroups.get(key);
+        if (!previousGroup) {
+            newDrawings.push(currentGroup.drawingNumber);
+            return;
+        }
+        previousPageToCurrent.set(previousGroup.pageKey, currentGroup.page);
+        const { drawingNumber } = currentGroup;
+
+        // 1. Same category and text: unchanged or moved
+        const bucket = (tag: Tag) => `${tag.category}|${normalizeText(tag.text)}`;
+        const previousByText = new Map<string, Tag[]>();
+        previousGroup.tags.forEach(tag => previousByText.set(bucket(tag), [...(previousByText.get(bucket(tag)) || []), tag]));
+        const currentByText = new Map<string, Tag[]>();
+        currentGroup.tags.forEach(tag => currentByText.set(bucket(tag), [...(currentByText.get(bucket(tag)) || []), tag]));
+
+        const matchedCurrent = new Set<string>();
+        const matchedPrevious = new Set<string>();
+        currentByText.forEach((currentTags, textKey) => {
+            pairByDistance(currentTags, previousByText.get(textKey) || []).forEach(([currentTag, previousTag]) => {
+                matchedCurrent.add(currentTag.id);
+                matchedPrevious.add(previousTag.id);
+                const distance = distanceBetween(currentTag.bbox, previousTag.bbox);
+                if (distance <= moveThreshold) {
+                    unchangedCount++;
+                    unchangedTagIds.set(previousTag.id, currentTag.id);
+                } else {
+                    addChange({
+                        type: 'moved', category: currentTag.category, drawingNumber, page: currentTag.page,
+                        bbox: currentTag.bbox, text: currentTag.text, distance: Math.round(distance), tagId: currentTag.id,
+                    });
+                }
+            });
+        });
+
+        // 2. Same category at the same spot with different text: retexted
+        const leftoverCurrent = currentGroup.tags.filter(tag => !matchedCurrent.has(tag.id));
+        const leftoverPrevious = previousGroup.tags.filter(tag => !matchedPrevious.has(tag.id));
+        Object.values(Category).forEach(category => {
+            pairByDistance(
+                leftoverCurrent.filter(tag => tag.category === category),
+                leftoverPrevious.filter(tag => tag.category === category),
+                moveThreshold
+            ).forEach(([currentTag, previousTag]) => {
+                matchedCurrent.add(currentTag.id);
+                matchedPrevious.add(previousTag.id);
+                addChange({
+                    type: 'retexted', category: currentTag.category, drawingNumber, page: currentTag.page,
+                    bbox: currentTag.bbox, text: currentTag.text, previousText: previousTag.text, tagId: currentTag.id,
+                });
+            });
+        });
+
+        // 3. Whatever is left
+        currentGroup.tags.filter(tag => !matchedCurrent.has(tag.id)).forEach(tag => addChange({
+            type: 'added', category: tag.category, drawingNumber, page: tag.page, bbox: tag.bbox, text: tag.text, tagId: tag.id,
+        }));
+        previousGroup.tags.filter(tag => !matchedPrevious.has(tag.id)).forEach(tag => addChange({
+            type: 'removed', category: tag.category, drawingNumber, page: currentGroup.page, bbox: tag.bbox, text: tag.text,
+        }));
+    });
+
+    const missingDrawings = [...previousGroups.entries()]
+        .filter(([key]) => !currentGroups.has(key))
+        .map(([, group]) => group.drawingNumber);
+
+    // --- Carry over reviews, descriptions and relationships of unchanged tags ---
+    const previousReviews = new Map(previous.tags.filter(tag => tag.review).map(tag => [tag.id, tag.review]));
+    const reviewByCurrentId = new Map(
+        [...unchangedTagIds.entries()]
+            .filter(([previousId]) => previousReviews.has(previousId))
+            .map(([previousId, currentId]) => [currentId, previousReviews.get(previousId)])
+    );
+    let reviewed = 0;
+    const tags = current.tags.map(tag => {
+        if (!reviewByCurrentId.has(tag.id) || tag.review) return tag;
+        reviewed++;
+        return { ...tag, review: reviewByCurrentId.get(tag.id) };
+    });
+
+    // Previous id -> current id for every entity a carried relationship may point at
+    const idMap = new Map(unchangedTagIds);
+    const rawItemsByPageText = new Map<string, RawTextItem[]>();
+    current.rawTextItems.forEach(item => {
+        const key = `${item.page}|${normalizeText(item.text)}`;
+        rawItemsByPageText.set(key, [...(rawItemsByPageText.get(key) || []), item]);
+    });
+    previous.rawTextItems.forEach(item => {
+        const page = previousPageToCurrent.get(pageKeyOf(item));
+        if (page === undefined) return;
+        const match = (rawItemsByPageText.get(`${page}|${normalizeText(item.text)}`) || [])
+            .find(candidate => distanceBetween(candidate.bbox, item.bbox) <= moveThreshold);
+        if (match) idMap.set(item.id, match.id);
+    });
+
+    const existingDescriptionKeys = new Set(current.descriptions.map(d => `${d.page}|${d.metadata.type}|${d.metadata.number}|${d.metadata.scope}`));
+    const carriedDescriptions: Description[] = [];
+    (previous.descriptions || []).forEach(description => {
+        const page = previousPageToCurrent.get(pageKeyOf(description));
+        if (page === undefined) return;
+        if (existingDescriptionKeys.has(`${page}|${description.metadata.type}|${description.metadata.number}|${description.metadata.scope}`)) return;
+        const id = uuidv4();
+        idMap.set(description.id, id);
+        carriedDescriptions.push({
+            ...description,
+            id,
+            page,
+            documentId: undefined,
+            // Source items that still exist in the current PDF
+            sourceItems: description.sourceItems
+                .map(item => {
+                    const currentId = idMap.get(item.id);
+                    return currentId
+                        ? tags.find(tag => tag.id === currentId) || current.rawTextItems.find(raw => raw.id === currentId)
+                        : undefined;
+                })
+                .filter(Boolean),
+        });
+    });
+
+    const existingRelationshipKeys = new Set(current.relationships.map(r => `${r.type}|${r.from}|${r.to}`));
+    const carriedRelationships: Relationship[] = [];
+    previous.relationships.forEach(relationship => {
+        // Only relationships that start at an unchanged tag
+        if (!unchangedTagIds.has(relationship.from)) return;
+        const from = idMap.get(relationship.from);
+        const to = idMap.get(relationship.to);
+        if (!from || !to) return;
+        const key = `${relationship.type}|${from}|${to}`;
+        if (existingRelationshipKeys.has(key)) return;
+        existingRelationshipKeys.add(key);
+        carriedRelationships.push({ ...relationship, id: uuidv4(), from, to });
+    });
+
+    // Descriptions nothing points at any more would only clutter the new revision
+    const referencedIds = new Set(carriedRelationships.map(r => r.to));
+    const descriptions = carriedDescriptions.filter(d => referencedIds.has(d.id));
+
+    return {
+        tags,
+        relationships: [...current.relationships, ...carriedRelationships],
+        rawTextItems: current.rawTextItems,
+        descriptions: [...current.descriptions, ...descriptions],
+        comparison: {
+            previousFileName,
+            documentId,
+            changes,
+            unchangedCount,
+            carriedOver: {
+                reviewed,
+                relationships: carriedRelationships.length,
+                descriptions: descriptions.length,
+            },
+            newDrawings,
+            missingDrawings,
+        },
+    };
+};
@@ -0,0 +1,140 @@
+import { AppSettings, Category, ColorSettings, PatternConfig, SettingsProfile, SettingsProfileFile, ToleranceConfig } from '../types.ts';
+import { DEFAULT_COLORS, DEFAULT_PATTERNS, DEFAULT_SETTINGS, DEFAULT_TOLERANCES } from '../constants.ts';
+
+const PROFILES_STORAGE_KEY = 'pid-tagger-settings-profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'pid-tagger-active-profile';
+
+export const SETTINGS_PROFILE_FILE_KIND = 'pid-tagger-settings-profile';
+export const SETTINGS_PROFILE_FILE_VERSION = 1;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Fill in whatever a stored or imported profile lacks from the defaults, the same way the
+ * settings kept in localStorage are read at startup, so profiles saved by older builds still load.
+ */
+const normalizeProfile = (raw: Record<string, unknown>): SettingsProfile => {
+    const patterns = isObject(raw.patterns) ? raw.patterns : {};
+    const instrument = patterns[Category.Instrument];
+    const tolerances = isObject(raw.tolerances) ? raw.tolerances : {};
+    const instrumentTolerances = tolerances[Category.Instrument];
+    const appSettings = isObject(raw.appSettings) ? raw.appSettings : {};
+    const colorSettings = isObject(raw.colorSettings) ? raw.colorSettings : {};
+
+    return {
+        name: String(raw.name).trim(),
+        updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date().toISOString(),
+        patterns: {
+            ...DEFAULT_PATTERNS,
+            ...patterns,
+            [Category.Instrument]: isObject(instrument) ? { ...DEFAULT_PATTERNS[Category.Instrument], ...instrument } : DEFAULT_PATTERNS[Category.Instrument],
+        } as PatternConfig,
+        tolerances: {
+            ...tolerances,
+            [Category.Instrument]: { ...DEFAULT_TOLERANCES[Category.Instrument], ...(isObject(instrumentTolerances) ? instrumentTolerances : {}) },
+        } as ToleranceConfig,
+        appSettings: {
+            ...DEFAULT_SETTINGS,
+            ...appSettings,
+            autoGenerateLoops: true,
+            autoRemoveWhitespace: true,
+            hyphenSettings: { ...DEFAULT_SETTINGS.hyphenSettings, ...(isObject(appSettings.hyphenSettings) ? appSettings.hyphenSettings : {}) },
+            loopRules: { ...DEFAULT_SETTINGS.loopRules, ...(isObject(appSettings.loopRules) ? appSettings.loopRules : {}) },
+            instrumentMappings: { ...DEFAULT_SETTINGS.instrumentMappings, ...(isObject(appSettings.instrumentMappings) ? appSettings.instrumentMappings : {}) },
+        } as AppSettings,
+        colorSettings: {
+            ...DEFAULT_COLORS,
+            entities: { ...DEFAULT_COLORS.entities, ...(isObject(colorSettings.entities) ? colorSettings.entities : {}) },
+            relationships: { ...DEFAULT_COLORS.relationships, ...(isObject(colorSettings.relationships) ? colorSettings.relationships : {}) },
+            highlights: { ...DEFAULT_COLORS.highlights, ...(isObject(colorSettings.highlights) ? colorSettings.highlights : {}) },
+        } as ColorSettings,
+    };
+};
+
+const isNamedProfile = (value: unknown): value is Record<string, unknown> =>
+    isObject(value) && typeof value.name === 'string' && value.name.trim() !== '';
+
+const byName = (a: SettingsProfile, b: SettingsProfile) => a.name.localeCompare(b.name);
+
+/** Profiles saved in this browser, sorted by name. */
+export const loadSettingsProfiles = (): SettingsProfile[] => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) || '[]');
+        return Array.isArray(parsed) ? parsed.filter(isNamedProfile).map(normalizeProfile).sort(byName) : [];
+    } catch {
+        // Unreadable profile storage is treated as having no profiles
+        return [];
+    }
+};
+
+export const saveSettingsProfiles = (profiles: SettingsProfile[]): void => {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const getActiveProfileName = (): string | null => localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) || null;
+
+export const saveActiveProfileName = (name: string | null): void => {
+    if (name) {
+        localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, name);
+    } else {
+        localStorage.removeItem(ACTIVE_PROFILE_STORAGE_KEY);
+    }
+};
+
+export const createSettingsProfile = (
+    name: string,
+    patterns: PatternConfig,
+    tolerances: ToleranceConfig,
+    appSettings: AppSettings,
+    colorSettings: ColorSettings
+): SettingsProfile => ({
+    name: name.trim(),
+    updatedAt: new Date().toISOString(),
+    patterns,
+    tolerances,
+    appSettings,
+    colorSettings,
+});
+
+/** Add the profile, replacing the one with the same name. */
+export const upsertSettingsProfile = (profiles: SettingsProfile[], profile: SettingsProfile): SettingsProfile[] =>
+    [...profiles.filter(existing => existing.name !== profile.name), profile].sort(byName);
+
+/** Download the profile as a file that `parseSettingsProfileFile` reads back. */
+export const exportSettingsProfile = (profile: SettingsProfile): void => {
+    const file: SettingsProfileFile = {
+        kind: SETTINGS_PROFILE_FILE_KIND,
+        version: SETTINGS_PROFILE_FILE_VERSION,
+        profile,
+    };
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${profile.name.replace(/[\\/:*?"<>|]+/g, '_')}.pid-profile.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+/** Read an exported profile file. Throws with a message for the user when it is not one. */
+export const parseSettingsProfileFile = (text: string): SettingsProfile => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('JSON 파일이 아닙니다.');
+    }
+    if (!isObject(data) || data.kind !== SETTINGS_PROFILE_FILE_KIND) {
+        throw new Error('설정 프로필 파일이 아닙니다.');
+    }
+    if (typeof data.version !== 'number' || data.version > SETTINGS_PROFILE_FILE_VERSION) {
+        throw new Error(`지원하지 않는 프로필 파일 버전입니다 (v${data.version}).`);
+    }
+    if (!isNamedProfile(data.profile)) {
+        throw new Error('프로필 이름이 없습니다.');
+    }
+    return normalizeProfile(data.profile);
+};
@@ -0,0 +1,202 @@
+import { extractTagsFromTextContent, toPageGeometry } from './taggingService.ts';
+import { detectLines } from './lineDetectionService.ts';
+import { getDocumentKey } from './tagIdentity.ts';
+import { AppSettings, DetectedLine, PatternConfig, RawTextItem, Tag, ToleranceConfig } from '../types.ts';
+
+// Leave one core for the UI thread; more workers than this stop paying off
+const MAX_POOL_SIZE = 4;
+// Pages fetched ahead of the workers, per worker; bounds how much text content sits in memory
+const PAGES_IN_FLIGHT_PER_WORKER = 2;
+
+export interface PageExtractionOptions {
+    patterns: PatternConfig;
+    tolerances: ToleranceConfig;
+    appSettings: AppSettings;
+    signal?: AbortSignal;
+    onPageComplete?: (completedPages: number, totalPages: number) => void;
+}
+
+export interface DocumentExtractionResult {
+    tags: Tag[];
+    rawTextItems: RawTextItem[];
+    detectedLines: DetectedLine[];
+}
+
+const createAbortError = () => new DOMException('PDF processing was cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const getPoolSize = () => Math.max(1, Math.min(MAX_POOL_SIZE, (navigator.hardwareConcurrency || 2) - 1));
+
+// A fixed set of workers fed from a shared queue
+const createWorkerPool = (size: number) => {
+    const workers: Worker[] = [];
+    const idle: Worker[] = [];
+    const queue: { message: object; resolve: (value) => void; reject: (error) => void }[] = [];
+    const pending = new Map<number, { resolve: (value) => void; reject: (error) => void; worker: Worker }>();
+    let nextTaskId = 0;
+    let terminated = false;
+
+    const dispatch = () => {
+        while (idle.length > 0 && queue.length > 0) {
+            const worker = idle.pop();
+            const { message, resolve, reject } = queue.shift();
+            const taskId = nextTaskId++;
+            pending.set(taskId, { resolve, reject, worker });
+            worker.postMessage({ ...message, taskId });
+        }
+    };
+
+    const release = (worker: Worker) => {
+        idle.push(worker);
+        dispatch();
+    };
+
+    // A failed worker never answers again: drop it, and once none are left fail the queue so its pages fall back
+    const discard = (worker: Worker, error: Error) => {
+        worker.terminate();
+        workers.splice(workers.indexOf(worker), 1);
+        if (idle.includes(worker)) idle.splice(idle.indexOf(worker), 1);
+        if (workers.length > 0) return;
+        queue.forEach(task => task.reject(error));
+        queue.length = 0;
+    };
+
+    for (let i = 0; i < size; i++) {
+        const worker = new Worker(new URL('../workers/tagExtractionWorker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent) => {
+            const { taskId, result, error } = event.data;
+            const task = pending.get(taskId);
+            if (!task) return;
+            pending.delete(taskId);
+            if (error) task.reject(new Error(error));
+            else task.resolve(result);
+            release(worker);
+        };
+        worker.onerror = (event) => {
+            // The worker script itself failed (e.g. could not load); fail whatever it was running
+            event.preventDefault();
+            const error = new Error(event.message || 'Tag extraction worker failed');
+            for (const [taskId, task] of pending) {
+                if (task.worker !== worker) continue;
+                pending.delete(taskId);
+                task.reject(error);
+            }
+            discard(worker, error);
+        };
+        workers.push(worker);
+        idle.push(worker);
+    }
+
+    const run = (message: object): Promise<{ tags: Tag[]; rawTextItems: RawTextItem[] }> =>
+        new Promise((resolve, reject) => {
+            if (terminated) {
+                reject(createAbortError());
+                return;
+            }
+            if (workers.length === 0) {
+                reject(new Error('No tag extraction worker is left'));
+                return;
+            }
+            queue.push({ message, resolve, reject });
+            dispatch();
+        });
+
+    const terminate = () => {
+        if (terminated) return;
+        terminated = true;
+        workers.forEach(worker => worker.terminate());
+        const error = createAbortError();
+        pending.forEach(task => task.reject(error));
+        queue.forEach(task => task.reject(error));
+        pending.clear();
+        queue.length = 0;
+    };
+
+    return { run, terminate };
+};
+
+const tryCreateWorkerPool = (size: number) => {
+    if (typeof Worker === 'undefined') return null;
+    try {
+        return createWorkerPool(size);
+    } catch {
+        // Worker construction blocked (CSP, old browser) - extract on the main thread instead
+        return null;
+    }
+};
+
+/**
+ * Extract tags, raw text and vector lines from every page of a document. Tag extraction runs in a
+ * Web Worker pool with several pages in flight; results are assembled in page order, so the output
+ * matches calling extractTags page by page. Rejects with an AbortError when `signal` is aborted.
+ */
+export const extractDocument = async (pdfDoc, options: PageExtractionOptions): Promise<DocumentExtractionResult> => {
+    const { patterns, tolerances, appSettings, signal, onPageComplete } = options;
+    const totalPages: number = pdfDoc.numPages;
+    const documentKey = await getDocumentKey(pdfDoc);
+    const poolSize = getPoolSize();
+    const pool = tryCreateWorkerPool(poolSize);
+    const pageResults: DocumentExtractionResult[] = new Array(totalPages);
+    let nextPage = 1;
+    let completedPages = 0;
+
+    const throwIfAborted = () => {
+        if (signal?.aborted) throw createAbortError();
+    };
+    const handleAbort = () => pool?.terminate();
+    signal?.addEventListener('abort', handleAbort);
+
+    const extractPage = async (pageNum: number) => {
+        const page = await pdfDoc.getPage(pageNum);
+        const textContent = await page.getTextContent();
+        throwIfAborted();
+        const viewport = toPageGeometry(page.getViewport({ scale: 1.0 }));
+        const extractOnMainThread = () => extractTagsFromTextContent(textContent, viewport, pageNum, patterns, tolerances, appSettings, documentKey);
+
+        const extraction = pool
+            ? pool.run({ pageNum, textContent: { items: textContent.items }, viewport, patterns, tolerances, appSettings, documentKey })
+                .catch(error => {
+                    if (isAbortError(error)) throw error;
+                    // A failing worker must not change the result: redo this page on the main thread
+                    return extractOnMainThread();
+                })
+            : Promise.resolve().then(extractOnMainThread);
+
+        let detectedLines: DetectedLine[] = [];
+        try {
+            detectedLines = await detectLines(pdfDoc, pageNum);
+        } catch {
+            // 선 검출 실패 - 태그 추출은 계속 진행
+        }
+
+        const { tags, rawTextItems } = await extraction;
+        throwIfAborted();
+        pageResults[pageNum - 1] = { tags, rawTextItems, detectedLines };
+        completedPages++;
+        onPageComplete?.(completedPages, totalPages);
+    };
+
+    const runLane = async () => {
+        while (nextPage <= totalPages) {
+            throwIfAborted();
+            await extractPage(nextPage++);
+        }
+    };
+
+    try {
+        throwIfAborted();
+        const laneCount = pool ? poolSize * PAGES_IN_FLIGHT_PER_WORKER : 1;
+        await Promise.all(Array.from({ length: Math.min(laneCount, totalPages) }, runLane));
+    } finally {
+        signal?.removeEventListener('abort', handleAbort);
+        pool?.terminate();
+    }
+
+    // Concatenate in page order; flat() rather than push(...), which a dense page's array can push past the argument limit
+    return {
+        tags: pageResults.map(pageResult => pageResult.tags).flat(),
+        rawTextItems: pageResults.map(pageResult => pageResult.rawTextItems).flat(),
+        detectedLines: pageResults.map(pageResult => pageResult.detectedLines).flat(),
+    };
+};
@@ -0,0 +1,66 @@
+import { BoundingBox } from '../types.ts';
+import { computeContentHash } from './autosaveService.ts';
+
+// Bboxes are snapped to this grid (px at scale 1) before hashing, so sub-pixel noise keeps an id
+export const STABLE_ID_GRID_PX = 2;
+
+export type StableIdKind = 'tag' | 'raw';
+
+// 53-bit string hash (cyrb53); two seeds give 106 bits, plenty to keep distinct keys apart
+const hashString = (text: string, seed: number) => {
+    let h1 = 0xdeadbeef ^ seed;
+    let h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ code, 2654435761);
+        h2 = Math.imul(h2 ^ code, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+const normalizeText = (text: string) => text.replace(/\s+/g, '').toUpperCase();
+
+const documentKeys = new WeakMap<object, Promise<string>>();
+
+/**
+ * Key identifying a PDF by content rather than by file name or session, so everyone opening the
+ * same drawing set gets the same key. The pdf.js fingerprint comes from the trailer /ID, which some
+ * PDF writers reuse for every file exported from one template, so a hash of the file's bytes is
+ * added to keep such files apart. Computed once per loaded document.
+ */
+export const getDocumentKey = (pdfDoc): Promise<string> => {
+    if (!pdfDoc) return Promise.resolve('');
+    let key = documentKeys.get(pdfDoc);
+    if (!key) {
+        const fingerprint: string = pdfDoc.fingerprints?.[0] || '';
+        key = pdfDoc.getData()
+            .then((data: Uint8Array) => computeContentHash(data))
+            .then((hash: string) => `${fingerprint}|${hash}`)
+            .catch(() => {
+                // No SubtleCrypto outside secure contexts - the fingerprint alone has to do
+                return fingerprint;
+            });
+        documentKeys.set(pdfDoc, key);
+    }
+    return key;
+};
+
+/**
+ * Id generator for one extracted page. Ids hash the document key, page, normalized text and
+ * grid-snapped bbox, so the same text at the same spot gets the same id on every run.
+ * Repeats on a page (stacked duplicate text) are numbered in extraction order.
+ */
+export const createStableIdAllocator = (documentKey: string, page: number) => {
+    const used = new Map<string, number>();
+    const snap = (value: number) => Math.round(value / STABLE_ID_GRID_PX);
+
+    return (kind: StableIdKind, text: string, bbox: BoundingBox): string => {
+        const key = [documentKey, page, kind, normalizeText(text), snap(bbox.x1), snap(bbox.y1), snap(bbox.x2), snap(bbox.y2)].join('|');
+        const id = `${kind}-${hashString(key, 0)}${hashString(key, 1)}`;
+        const count = (used.get(id) || 0) + 1;
+        used.set(id, count);
+        return count === 1 ? id : `${id}-${count}`;
+    };
+};
@@ -1,6 +1,6 @@
-import { Category } from '../types.ts';
+import { Category, TagMetadata } from '../types.ts';
 import { DEFAULT_PATTERNS } from '../constants.ts';
-import { v4 as uuidv4 } from 'uuid';
+import { createStableIdAllocator, getDocumentKey } from './tagIdentity.ts';
 
 // Helper function to remove whitespace from tag text (except for NotesAndHolds)
 const removeWhitespace = (text, category, shouldRemoveWhitespace) => {
@@ -11,6 +11,28 @@ const removeWhitespace = (text, category, shouldRemoveWhitespace) => {
 };
 
 
+// Max distance (px) between an off-page connector and its destination drawing number text
+const OPC_DESTINATION_SEARCH_RADIUS = 80;
+
+// Best drawing-number candidate score: every bonus in scoreCandidate, no distance penalty
+const MAX_DRAWING_CANDIDATE_SCORE = 2100;
+
+const clampConfidence = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
+
+// A match covering the whole text item is exact; one cut out of a longer string is partial
+const matchConfidence = (matchText: string, itemText: string) => {
+    const coverage = matchText.trim().length / Math.max(1, itemText.trim().length);
+    return coverage >= 1 ? 0.95 : clampConfidence(0.5 + 0.35 * coverage);
+};
+
+// Pass 1 pairs: the number of a bubble sits one text line under its function code, so
+// horizontal misalignment says more about a wrong pairing than the vertical gap does
+const alignmentConfidence = (dx: number, dy: number, tolerance: { horizontal: number; vertical: number }) => {
+    const dxRatio = tolerance.horizontal > 0 ? dx / tolerance.horizontal : 0;
+    const dyRatio = tolerance.vertical > 0 ? dy / tolerance.vertical : 0;
+    return clampConfidence(0.95 - 0.4 * dxRatio - 0.05 * dyRatio);
+};
+
 // Helper function to calculate bounding box with screen coordinate transformation
 const calculateBbox = (item, viewBoxOffsetX = 0, viewBoxOffsetY = 0, viewport = null, rotation = 0) => {
     const { transform, width, height } = item;
@@ -124,7 +146,22 @@ export const extractTags = async (pdfDoc, pageNum, patterns, tolerances, appSett
     const page = await pdfDoc.getPage(pageNum);
     const textContent = await page.getTextContent();
     const viewport = page.getViewport({ scale: 1.0 });
+    return extractTagsFromTextContent(textContent, viewport, pageNum, patterns, tolerances, appSettings, await getDocumentKey(pdfDoc));
+};
+
+// Plain-data view of a pdf.js PageViewport; enough for bbox calculation and safe to post to a worker
+export const toPageGeometry = (viewport) => ({
+    width: viewport.width,
+    height: viewport.height,
+    rotation: viewport.rotation || 0,
+    viewBox: viewport.viewBox ? [...viewport.viewBox] : null,
+});
+
+// Synchronous core of extractTags: works on already-fetched text content, so it can run in a Web Worker.
+// documentKey (see getDocumentKey) makes the ids of tags and raw text stable across runs.
+export const extractTagsFromTextContent = (textContent, viewport, pageNum, patterns, tolerances, appSettings = { autoRemoveWhitespace: true }, documentKey = '') => {
     const rotation = viewport.rotation || 0;
+    const nextId = createStableIdAllocator(documentKey, pageNum);
     
     // Get the viewBox offset - some PDFs have non-zero origin
     const viewBoxOffsetX = viewport.viewBox ? viewport.viewBox[0] : 0;
@@ -182,6 +219,7 @@ export const extractTags = async (pdfDoc, pageNum, patterns, tolerances, appSett
                 if (func.item.str.toUpperCase() === 'FF') continue;
 
                 let bestPartner = null;
+                let bestAlignment = { dx: 0, dy: 0 };
                 let minDistanceSq = Infinity;
 
                 const funcCenter = {
@@ -228,6 +266,7 @@ export const extractTags = async (pdfDoc, pageNum, patterns, tolerances, appSett
                         if (distanceSq < minDistanceSq) {
                             minDistanceSq = distanceSq;
                             bestPartner = num;
+                            bestAlignment = { dx, dy };
                             if (func.item.str === "TXT" && num.item.str === "596B") {
                             }
                         }
@@ -251,15 +290,16 @@ export const extractTags = async (pdfDoc, pageNum, patterns, tolerances, appSett
                     };
 
                     foundTags.push({
-                        id: uuidv4(),
+                        id: nextId('tag', combinedText, combinedBbox),
                         text: combinedText,
                         page: pageNum,
                         bbox: combinedBbox,
                         category: Category.Instrument,
                         sourceItems: [
-                            {...func.item, id: uuidv4(), bbox: func.bbox, page: pageNum}, 
-                            {...bestPartner.item, id: uuidv4(), bbox: bestPartner.bbox, page: pageNum}
-                        ]
+                            {...func.item, id: nextId('raw', func.item.str, func.bbox), bbox: func.bbox, page: pageNum}, 
+                            {...bestPartner.item, id: nextId('raw', bestPartner.item.str, bestPartner.bbox), bbox: bestPartner.bbox, page: pageNum}
+                        ],
+                        confidence: alignmentConfidence(bestAlignment.dx, bestAlignment.dy, instrumentTolerances),
                     });
 
                     consumedIndices.add(func.index);
@@ -276,6 +316,7 @@ export const extractTags = async (pdfDoc, pageNum, patterns, tolerances, appSett
     const linePattern = patterns['Line'] || patterns[Category.Line] || DEFAULT_PATTERNS[Category.Line];
     const categoryPatterns = [
         { category: Category.Line, regex: linePattern },
+        { category: Category.Equipment, regex: patterns[Category.Equipment] },
         { category: Category.NotesAndHolds, regex: patterns[Category.NotesAndHolds] },
     ];
 
@@ -320,12 +361,14 @@ export const extractTags = async (pdfDoc, pageNum, patterns, tolerances, appSett
                         if (matchText.toUpperCase().startsWith('FF')) continue;
 
                         const cleanedText = removeWhitespace(matchText, pattern.category, appSettings.autoRemoveWhitespace);
+                        const bbox = calculateBbox(item, viewBoxOffsetX, viewBoxOffsetY, viewport, rotation);
                         foundTags.push({
-                            id: uuidv4(),
+                            id: nextId('tag', cleanedText, bbox),
                             text: cleanedText,
                             page: pageNum,
-                            bbox: calculateBbox(item, viewBoxOffsetX, viewBoxOffsetY, viewport, rotation),
+                            bbox,
                             category: pattern.category,
+                            confidence: matchConfidence(matchText, item.str),
                         });
                     }
                 }
@@ -338,6 +381,69 @@ export const extractTags = async (pdfDoc, pageNum, patterns, tolerances, appSett
         }
     }
     
+    // Pass 2b: Off-page connectors - reference text plus the destination drawing number printed next to it
+    const opcRegexString = patterns[Category.OffPageConnector];
+    if (opcRegexString) {
+        try {
+            const opcRegex = new RegExp(opcRegexString, 'i');
+            const destinationRegex = patterns[Category.DrawingNumber] ? new RegExp(patterns[Category.DrawingNumber], 'i') : null;
+
+            for (let i = 0; i < textItems.length; i++) {
+                if (consumedIndices.has(i)) continue;
+                const item = textItems[i];
+                const match = item.str.trim().match(opcRegex);
+                if (!match) continue;
+
+                const bbox = calculateBbox(item, viewBoxOffsetX, viewBoxOffsetY, viewport, rotation);
+                const center = { x: (bbox.x1 + bbox.x2) / 2, y: (bbox.y1 + bbox.y2) / 2 };
+                const sourceItems = [{ ...item, id: nextId('raw', item.str, bbox), bbox, page: pageNum }];
+                const metadata: TagMetadata = { page: pageNum };
+
+                // Nearest unconsumed drawing-number-like text is the connector's destination
+                if (destinationRegex) {
+                    let nearest = null;
+                    let minDistance = OPC_DESTINATION_SEARCH_RADIUS;
+                    for (let j = 0; j < textItems.length; j++) {
+                        if (j === i || consumedIndices.has(j)) continue;
+                        const destMatch = textItems[j].str.match(destinationRegex);
+                        if (!destMatch) continue;
+                        const destBbox = calculateBbox(textItems[j], viewBoxOffsetX, viewBoxOffsetY, viewport, rotation);
+                        const distance = Math.hypot(
+                            (destBbox.x1 + destBbox.x2) / 2 - center.x,
+                            (destBbox.y1 + destBbox.y2) / 2 - center.y
+                        );
+                        if (distance < minDistance) {
+                            minDistance = distance;
+                            nearest = { index: j, bbox: destBbox, text: destMatch[0].trim() };
+                        }
+                    }
+                    if (nearest) {
+                        metadata.destination = nearest.text;
+                        sourceItems.push({ ...textItems[nearest.index], id: nextId('raw', textItems[nearest.index].str, nearest.bbox), bbox: nearest.bbox, page: pageNum });
+                        consumedIndices.add(nearest.index);
+                    }
+                }
+
+                // A connector without a readable destination is half a connector
+                const opcConfidence = matchConfidence(match[0], item.str) - (metadata.destination ? 0 : 0.2);
+                const opcText = removeWhitespace(match[0], Category.OffPageConnector, appSettings.autoRemoveWhitespace);
+                foundTags.push({
+                    id: nextId('tag', opcText, bbox),
+                    text: opcText,
+                    page: pageNum,
+                    bbox,
+                    category: Category.OffPageConnector,
+                    sourceItems,
+                    metadata,
+                    confidence: clampConfidence(opcConfidence),
+                });
+                consumedIndices.add(i);
+            }
+        } catch {
+            // Invalid OPC regex - skip connector detection
+        }
+    }
+
     // Pass 3: Find drawing number (one per page, closest to bottom-right corner)
     const drawingNumberRegexString = patterns[Category.DrawingNumber];
     if (drawingNumberRegexString) {
@@ -508,6 +614,7 @@ export const extractTags = async (pdfDoc, pageNum, patterns, tolerances, appSett
                 const sheetItem = rightCandidates.length > 0 ? rightCandidates[0] : null;
 
                 const drawingText = bestCandidate.text.trim();
+                const drawingConfidence = clampConfidence(bestCandidate.score / MAX_DRAWING_CANDIDATE_SCORE);
                 let finalText = drawingText;
                 const metadata: any = { page: pageNum };
 
@@ -518,23 +625,26 @@ export const extractTags = async (pdfDoc, pageNum, patterns, tolerances, appSett
                         finalText = `${drawingText}-${metadata.sheet}`;
                     }
 
+                    const drawingBbox = unionBbox(bestCandidate.bbox, sb);
                     foundTags.push({
-                        id: uuidv4(),
+                        id: nextId('tag', finalText, drawingBbox),
                         text: finalText,     // 도면-시트 결합(옵션)
                         page: pageNum,
-                        bbox: unionBbox(bestCandidate.bbox, sb),
+                        bbox: drawingBbox,
                         category: Category.DrawingNumber,
-                        metadata
+                        metadata,
+                        confidence: drawingConfidence,
                     });
                 } else {
                     // 시트가 없으면 도면번호만
                     foundTags.push({
-                        id: uuidv4(),
+                        id: nextId('tag', finalText, bestCandidate.bbox),
                         text: finalText,
                         page: pageNum,
                         bbox: bestCandidate.bbox,
                         category: Category.DrawingNumber,
-                        metadata
+                        metadata,
+                        confidence: drawingConfidence,
                     });
                 }
 
@@ -553,7 +663,7 @@ export const extractTags = async (pdfDoc, pageNum, patterns, tolerances, appSett
         
         
         rawTextItems.push({
-            id: uuidv4(),
+            id: nextId('raw', item.str, bbox),
             text: item.str,
             page: pageNum,
             bbox: bbox,
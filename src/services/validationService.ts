@@ -0,0 +1,170 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+    Category,
+    Description,
+    Loop,
+    RawTextItem,
+    Relationship,
+    RelationshipType,
+    Tag,
+    ValidationIssue,
+    ValidationRuleConfig,
+    ValidationRuleId,
+    ValidationSeverity,
+} from '../types.ts';
+import { DEFAULT_SETTINGS } from '../constants.ts';
+import { normalizeTagNumber } from './instrumentIndexService.ts';
+
+export interface ValidationInput {
+    tags: Tag[];
+    relationships: Relationship[];
+    descriptions: Description[];
+    loops: Loop[];
+    rawTextItems: RawTextItem[];
+}
+
+type RuleFinding = Omit<ValidationIssue, 'id' | 'ruleId' | 'severity'>;
+
+interface ValidationRule {
+    id: ValidationRuleId;
+    label: string;
+    description: string;
+    check: (input: ValidationInput) => RuleFinding[];
+}
+
+export const SEVERITY_ORDER: Record<ValidationSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+const pageKeyOf = (item: { documentId?: string; page: number }) => `${item.documentId || ''}:${item.page}`;
+
+export const VALIDATION_RULES: ValidationRule[] = [
+    {
+        id: 'duplicateInstrument',
+        label: '중복 계기 태그',
+        description: '같은 계기 태그 번호가 여러 번 추출된 경우',
+        check: ({ tags }) => {
+            const byNumber = new Map<string, Tag[]>();
+            tags.filter(tag => tag.category === Category.Instrument).forEach(tag => {
+                const key = normalizeTagNumber(tag.text);
+                byNumber.set(key, [...(byNumber.get(key) || []), tag]);
+            });
+            return [...byNumber.values()]
+                .filter(group => group.length > 1)
+                .map(group => ({
+                    message: `계기 태그 ${group[0].text}이(가) ${group.length}번 나옵니다 (페이지 ${[...new Set(group.map(tag => tag.page))].join(', ')})`,
+                    page: group[0].page,
+                    documentId: group[0].documentId,
+                    entityIds: group.map(tag => tag.id),
+                }));
+        },
+    },
+    {
+        id: 'unlinkedInstrument',
+        label: '연결 없는 계기',
+        description: '라인/장비 설치(Installation) 관계와 노트(Note) 관계가 모두 없는 계기',
+        check: ({ tags, relationships }) => {
+            const linked = new Set(relationships
+                .filter(r => r.type === RelationshipType.Installation || r.type === RelationshipType.Note)
+                .map(r => r.from));
+            return tags
+                .filter(tag => tag.category === Category.Instrument && !linked.has(tag.id))
+                .map(tag => ({
+                    message: `계기 ${tag.text}에 설치 또는 노트 관계가 없습니다`,
+                    page: tag.page,
+                    documentId: tag.documentId,
+                    entityIds: [tag.id],
+                }));
+        },
+    },
+    {
+        id: 'singleMemberLoop',
+        label: '단일 구성 루프',
+        description: '계기가 하나뿐인 루프',
+        check: ({ tags, loops }) => {
+            const tagById = new Map(tags.map(tag => [tag.id, tag]));
+            return loops
+                .filter(loop => loop.tagIds.length === 1)
+                .map(loop => {
+                    const tag = tagById.get(loop.tagIds[0]);
+                    return {
+                        message: `루프 ${loop.name || loop.id}에 계기가 하나뿐입니다${tag ? ` (${tag.text})` : ''}`,
+                        page: tag?.page || 1,
+                        documentId: tag?.documentId,
+                        entityIds: tag ? [tag.id] : [],
+                    };
+                });
+        },
+    },
+    {
+        id: 'noteWithoutDescription',
+        label: '설명 없는 노트',
+        description: 'NOTE/HOLD 번호에 해당하는 설명(Description)이 없는 노트 태그',
+        check: ({ tags, descriptions }) => {
+            // A General description applies to the whole set, a Specific one only to its page
+            const generalKeys = new Set<string>();
+            const pageKeys = new Set<string>();
+            descriptions.forEach(description => {
+                const key = `${description.metadata.type}|${description.metadata.number}`;
+                if (description.metadata.scope === 'General') generalKeys.add(key);
+                pageKeys.add(`${pageKeyOf(description)}|${key}`);
+            });
+            const findings: RuleFinding[] = [];
+            tags.filter(tag => tag.category === Category.NotesAndHolds).forEach(tag => {
+                const match = tag.text.match(/^(NOTE|HOLD)\s*(\d+)/i);
+                if (!match) return;
+                const key = `${match[1].toUpperCase() === 'NOTE' ? 'Note' : 'Hold'}|${parseInt(match[2], 10)}`;
+                if (generalKeys.has(key) || pageKeys.has(`${pageKeyOf(tag)}|${key}`)) return;
+                findings.push({
+                    message: `${tag.text}에 해당하는 설명이 없습니다`,
+                    page: tag.page,
+                    documentId: tag.documentId,
+                    entityIds: [tag.id],
+                });
+            });
+            return findings;
+        },
+    },
+    {
+        id: 'pageWithoutDrawingNumber',
+        label: '도면번호 없는 페이지',
+        description: '텍스트는 있지만 도면번호 태그가 없는 페이지',
+        check: ({ tags, rawTextItems }) => {
+            const withDrawingNumber = new Set(tags.filter(tag => tag.category === Category.DrawingNumber).map(pageKeyOf));
+            const pages = new Map<string, { page: number; documentId?: string }>();
+            [...rawTextItems, ...tags].forEach(item => {
+                if (!pages.has(pageKeyOf(item))) pages.set(pageKeyOf(item), { page: item.page, documentId: item.documentId });
+            });
+            return [...pages.entries()]
+                .filter(([key]) => !withDrawingNumber.has(key))
+                .map(([, { page, documentId }]) => ({
+                    message: `${page} 페이지에 도면번호 태그가 없습니다`,
+                    page,
+                    documentId,
+                    entityIds: [],
+                }));
+        },
+    },
+];
+
+export const getValidationRuleConfig = (
+    rules: Partial<Record<ValidationRuleId, ValidationRuleConfig>> | undefined,
+    ruleId: ValidationRuleId
+): ValidationRuleConfig => rules?.[ruleId] || DEFAULT_SETTINGS.validationRules[ruleId];
+
+/**
+ * Run every enabled rule and return the issues, most severe first, then by page.
+ * Rules missing from `rules` use their defaults.
+ */
+export const validateProject = (
+    input: ValidationInput,
+    rules?: Partial<Record<ValidationRuleId, ValidationRuleConfig>>
+): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    VALIDATION_RULES.forEach(rule => {
+        const config = getValidationRuleConfig(rules, rule.id);
+        if (!config.enabled) return;
+        rule.check(input).forEach(finding => {
+            issues.push({ id: uuidv4(), ruleId: rule.id, severity: config.severity, ...finding });
+        });
+    });
+    return issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.page - b.page);
+};
@@ -1,8 +1,10 @@
 export const Category = {
   Line: 'Line',
   Instrument: 'Instrument',
+  Equipment: 'Equipment',
   DrawingNumber: 'DrawingNumber',
   NotesAndHolds: 'NotesAndHolds',
+  OffPageConnector: 'OffPageConnector',
   Uncategorized: 'Uncategorized',
 } as const;
 
@@ -14,6 +16,7 @@ export const RelationshipType = {
   Annotation: 'Annotation', // Tag -> Raw Text Item
   Note: 'Note', // Line/Instrument -> NotesAndHolds Tag
   Description: 'Description', // NotesAndHolds Tag -> Description
+  OffPageConnection: 'OffPageConnection', // OPC Tag <-> matching OPC Tag on another page
 } as const;
 
 export type RelationshipTypeValue = typeof RelationshipType[keyof typeof RelationshipType];
@@ -23,15 +26,19 @@ export interface VisibilitySettings {
   tags: {
     line: boolean;
     instrument: boolean;
+    equipment: boolean;
     drawingNumber: boolean;
     notesAndHolds: boolean;
+    offPageConnector: boolean;
   };
   descriptions: boolean;
+  detectedLines: boolean; // Vector line geometry overlay (debug)
   relationships: {
     connection: boolean;
     installation: boolean;
     annotation: boolean;
     note: boolean;
+    offPageConnection: boolean;
   };
 }
 
@@ -40,8 +47,10 @@ export interface ColorSettings {
   entities: {
     line: string;
     instrument: string;
+    equipment: string;
     drawingNumber: string;
     notesAndHolds: string;
+    offPageConnector: string;
     uncategorized: string;
     description: string;        // Description entity color
   };
@@ -50,6 +59,7 @@ export interface ColorSettings {
     installation: string;       // Installation arrow line
     annotation: string;         // Annotation line & linked raw text
     note: string;              // Note relationship line
+    offPageConnection: string; // OPC pair (cross-page, list/badge only)
   };
   highlights: {
     primary: string;        // Red-500 (primary selection/ping)
@@ -75,6 +85,33 @@ export interface RawTextItem {
   text: string;
   page: number;
   bbox: BoundingBox;
+  documentId?: string; // Owning PDF in a multi-PDF project (stamped on export/switch)
+}
+
+export interface TagMetadata {
+  page?: number;
+  sheet?: string;        // DrawingNumber: sheet no. found to the right
+  destination?: string;  // OffPageConnector: destination drawing number printed next to the connector
+}
+
+export type ReviewStatus = 'unreviewed' | 'approved' | 'rejected' | 'query';
+
+export interface TagReview {
+  status: ReviewStatus;
+  reviewer?: string;
+  reviewedAt?: string; // ISO timestamp of the last status change
+  comment?: string;
+}
+
+export interface DrawingReviewProgress {
+  pageKey: string; // documentId:page
+  page: number;
+  documentId?: string;
+  drawingNumber: string;
+  total: number;
+  approved: number;
+  rejected: number;
+  query: number;
 }
 
 export interface Tag {
@@ -84,9 +121,11 @@ export interface Tag {
   bbox: BoundingBox;
   category: CategoryType;
   sourceItems: RawTextItem[];
-  isReviewed?: boolean;
-  confidence?: number; // AI confidence score (0-1)
+  review?: TagReview; // QA review; absent means unreviewed
+  confidence?: number; // Extraction confidence (0-1), set by the extractor; manual tags have none
   source?: 'manual' | 'regex'; // Tag source
+  metadata?: TagMetadata;
+  documentId?: string; // Owning PDF in a multi-PDF project (stamped on export/switch)
 }
 
 export interface Description {
@@ -100,6 +139,7 @@ export interface Description {
     scope: 'General' | 'Specific';
     number: number;
   };
+  documentId?: string;
 }
 
 export interface Loop {
@@ -108,6 +148,23 @@ export interface Loop {
   tagIds: string[]; // Array of instrument tag IDs in this loop
   createdAt: string; // ISO timestamp
   isAutoGenerated: boolean; // true for auto-generated, false for manual
+  notes?: string; // Optional free-text notes
+}
+
+// Remark pinned to a spot on a drawing, or to a tag. x/y are page coordinates at scale 1.
+export interface DrawingComment {
+  id: string;
+  page: number;
+  x: number;
+  y: number;
+  tagId?: string;      // Pin follows this tag while it exists
+  text: string;
+  author?: string;
+  createdAt: string;   // ISO timestamp
+  resolved: boolean;
+  resolvedBy?: string;
+  resolvedAt?: string; // ISO timestamp
+  documentId?: string;
 }
 
 export interface Relationship {
@@ -123,6 +180,25 @@ export interface Relationship {
   }>;
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Straight stroked path segment read from a page's vector graphics (screen space, scale 1)
+export interface DetectedLine {
+  id: string;
+  page: number;
+  start: Point;
+  end: Point;
+  type: 'horizontal' | 'vertical' | 'diagonal';
+  strokeWidth: number;
+  dashPattern: number[]; // Empty for solid lines
+  confidence?: number;
+  source: 'vector';
+  documentId?: string;
+}
+
 // Component prop interfaces
 export interface ConfirmModalProps {
   isOpen: boolean;
@@ -155,7 +231,7 @@ export interface HeaderProps {
   setShowOnlySelectedRelationships: (show: boolean) => void;
 }
 
-export type ViewMode = 'select' | 'connect' | 'manualCreate';
+export type ViewMode = 'select' | 'connect' | 'manualCreate' | 'comment';
 
 export interface PdfUploadProps {
   onFileSelect: (file: File) => void;
@@ -170,8 +246,8 @@ export interface WorkspaceProps {
   rawTextItems: RawTextItem[];
   descriptions: Description[];
   setDescriptions: React.Dispatch<React.SetStateAction<Description[]>>;
-  detectedLines?: any[]; // Optional array of detected line segments
-  onCreateTag: (itemsToConvert: RawTextItem[], category: CategoryType) => void;
+  detectedLines?: DetectedLine[]; // Optional array of detected line segments
+  onCreateTag: (itemsToConvert: RawTextItem[], category: CategoryType, text?: string) => void; // text replaces the combined item text
   onCreateManualTag: (tagData: ManualTagData) => void;
   onCreateDescription: (selectedItems: (Tag | RawTextItem)[]) => void;
   onDeleteTags: (tagIds: string[]) => void;
@@ -202,9 +278,10 @@ export interface WorkspaceProps {
   loops: Loop[];
   setLoops: React.Dispatch<React.SetStateAction<Loop[]>>;
   appSettings: AppSettings;
+  patterns: PatternConfig;
   onCreateHoldDescription: (selectedItems: (Tag | RawTextItem)[]) => void;
   onDeleteLoops: (loopIds: string[]) => void;
-  onUpdateLoop: (id: string, name: string, tags: string[], notes?: string) => void;
+  onUpdateLoop: (id: string, updates: Partial<Loop>) => void;
   onAutoGenerateLoops: () => void;
   onManualCreateLoop: (selectedTagIds: string[]) => void;
   toggleTagVisibility: (category: keyof VisibilitySettings['tags']) => void;
@@ -216,6 +293,38 @@ export interface WorkspaceProps {
   showOnlySelectedRelationships: boolean;
   setShowOnlySelectedRelationships: (show: boolean) => void;
   colorSettings: ColorSettings;
+  documents: PdfDocumentEntry[];
+  activeDocumentId: string | null;
+  otherDocumentTags: Tag[]; // Tags of the documents not currently shown
+  getWorkspaceData: () => DocumentData; // All documents' data, for consolidated export
+  onGoToDocumentTag: (documentId: string, tagId: string) => void;
+  focusTagId: string | null;
+  onFocusTagHandled: () => void;
+  revisionChanges?: RevisionChange[]; // Changes against a previous revision of the active document
+  comments: DrawingComment[]; // Comments of every document in the workspace
+  onCreateComment: (anchor: CommentAnchor, text: string) => void;
+  onUpdateComment: (id: string, updates: Partial<DrawingComment>) => void;
+  onDeleteComment: (id: string) => void;
+}
+
+export type AnnotatedExportFormat = 'pdf' | 'png';
+
+// Options of the annotated drawing export (PDF or one PNG per page)
+export interface AnnotatedExportOptions {
+  format: AnnotatedExportFormat;
+  pages: number[];
+  resolution: number; // Render scale; 1 = 72 dpi
+  includeLoops: boolean;
+  includeComments: boolean;
+  includeResolvedComments: boolean;
+}
+
+// Where a new comment goes, picked on the drawing before its text is entered
+export interface CommentAnchor {
+  page: number;
+  x: number;
+  y: number;
+  tagId?: string;
 }
 
 export interface ManualTagData {
@@ -234,8 +343,10 @@ export interface InstrumentPattern {
 export interface PatternConfig {
   [Category.Line]: string;
   [Category.Instrument]: InstrumentPattern;
+  [Category.Equipment]: string;
   [Category.DrawingNumber]: string;
   [Category.NotesAndHolds]: string;
+  [Category.OffPageConnector]: string;
 }
 
 export interface ToleranceConfig {
@@ -246,9 +357,36 @@ export interface ToleranceConfig {
   };
 }
 
+// A tag the given patterns would produce, as found by the settings preview
+export interface PatternPreviewMatch {
+  category: CategoryType;
+  text: string;
+  page: number;
+  bbox: BoundingBox;
+}
+
+// invalid: does not compile; slow: took long on this document; timeout: preview gave up on it
+export type PatternPreviewIssueKind = 'invalid' | 'slow' | 'timeout';
+
+export interface PatternPreviewIssue {
+  category: CategoryType;
+  kind: PatternPreviewIssueKind;
+  message: string;
+  run?: 'current' | 'candidate'; // Set on timeouts, which can hit either run
+}
+
+export interface PatternPreviewResult {
+  counts: { category: CategoryType; current: number; candidate: number }[];
+  pages: { page: number; counts: Partial<Record<CategoryType, number>> }[]; // Candidate matches per page
+  gained: PatternPreviewMatch[];  // Found by the candidate patterns only
+  lost: PatternPreviewMatch[];    // Found by the current patterns only
+  issues: PatternPreviewIssue[];  // Of the candidate patterns
+}
+
 export interface HyphenSettings {
   line: boolean;
   instrument: boolean;
+  equipment: boolean;
   drawingNumber: boolean;
   notesAndHolds: boolean;
 }
@@ -260,6 +398,16 @@ export interface InstrumentMapping {
   };
 }
 
+// Where an instrument's type came from: the user's mapping table or the ISA-5.1 decoder
+export type InstrumentTypeSource = 'mapped' | 'decoded' | 'unknown';
+
+export interface InstrumentTypeInfo {
+  functionCode: string;   // e.g. "PDIT"
+  instrumentType: string;
+  ioType: string;
+  source: InstrumentTypeSource;
+}
+
 // === ADD: 도면/시트 검색 영역 옵션 ===
 export interface DrawingSearchArea {
   unit: 'px' | 'percent';
@@ -282,6 +430,87 @@ export interface AppSettings {
   sheetNoPattern?: string;          // 예: ^\d{3}$
   combineDrawingAndSheet?: boolean; // EB-114739 + 001 → EB-114739-001
   sheetNoTolerancePx?: number; // Sheet No.를 탐색할 때 쓰는 좌/우 허용거리(px)
+  lineNumberGrammar?: LineNumberGrammar;
+  validationRules?: Partial<Record<ValidationRuleId, ValidationRuleConfig>>;
+}
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+export type ValidationRuleId =
+  | 'duplicateInstrument'
+  | 'unlinkedInstrument'
+  | 'singleMemberLoop'
+  | 'noteWithoutDescription'
+  | 'pageWithoutDrawingNumber';
+
+export interface ValidationRuleConfig {
+  enabled: boolean;
+  severity: ValidationSeverity;
+}
+
+export interface ValidationIssue {
+  id: string;
+  ruleId: ValidationRuleId;
+  severity: ValidationSeverity;
+  message: string;
+  page: number;
+  documentId?: string;
+  entityIds: string[];   // Tags (or loops) the issue is about; empty for page-level issues
+}
+
+// pattern: one edit away from matching a tag pattern; tag: reads like an existing tag with misread characters
+export type NearMissSource = 'pattern' | 'tag';
+
+// Raw text that almost became a tag, with the tag it probably should be
+export interface NearMiss {
+  item: RawTextItem;
+  suggestion: string;
+  category: CategoryType;
+  source: NearMissSource;
+  reason: string;        // The edit that makes it match, e.g. "O → 0"
+}
+
+export type LineNumberField = 'size' | 'service' | 'number' | 'pipingClass' | 'suffix';
+
+// One part of a line number, e.g. the nominal size in 8"-PL-30001-C1C
+export interface LineNumberSegment {
+  field: LineNumberField;
+  pattern: string;     // Regex for this part only, without anchors
+  optional?: boolean;
+}
+
+// Segments in the order they appear in the line number, joined by `separator` (a regex)
+export interface LineNumberGrammar {
+  separator: string;
+  segments: LineNumberSegment[];
+}
+
+export interface ParsedLineNumber {
+  isValid: boolean;         // false when the text does not match the grammar
+  size?: string;            // As written, e.g. 1-1/2" or DN40
+  sizeInches?: number;      // Nominal size in inches
+  sizeDn?: number;          // Nominal size as DN (mm)
+  service?: string;         // Fluid / service code
+  number?: string;          // Sequence number
+  pipingClass?: string;     // Piping spec / class
+  suffix?: string;          // Insulation / tracing code
+}
+
+// A named set of extraction and display settings, one per client drawing standard
+export interface SettingsProfile {
+  name: string;
+  updatedAt: string;
+  patterns: PatternConfig;
+  tolerances: ToleranceConfig;
+  appSettings: AppSettings;
+  colorSettings: ColorSettings;
+}
+
+// A profile exported to share with the team
+export interface SettingsProfileFile {
+  kind: 'pid-tagger-settings-profile';
+  version: number;
+  profile: SettingsProfile;
 }
 
 export interface SettingsModalProps {
@@ -289,23 +518,165 @@ export interface SettingsModalProps {
   tolerances: ToleranceConfig;
   appSettings: AppSettings;
   colorSettings: ColorSettings;
-  onSaveOnly: (patterns: PatternConfig, tolerances: ToleranceConfig, appSettings: AppSettings, colorSettings: ColorSettings) => void;
-  onSaveAndRescan: (patterns: PatternConfig, tolerances: ToleranceConfig, appSettings: AppSettings, colorSettings: ColorSettings, activeTab: string) => void;
+  activeProfileName: string | null;
+  tags: Tag[];
+  rawTextItems: RawTextItem[];
+  onSaveOnly: (patterns: PatternConfig, tolerances: ToleranceConfig, appSettings: AppSettings, colorSettings: ColorSettings, profileName: string | null) => void;
+  onSaveAndRescan: (patterns: PatternConfig, tolerances: ToleranceConfig, appSettings: AppSettings, colorSettings: ColorSettings, activeTab: string, profileName: string | null) => void;
   onClose: () => void;
 }
 
+// Which spreadsheet column holds each field of a client instrument index
+export interface InstrumentIndexColumnMapping {
+  tagNumber: string;
+  loopNumber: string;      // '' when the index has no loop column
+  drawingNumber: string;   // '' when the index has no P&ID column
+}
+
+export interface InstrumentIndexRow {
+  rowNumber: number;       // Spreadsheet row, 1-based including the header row
+  tagNumber: string;
+  loopNumber: string;
+  drawingNumber: string;
+}
+
+export interface InstrumentIndexRecord {
+  rowNumber: number;
+  values: Record<string, string>;  // Cell text by header
+}
+
+// A client instrument index loaded from XLSX/CSV, kept so it can be re-compared after edits
+export interface InstrumentIndex {
+  fileName: string;
+  headers: string[];
+  records: InstrumentIndexRecord[];
+  mapping: InstrumentIndexColumnMapping;
+}
+
+export interface InstrumentIndexMismatch {
+  tag: Tag;
+  row: InstrumentIndexRow;
+  drawingNumber: string;   // Drawing number of the page the tag is on
+}
+
+export interface InstrumentIndexLoopMismatch {
+  tag: Tag;
+  row: InstrumentIndexRow;
+  loopNumber: string;      // Loop the tag belongs to in the project
+}
+
+export interface InstrumentIndexReconciliation {
+  matchedCount: number;
+  missingInIndex: Tag[];                 // On the drawings, not in the index
+  notOnDrawings: InstrumentIndexRow[];   // In the index, not on any drawing
+  drawingMismatches: InstrumentIndexMismatch[];
+  loopMismatches: InstrumentIndexLoopMismatch[];
+}
+
+export type RevisionChangeType = 'added' | 'removed' | 'moved' | 'retexted';
+
+// A tag that differs between the previous revision and the current PDF
+export interface RevisionChange {
+  id: string;
+  type: RevisionChangeType;
+  category: CategoryType;
+  drawingNumber: string;
+  page: number;            // Page in the current PDF
+  bbox: BoundingBox;       // Current position; the previous position for removed tags
+  text: string;            // Current text; the previous text for removed tags
+  previousText?: string;   // retexted
+  distance?: number;       // moved: how far the tag shifted (px at scale 1)
+  tagId?: string;          // Current tag; absent for removed tags
+}
+
+export interface RevisionComparison {
+  previousFileName: string;
+  documentId: string | null;     // Document of the workspace the changes refer to
+  changes: RevisionChange[];
+  unchangedCount: number;
+  carriedOver: {
+    reviewed: number;
+    relationships: number;
+    descriptions: number;
+  };
+  newDrawings: string[];         // In the current PDF only - nothing to compare against
+  missingDrawings: string[];     // In the previous revision only
+}
+
+export type RescanChangeType = 'added' | 'removed' | 'changed';
+
+// A regex tag that an incremental rescan adds, removes or re-reads
+export interface RescanTagChange {
+  type: RescanChangeType;
+  tagId: string;                 // Tag id after the rescan; the old id for removed tags
+  page: number;
+  category: CategoryType;
+  text: string;                  // New text; the old text for removed tags
+  previousText?: string;         // changed
+  previousCategory?: CategoryType; // changed
+}
+
+export interface RescanSummary {
+  changes: RescanTagChange[];
+  unchangedCount: number;        // Regex tags matched to an old tag with the same text and category
+  kept: {
+    manual: number;              // Drawn or converted by hand
+    reviewed: number;            // Regex tags with a review status
+  };
+  relationships: {
+    kept: number;
+    dropped: number;             // An endpoint disappeared with the rescan
+  };
+  loops: {
+    kept: number;
+    dropped: number;             // Every member tag disappeared
+  };
+}
+
+// One PDF of a multi-PDF project. `file` is null until the PDF is opened in this session
+// (e.g. documents restored from a project file other than the one currently open).
+export interface PdfDocumentEntry {
+  id: string;
+  fileName: string;
+  file: File | null;
+  autosaveKey?: string | null;
+}
+
+// Working data of a document that is not currently shown
+export interface DocumentData {
+  tags: Tag[];
+  rawTextItems: RawTextItem[];
+  relationships: Relationship[];
+  descriptions: Description[];
+  loops: Loop[];
+  detectedLines: DetectedLine[];
+  currentPage: number;
+}
+
+export interface ProjectDocumentInfo {
+  id: string;
+  pdfFileName: string;
+}
+
 // Project data interfaces
 export interface ProjectData {
+  schemaVersion?: number; // Absent in files exported before versioning (treated as 0)
   pdfFileName: string;
   exportDate: string;
   tags: Tag[];
   relationships: Relationship[];
   rawTextItems: RawTextItem[];
   descriptions: Description[];
+  loops?: Loop[]; // Missing in project files exported before loops were persisted
+  comments?: DrawingComment[]; // Missing in project files exported before comments were added
+  // Multi-PDF projects: items carry documentId; pdfFileName is the active document
+  documents?: ProjectDocumentInfo[];
+  activeDocumentId?: string;
   settings: {
     patterns: PatternConfig;
     tolerances: ToleranceConfig;
     appSettings: AppSettings;
+    profileName?: string; // Settings profile active when the project was saved
   };
 }
 
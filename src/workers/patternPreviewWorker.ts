@@ -0,0 +1,21 @@
+// Runs the settings pattern preview off the main thread, so a runaway regex can be stopped by
+// terminating the worker. Reports each pattern before running it; the last one reported hung.
+import { comparePatternMatches, findPatternMatches } from '../services/patternPreviewService.ts';
+
+self.onmessage = (event: MessageEvent) => {
+    const { corpus, currentPatterns, currentTolerances, candidatePatterns, candidateTolerances, appSettings } = event.data;
+    let lastReported = '';
+    const report = (run: 'current' | 'candidate') => (category: string) => {
+        const key = `${run}:${category}`;
+        if (key === lastReported) return;
+        lastReported = key;
+        self.postMessage({ started: { run, category } });
+    };
+    try {
+        const candidate = findPatternMatches(corpus, candidatePatterns, candidateTolerances, appSettings, report('candidate'));
+        const current = findPatternMatches(corpus, currentPatterns, currentTolerances, appSettings, report('current'));
+        self.postMessage({ result: comparePatternMatches(current, candidate) });
+    } catch (error) {
+        self.postMessage({ error: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,13 @@
+// Runs the synchronous tag extraction for one page at a time, off the main thread.
+// Text content is fetched by pdf.js on the main side and posted here as plain data.
+import { extractTagsFromTextContent } from '../services/taggingService.ts';
+
+self.onmessage = (event: MessageEvent) => {
+    const { taskId, pageNum, textContent, viewport, patterns, tolerances, appSettings, documentKey } = event.data;
+    try {
+        const result = extractTagsFromTextContent(textContent, viewport, pageNum, patterns, tolerances, appSettings, documentKey);
+        self.postMessage({ taskId, result });
+    } catch (error) {
+        self.postMessage({ taskId, error: error instanceof Error ? error.message : String(error) });
+    }
+};